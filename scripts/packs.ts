@@ -0,0 +1,6 @@
+import { runPackCli } from '../src/lib/pack-cli';
+
+// Pack CLI entry point: `npm run packs -- validate packs/my-pack.yaml`
+runPackCli(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,333 @@
+'use client';
+
+import React from 'react';
+import { useRunState } from '@/contexts/RunStateContext';
+import type { LoadResult } from '@/lib/content-loader';
+import { formatDiagnostic } from '@/lib/pack-diagnostics';
+import { getPackManager, type PackInfo } from '@/lib/pack-manager';
+import { formatPackSpecifier } from '@/lib/pack-registry';
+
+const DIMENSIONS = ['R', 'U', 'S', 'C', 'I'] as const;
+
+interface DevPanelProps {
+  onPackSwitched: () => void;
+  onJumpToStep: () => void;
+}
+
+// Ctrl+Shift+D (Cmd+Shift+D on macOS) toggles the panel
+function isToggleCombo(event: KeyboardEvent): boolean {
+  return (
+    (event.ctrlKey || event.metaKey) &&
+    event.shiftKey &&
+    event.key.toLowerCase() === 'd'
+  );
+}
+
+/**
+ * Operator overlay for switching packs and inspecting the run live.
+ * Opens with ?dev or the hidden key combo.
+ */
+export function DevPanel({ onPackSwitched, onJumpToStep }: DevPanelProps) {
+  const { runState, contentPack, packReady, switchPack, dispatch } =
+    useRunState();
+  const [open, setOpen] = React.useState(false);
+  const [packs, setPacks] = React.useState<PackInfo[]>([]);
+  const [loadHistory, setLoadHistory] = React.useState<LoadResult[]>([]);
+  const [registryErrors, setRegistryErrors] = React.useState<string[]>([]);
+  const [switching, setSwitching] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (getPackManager().isDevModeEnabled()) {
+      setOpen(true);
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isToggleCombo(event)) {
+        event.preventDefault();
+        setOpen((value) => !value);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const refreshDiagnostics = React.useCallback(() => {
+    const manager = getPackManager();
+    setPacks(manager.getAvailablePacks());
+    setLoadHistory(manager.getLoadHistory());
+    setRegistryErrors(manager.getRegistryErrors());
+  }, []);
+
+  // Re-read PackManager diagnostics whenever the panel opens or the startup pack resolves
+  React.useEffect(() => {
+    if (open && packReady) {
+      refreshDiagnostics();
+    }
+  }, [open, packReady, refreshDiagnostics]);
+
+  if (!open) {
+    return null;
+  }
+
+  const handleSwitch = async (pack: PackInfo) => {
+    const specifier = formatPackSpecifier(pack);
+    setSwitching(specifier);
+    try {
+      await switchPack(specifier);
+      onPackSwitched();
+    } finally {
+      setSwitching(null);
+      refreshDiagnostics();
+    }
+  };
+
+  const handleJump = (step: number) => {
+    dispatch({ type: 'JUMP_TO_STEP', step });
+    onJumpToStep();
+  };
+
+  const allDiagnostics = [
+    ...registryErrors.map((message) => ({ level: 'error', message })),
+    ...loadHistory.flatMap((result) => [
+      // Structured validation diagnostics (with YAML line/column) replace the plain error lines
+      ...(result.diagnostics?.length
+        ? result.diagnostics.map((diagnostic) => ({
+            level: diagnostic.severity,
+            message: formatDiagnostic(diagnostic),
+          }))
+        : result.errors.map((message) => ({ level: 'error', message }))),
+      ...result.warnings.map((message) => ({ level: 'warning', message })),
+    ]),
+  ];
+  // Repeated loads report the same problems; list each once, keyed by level and message
+  const diagnostics = [
+    ...new Map(
+      allDiagnostics.map((entry) => [`${entry.level}:${entry.message}`, entry]),
+    ),
+  ].map(([key, entry]) => ({ key, ...entry }));
+
+  // A step can be visited more than once, so rows are keyed by step and choice number
+  const historyRows = runState.history.map((result, index) => ({
+    key: `${runState.path[index]}-${index}`,
+    step: runState.path[index],
+    result,
+  }));
+
+  return (
+    <aside
+      role="dialog"
+      aria-label="Operator dev panel"
+      className="fixed top-0 right-0 z-50 h-screen w-full max-w-md overflow-y-auto border-l border-[var(--border)] bg-[var(--surface-2)] p-4 text-sm text-[var(--text-average)] shadow-lg space-y-5"
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-[var(--text-hard)]">
+          Operator panel
+        </h2>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          aria-label="Close dev panel"
+          className="text-[var(--text-average)] hover:text-[var(--text-hard)]"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Packs */}
+      <section className="space-y-2">
+        <h3 className="font-semibold text-[var(--text-hard)]">Packs</h3>
+        <ul className="space-y-1">
+          {packs.map((pack) => {
+            const specifier = formatPackSpecifier(pack);
+            const active =
+              pack.id === contentPack.id &&
+              pack.version === contentPack.version;
+            return (
+              <li
+                key={specifier}
+                className="flex items-center justify-between gap-2 rounded-md bg-[var(--surface-1)] px-3 py-2"
+              >
+                <div>
+                  <div className="text-[var(--text-hard)]">{pack.title}</div>
+                  <div className="font-mono text-xs text-[var(--text-pale)]">
+                    {specifier} · {pack.source}
+                    {pack.tags?.length ? ` · ${pack.tags.join(', ')}` : ''}
+                  </div>
+                </div>
+                {active ? (
+                  <span className="text-xs font-semibold text-[var(--color-primary)]">
+                    Active
+                  </span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => handleSwitch(pack)}
+                    disabled={switching !== null}
+                    className="rounded-md border border-[var(--border)] px-2 py-1 text-xs text-[var(--text-hard)] hover:bg-[rgba(255,255,255,0.06)] disabled:opacity-50"
+                  >
+                    {switching === specifier
+                      ? 'Loading…'
+                      : `Switch to ${specifier}`}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+
+      {/* Load diagnostics */}
+      <section className="space-y-2">
+        <h3 className="font-semibold text-[var(--text-hard)]">Load history</h3>
+        {diagnostics.length === 0 ? (
+          <p className="text-[var(--text-pale)]">No errors or warnings</p>
+        ) : (
+          <ul className="space-y-1 font-mono text-xs">
+            {diagnostics.map((entry) => (
+              <li
+                key={entry.key}
+                className={
+                  entry.level === 'error'
+                    ? 'text-[var(--color-pink)]'
+                    : 'text-[var(--color-orange)]'
+                }
+              >
+                [{entry.level}] {entry.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* Run state */}
+      <section className="space-y-2">
+        <h3 className="font-semibold text-[var(--text-hard)]">Run</h3>
+        <div className="font-mono text-xs space-y-1">
+          <div>Seed: {runState.seed}</div>
+          <div>
+            Step: {runState.currentStep} · Path: {runState.path.join(' → ')} ·
+            Next: {runState.nextStep ?? '—'}
+          </div>
+        </div>
+        <table className="w-full font-mono text-xs">
+          <thead>
+            <tr className="text-[var(--text-pale)]">
+              <th className="text-left font-normal" />
+              {DIMENSIONS.map((dimension) => (
+                <th key={dimension} className="text-right font-normal">
+                  {dimension}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td>State</td>
+              {DIMENSIONS.map((dimension) => (
+                <td key={dimension} className="text-right">
+                  {runState.state[dimension]}
+                </td>
+              ))}
+            </tr>
+            <tr>
+              <td>Effective</td>
+              {DIMENSIONS.map((dimension) => (
+                <td key={dimension} className="text-right">
+                  {runState.effective[dimension].toFixed(2)}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </section>
+
+      {/* Meter history */}
+      <section className="space-y-2">
+        <h3 className="font-semibold text-[var(--text-hard)]">Meter history</h3>
+        {runState.history.length === 0 ? (
+          <p className="text-[var(--text-pale)]">No choices yet</p>
+        ) : (
+          <table className="w-full font-mono text-xs">
+            <thead>
+              <tr className="text-[var(--text-pale)]">
+                <th className="text-left font-normal">#</th>
+                <th className="text-right font-normal">Meter</th>
+                <th className="text-right font-normal">Raw</th>
+                <th className="text-right font-normal">Mom.</th>
+                <th className="text-right font-normal">Rand.</th>
+                <th className="text-right font-normal">Flags</th>
+              </tr>
+            </thead>
+            <tbody>
+              {historyRows.map(({ key, step, result }) => (
+                <tr key={key}>
+                  <td>{step ?? '?'}</td>
+                  <td className="text-right">{result.meter}</td>
+                  <td className="text-right">{result.raw.toFixed(2)}</td>
+                  <td className="text-right">{result.momentum}</td>
+                  <td className="text-right">{result.randomness}</td>
+                  <td className="text-right">
+                    {[
+                      result.rubberBand && 'rubber-band',
+                      result.unluckApplied &&
+                        `unluck ×${result.luckFactor?.toFixed(2)}`,
+                      result.specialUnluckApplied &&
+                        `special: ${result.specialEventId ?? '?'}`,
+                      result.luckyBreakApplied &&
+                        `lucky ×${result.luckyBreakFactor?.toFixed(2)}`,
+                      result.luckyBreakBonus &&
+                        `+${result.luckyBreakBonus.amount} ${result.luckyBreakBonus.dimension}`,
+                      result.interactions?.length &&
+                        `rules: ${result.interactions.join(', ')}`,
+                      result.decay &&
+                        `decay ${Object.entries(result.decay)
+                          .map(([key, change]) => `${key}${change}`)
+                          .join(' ')}`,
+                    ]
+                      .filter(Boolean)
+                      .join(', ') || '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {/* Controls */}
+      <section className="space-y-2">
+        <h3 className="font-semibold text-[var(--text-hard)]">Controls</h3>
+        <button
+          type="button"
+          aria-pressed={Boolean(runState.forceUnluck)}
+          onClick={() =>
+            dispatch({ type: 'FORCE_UNLUCK', enabled: !runState.forceUnluck })
+          }
+          className="rounded-md border border-[var(--border)] px-3 py-1 text-[var(--text-hard)] hover:bg-[rgba(255,255,255,0.06)]"
+        >
+          {runState.forceUnluck
+            ? 'Unluck forced on next choice'
+            : 'Force unluck on next choice'}
+        </button>
+        <div className="flex flex-wrap items-center gap-2">
+          <span>Jump to step:</span>
+          {contentPack.steps.map((step) => (
+            <button
+              key={step.id}
+              type="button"
+              onClick={() => handleJump(step.id)}
+              title={step.title}
+              className="h-8 w-8 rounded-md border border-[var(--border)] text-[var(--text-hard)] hover:bg-[rgba(255,255,255,0.06)]"
+            >
+              {step.id}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      <p className="text-xs text-[var(--text-pale)]">
+        Toggle with Ctrl+Shift+D
+      </p>
+    </aside>
+  );
+}
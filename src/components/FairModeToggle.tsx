@@ -0,0 +1,31 @@
+'use client';
+
+import { useRunState } from '@/contexts/RunStateContext';
+
+/**
+ * Fair mode switch for the start and finale screens: the next run reuses the seed of the run it replaces
+ */
+export function FairModeToggle() {
+  const { fairMode, setFairMode, runState, previousRun } = useRunState();
+  // Same choice as resetRun: a run with choices is replaced (and compared against) by the next one
+  const seed = runState.choices.length > 0 ? runState.seed : previousRun?.seed;
+
+  return (
+    <label className="flex items-start gap-3 max-w-sm mx-auto text-left cursor-pointer">
+      <input
+        type="checkbox"
+        checked={fairMode}
+        onChange={(e) => setFairMode(e.target.checked)}
+        className="mt-1 h-4 w-4 accent-[var(--color-primary)]"
+      />
+      <span>
+        <span className="font-semibold text-[var(--text-hard)]">Fair mode</span>
+        <span className="block text-sm text-[var(--text-average)]">
+          {seed !== undefined
+            ? `The next run reuses seed ${seed}, so every step rolls the same luck as the previous run.`
+            : 'The next run reuses the seed of the run before it, so you can compare paths under the same luck.'}
+        </span>
+      </span>
+    </label>
+  );
+}
@@ -2,8 +2,23 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import { useRunState, useCurrentStep } from '@/contexts/RunStateContext';
-import { getMeterTier, mulberry32 } from '@/lib/scaling-meter';
-import { getUnluckMessage, getSpecialUnluckMessage } from '@/lib/content-pack';
+import { getDecayMessages, getLuckyBreakMessageRng, getMeterTier, mulberry32 } from '@/lib/scaling-meter';
+import {
+  ChoiceId,
+  getOptionLetterById,
+  getStepOption,
+  getUnluckMessage,
+  getLuckyBreakMessage,
+  getSpecialEventEffects,
+  getSpecialEventMessage,
+} from '@/lib/content-pack';
+import { ScoreBreakdown } from './ScoreBreakdown';
+
+// Icons for special event effects in the unluck popup
+const SPECIAL_EFFECT_ICONS = { gains: '💀', R: '📉', U: '👥', S: '🔥', C: '💔', I: '💸' } as const;
+
+// Dimension names for the lucky break bonus
+const DIMENSION_LABELS = { R: 'Revenue', U: 'Users', S: 'System', C: 'Customer', I: 'Investor' } as const;
 
 interface FeedbackScreenProps {
   onContinue: () => void;
@@ -14,15 +29,19 @@ interface FeedbackScreenProps {
  * Feedback screen component showing the results of the user's choice
  */
 export function FeedbackScreen({ onContinue, onViewFinale }: FeedbackScreenProps) {
-  const { runState, dispatch } = useRunState();
-  const { currentStep, stepData } = useCurrentStep();
+  const { runState, meterConfig, dispatch } = useRunState();
+  const { stepData, stepNumber } = useCurrentStep();
   const continueRef = useRef<HTMLButtonElement>(null);
   const lastResult = runState.history[runState.history.length - 1];
   const [showUnluck, setShowUnluck] = useState<boolean>(Boolean(lastResult?.unluckApplied));
+  const [showLuckyBreak, setShowLuckyBreak] = useState<boolean>(Boolean(lastResult?.luckyBreakApplied));
 
   // Get the last choice made
   const lastChoice = runState.choices[runState.choices.length - 1];
-  const choiceData = lastChoice?.choice === 'A' ? stepData?.optionA : stepData?.optionB;
+  const choiceData = lastChoice && stepData ? getStepOption(stepData, lastChoice.choice) : undefined;
+
+  // Decay and drift since the previous step
+  const decayMessages = lastResult ? getDecayMessages(lastResult) : [];
 
   // Get current meter state
   const meterValue = runState.lastMeter || 0;
@@ -31,21 +50,28 @@ export function FeedbackScreen({ onContinue, onViewFinale }: FeedbackScreenProps
   // Unluck popup data
   const unluckApplied = Boolean(lastResult?.unluckApplied);
   const specialUnluckApplied = Boolean(lastResult?.specialUnluckApplied);
+  const specialEvent = meterConfig.specialEvents.find(event => event.id === lastResult?.specialEventId);
   const luckFactorPct = lastResult?.luckFactor != null ? Math.round((lastResult.luckFactor as number) * 100) : null;
   const unluckRng = mulberry32(runState.seed + Math.max(0, runState.stepCount - 1));
   
   // Get appropriate unluck message
   let unluckMsg: string | null = null;
   if (unluckApplied) {
-    if (specialUnluckApplied) {
-      // Use special unluck message for double unluck events
-      unluckMsg = getSpecialUnluckMessage(unluckRng);
+    if (specialEvent) {
+      // Use the pack's message for the special event that fired
+      unluckMsg = getSpecialEventMessage(specialEvent, unluckRng);
     } else if (stepData && lastChoice) {
       // Use regular contextual unluck message
       unluckMsg = getUnluckMessage(stepData, lastChoice.choice, unluckRng) || null;
     }
   }
 
+  // Lucky break popup data (never on the same step as unluck)
+  const luckyBreakApplied = Boolean(lastResult?.luckyBreakApplied);
+  const luckyBreakPct = lastResult?.luckyBreakFactor != null ? Math.round(lastResult.luckyBreakFactor * 100) : null;
+  const luckyBreakBonus = lastResult?.luckyBreakBonus;
+  const luckyBreakMsg = luckyBreakApplied ? getLuckyBreakMessage(meterConfig.luckyBreak.messages, getLuckyBreakMessageRng(runState.seed, Math.max(0, runState.stepCount - 1))) : null;
+
   useEffect(() => {
     // Focus continue button when component mounts
     if (continueRef.current) {
@@ -61,25 +87,36 @@ export function FeedbackScreen({ onContinue, onViewFinale }: FeedbackScreenProps
     }
   }, [showUnluck]);
 
+  // Auto-dismiss lucky break popup after the same timeout
+  useEffect(() => {
+    if (showLuckyBreak) {
+      const timer = setTimeout(() => setShowLuckyBreak(false), 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [showLuckyBreak]);
+
   // Handle keyboard navigation
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
-      if (event.key === 'Enter' || event.key === ' ') {
+      // Focused controls (score breakdown toggle, popup close) handle their own keys
+      const onControl = event.target instanceof HTMLElement && event.target.closest('button, input, a');
+      if ((event.key === 'Enter' || event.key === ' ') && !onControl) {
         event.preventDefault();
         handleContinue();
-      } else if (event.key === 'Escape' && showUnluck) {
+      } else if (event.key === 'Escape' && (showUnluck || showLuckyBreak)) {
         event.preventDefault();
         setShowUnluck(false);
+        setShowLuckyBreak(false);
       }
     };
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [showUnluck]);
+  }, [showUnluck, showLuckyBreak]);
 
   const handleContinue = () => {
-    if (currentStep < 5) {
-      // Advance to next step
+    if (typeof runState.nextStep === 'number') {
+      // Advance to the step this choice routed to
       dispatch({ type: 'ADVANCE_STEP' });
       onContinue();
     } else {
@@ -103,7 +140,7 @@ export function FeedbackScreen({ onContinue, onViewFinale }: FeedbackScreenProps
     );
   }
 
-  const isLastStep = currentStep >= 5;
+  const isLastStep = runState.nextStep === 'end';
 
   return (
     <div className="flex flex-col justify-center min-h-screen py-8">
@@ -124,7 +161,7 @@ export function FeedbackScreen({ onContinue, onViewFinale }: FeedbackScreenProps
         {/* Choice recap */}
         <div className="bg-[var(--surface-1)] rounded-md p-6 border border-[var(--border)]">
           <h2 className="text-xl font-semibold text-[var(--text-hard)] mb-4">
-            Your Choice: Option {lastChoice.choice}
+            Your Choice: Option {stepData ? getOptionLetterById(stepData, lastChoice.choice) : lastChoice.choice}
           </h2>
           <div className="space-y-3">
             <h3 className="font-semibold text-[var(--text-hard)]">
@@ -171,6 +208,15 @@ export function FeedbackScreen({ onContinue, onViewFinale }: FeedbackScreenProps
             })}
           </div>
 
+          {/* Decay and drift since the previous step */}
+          {decayMessages.length > 0 && (
+            <div className="mb-6 text-sm text-[var(--text-average)]" data-testid="decay-messages">
+              {decayMessages.map(message => (
+                <div key={message}>⏳ {message}</div>
+              ))}
+            </div>
+          )}
+
           {/* Current meter status */}
           <div className="border-t border-[var(--divider)] pt-4">
             <div className="flex items-center justify-between mb-2">
@@ -197,6 +243,11 @@ export function FeedbackScreen({ onContinue, onViewFinale }: FeedbackScreenProps
         </div>
 
 
+        {/* Explainable meter breakdown */}
+        {lastResult && (
+          <ScoreBreakdown result={lastResult} previousMeter={runState.history[runState.history.length - 2]?.meter ?? 0} />
+        )}
+
         {/* Unluck popup balloon in console area */}
         {unluckApplied && showUnluck && (
           <div role="status" aria-live="polite" className="relative">
@@ -214,18 +265,19 @@ export function FeedbackScreen({ onContinue, onViewFinale }: FeedbackScreenProps
                 <div className="flex-1">
                   <div className="font-semibold mb-1">
                     {specialUnluckApplied 
-                      ? 'PERFECT STORM — SYSTEM COLLAPSE!' 
+                      ? (specialEvent?.title ?? 'Special unluck').toUpperCase()
                       : 'Unluck event — gains reduced'
                     }
                   </div>
                   <div className="text-sm">
                     {unluckMsg ?? 'Something outside your control reduced your gains this step.'}
-                    {specialUnluckApplied && (
+                    {specialEvent && (
                       <div className="mt-2 font-medium">
-                        💀 Scaling gains reduced by 50%<br/>
-                        👥 Users reduced by 50%<br/>
-                        💔 Customers reduced by 70%<br/>
-                        💸 Investors reduced by 40%
+                        {getSpecialEventEffects(specialEvent).map(effect => (
+                          <div key={effect.key}>
+                            {SPECIAL_EFFECT_ICONS[effect.key]} {effect.label} reduced by {effect.percent}%
+                          </div>
+                        ))}
                       </div>
                     )}
                     {!specialUnluckApplied && typeof luckFactorPct === 'number' && (
@@ -255,6 +307,55 @@ export function FeedbackScreen({ onContinue, onViewFinale }: FeedbackScreenProps
           </div>
         )}
 
+        {/* Lucky break popup balloon, styled like the Unluck one */}
+        {luckyBreakApplied && showLuckyBreak && (
+          <div role="status" aria-live="polite" className="relative">
+            <div
+              className="border rounded-xl p-4 mb-4 border-[var(--color-primary)] text-[var(--color-primary)]"
+              style={{ backgroundColor: 'rgba(143, 0, 231, 0.1)' }}
+            >
+              <div className="flex items-start">
+                <div className="mr-3 text-xl" aria-hidden>
+                  🍀
+                </div>
+                <div className="flex-1">
+                  <div className="font-semibold mb-1">
+                    Lucky break — gains boosted
+                  </div>
+                  <div className="text-sm">
+                    {luckyBreakMsg ?? 'Something outside your control boosted your gains this step.'}
+                    {typeof luckyBreakPct === 'number' && (
+                      <span> (boosted to {luckyBreakPct}% this step)</span>
+                    )}
+                    {luckyBreakBonus && (
+                      <div className="mt-2 font-medium">
+                        🎁 {DIMENSION_LABELS[luckyBreakBonus.dimension]} +{luckyBreakBonus.amount} bonus
+                      </div>
+                    )}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setShowLuckyBreak(false)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                      e.preventDefault();
+                      setShowLuckyBreak(false);
+                    }
+                  }}
+                  className="ml-3 text-sm px-2 py-1 rounded border border-[var(--color-primary)] hover:bg-[rgba(143,0,231,0.2)] focus:outline-none"
+                  style={{ boxShadow: 'none' }}
+                  onFocus={(e) => e.target.style.boxShadow = 'var(--shadow-focus)'}
+                  onBlur={(e) => e.target.style.boxShadow = 'none'}
+                  aria-label="Dismiss lucky break message"
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Junie's commentary */}
         <div className="bg-[var(--surface-1)] rounded-md p-6 border border-[var(--border)]">
           <div className="flex items-start space-x-3">
@@ -285,7 +386,7 @@ export function FeedbackScreen({ onContinue, onViewFinale }: FeedbackScreenProps
             onFocus={(e) => e.target.style.boxShadow = 'var(--shadow-focus)'}
             onBlur={(e) => e.target.style.boxShadow = 'none'}
           >
-            {isLastStep ? 'View Final Results' : `Continue to Step ${currentStep + 1}`}
+            {isLastStep ? 'View Final Results' : `Continue to Step ${stepNumber + 1}`}
           </button>
         </div>
       </div>
@@ -296,7 +397,7 @@ export function FeedbackScreen({ onContinue, onViewFinale }: FeedbackScreenProps
 /**
  * Generate Junie's commentary based on the choice and current state
  */
-function getJunieCommentary(choice: 'A' | 'B', choiceLabel: string, tier: string): string {
+function getJunieCommentary(choice: ChoiceId, choiceLabel: string, tier: string): string {
   const commentaries = {
     'Scrappy': [
       "Nice choice! We're still scrappy, but every decision counts. Let's keep building! 🚀",
@@ -2,8 +2,13 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import { useRunState } from '@/contexts/RunStateContext';
-import { getMeterTier, getInsights, mulberry32 } from '@/lib/scaling-meter';
-import { getUnluckMessage } from '@/lib/content-pack';
+import { getMeterTier, getInsights, getFiredInteractionRules, mulberry32 } from '@/lib/scaling-meter';
+import { getOptionLetterById, getSpecialEventEffects, getStepOption, getUnluckMessage } from '@/lib/content-pack';
+import { getStepForIndex } from '@/lib/step-graph';
+import { getPackManager } from '@/lib/pack-manager';
+import { encodeRunCode, getReplayHref } from '@/lib/run-code';
+import { FairModeToggle } from '@/components/FairModeToggle';
+import { RunComparison } from '@/components/RunComparison';
 import { toPng } from 'html-to-image';
 
 interface FinaleScreenProps {
@@ -14,15 +19,20 @@ interface FinaleScreenProps {
  * Finale screen component showing the final results and journey summary
  */
 export function FinaleScreen({ onStartOver }: FinaleScreenProps) {
-  const { runState, contentPack, resetRun } = useRunState();
+  const { runState, contentPack, meterConfig, previousRun, resetRun } = useRunState();
   const startOverRef = useRef<HTMLButtonElement>(null);
   const shareCardRef = useRef<HTMLDivElement>(null);
   const [isGeneratingCard, setIsGeneratingCard] = useState(false);
+  const [replayLinkCopied, setReplayLinkCopied] = useState(false);
 
   const currentPack = contentPack;
   const finalMeter = runState.lastMeter || 0;
   const meterTier = getMeterTier(finalMeter);
-  const finalInsights = getInsights(runState.effective, { R: 0, U: 0, S: 0, C: 0, I: 0 });
+  const finalInsights = getInsights(
+    runState.effective,
+    { R: 0, U: 0, S: 0, C: 0, I: 0 },
+    getFiredInteractionRules(runState.history, meterConfig)
+  );
 
   useEffect(() => {
     // Focus start over button when component mounts
@@ -34,6 +44,8 @@ export function FinaleScreen({ onStartOver }: FinaleScreenProps) {
   // Handle keyboard navigation
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
+      // Focused controls (share, copy, fair mode) handle their own keys
+      if (event.target instanceof HTMLElement && event.target.closest('button, input, a')) return;
       if (event.key === 'Enter' || event.key === ' ') {
         event.preventDefault();
         handleStartOver();
@@ -49,6 +61,25 @@ export function FinaleScreen({ onStartOver }: FinaleScreenProps) {
     onStartOver();
   };
 
+  // Seed, pack and choice path; ?replay= with this code rebuilds the run
+  const runPack = { id: contentPack.id, version: contentPack.version };
+  const runCode = encodeRunCode({
+    pack: runPack,
+    seed: runState.seed,
+    choices: runState.choices.map(record => record.choice)
+  });
+
+  const handleCopyReplayLink = async () => {
+    const packUrl = getPackManager().getPackUrl(contentPack.id);
+    const href = getReplayHref(window.location.href, runCode, { ...runPack, ...(packUrl ? { url: packUrl } : {}) });
+    try {
+      await navigator.clipboard.writeText(href);
+      setReplayLinkCopied(true);
+    } catch (error) {
+      console.error('Failed to copy replay link:', error);
+    }
+  };
+
   const handleShareResults = async () => {
     if (!shareCardRef.current) return;
     
@@ -78,14 +109,16 @@ export function FinaleScreen({ onStartOver }: FinaleScreenProps) {
     }
   };
 
-  // Calculate journey summary
+  // Calculate journey summary (one entry per step on the path this run took)
+  const totalSteps = runState.totalSteps;
   const choicesSummary = runState.choices.map((choice, index) => {
-    const step = currentPack.steps[index];
-    const choiceData = choice.choice === 'A' ? step.optionA : step.optionB;
+    const step = getStepForIndex(currentPack, runState.path, index);
+    const choiceData = step ? getStepOption(step, choice.choice) : undefined;
     return {
-      step: index + 1,
+      step: step?.id ?? index + 1,
       choice: choice.choice,
-      label: choiceData.label,
+      letter: step ? getOptionLetterById(step, choice.choice) : choice.choice,
+      label: choiceData?.label ?? `Option ${choice.choice}`,
       delta: choice.delta
     };
   });
@@ -208,6 +241,16 @@ export function FinaleScreen({ onStartOver }: FinaleScreenProps) {
                   <strong className="text-[var(--text-hard)]">Growth Opportunity:</strong> {finalInsights.bottleneck}
                 </p>
               )}
+              {finalInsights.interactions.length > 0 && (
+                <div>
+                  <strong className="text-[var(--text-hard)]">What Interacted:</strong>
+                  <ul className="mt-1 list-disc pl-5">
+                    {finalInsights.interactions.map(insight => (
+                      <li key={insight}>{insight}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -216,22 +259,27 @@ export function FinaleScreen({ onStartOver }: FinaleScreenProps) {
         <div className="bg-[var(--surface-1)] rounded-md p-6 border border-[var(--border)]">
           <h2 className="text-xl font-semibold text-[var(--text-hard)] mb-4">
             📊 Your Decision Journey
+            <span className="ml-2 text-sm font-normal text-[var(--text-pale)]">
+              ({choicesSummary.length} of {totalSteps} steps)
+            </span>
           </h2>
           <div className="space-y-3">
             {choicesSummary.map((choice, index) => {
               const hist = runState.history[index];
               const unluckApplied = Boolean(hist?.unluckApplied);
               const specialUnluckApplied = Boolean(hist?.specialUnluckApplied);
+              const specialEvent = meterConfig.specialEvents.find(event => event.id === hist?.specialEventId);
               const luckFactorPct = hist?.luckFactor != null ? Math.round((hist.luckFactor as number) * 100) : null;
               const unluckRng = mulberry32(runState.seed + index);
-              const unluckMsg = unluckApplied
-                ? (getUnluckMessage(currentPack.steps[index], choice.choice as 'A' | 'B', unluckRng) || null)
+              const step = getStepForIndex(currentPack, runState.path, index);
+              const unluckMsg = unluckApplied && step
+                ? (getUnluckMessage(step, choice.choice, unluckRng) || null)
                 : null;
               return (
                 <div key={index} className="flex items-center justify-between p-3 bg-[var(--surface-2)] rounded border border-[var(--border)]">
                   <div className="flex-1 pr-3">
                     <span className="text-sm font-medium text-[var(--text-hard)]">
-                      Step {choice.step}: Option {choice.choice}
+                      Step {choice.step}: Option {choice.letter}
                     </span>
                     <p className="text-sm text-[var(--text-average)]">
                       {choice.label}
@@ -245,18 +293,30 @@ export function FinaleScreen({ onStartOver }: FinaleScreenProps) {
                         <span className={`text-xs font-semibold ${
                           specialUnluckApplied ? 'text-red-500' : 'text-[var(--color-pink)]'
                         }`}>
-                          {specialUnluckApplied ? '💥 Perfect Storm' : 'Unluck'}
+                          {specialUnluckApplied ? `💥 ${specialEvent?.title ?? 'Special unluck'}` : 'Unluck'}
                         </span>
                         <span className={`text-xs ${
                           specialUnluckApplied ? 'text-red-500' : 'text-[var(--color-pink)]'
                         }`}>
                           {specialUnluckApplied 
-                            ? 'System collapse! Gains -50%, Users -50%, Customers -70%, Investors -40%'
+                            ? (specialEvent ? getSpecialEventEffects(specialEvent).map(effect => `${effect.label} -${effect.percent}%`).join(', ') : '')
                             : `${unluckMsg || 'Unluck event — gains reduced'}${luckFactorPct ? ` (gains cut to ${luckFactorPct}%)` : ''}`
                           }
                         </span>
                       </div>
                     )}
+                    {hist?.luckyBreakApplied && (
+                      <div
+                        className="mt-2 inline-flex items-start gap-2 rounded-md border border-[var(--color-primary)] px-2.5 py-1.5"
+                        style={{ backgroundColor: 'rgba(143, 0, 231, 0.1)' }}
+                      >
+                        <span className="text-xs font-semibold text-[var(--color-primary)]">🍀 Lucky break</span>
+                        <span className="text-xs text-[var(--color-primary)]">
+                          {hist.luckyBreakFactor != null ? `Gains boosted to ${Math.round(hist.luckyBreakFactor * 100)}%` : 'Gains boosted'}
+                          {hist.luckyBreakBonus ? ` · ${hist.luckyBreakBonus.dimension} +${hist.luckyBreakBonus.amount}` : ''}
+                        </span>
+                      </div>
+                    )}
                   </div>
                   <div className="flex flex-wrap gap-2 justify-end min-w-[180px]">
                     {Object.entries(choice.delta).map(([key, value]) => {
@@ -285,6 +345,34 @@ export function FinaleScreen({ onStartOver }: FinaleScreenProps) {
           </div>
         </div>
 
+        {/* Previous run side by side */}
+        {previousRun && <RunComparison previous={previousRun} current={runState} contentPack={currentPack} />}
+
+        {/* Run code */}
+        <div className="bg-[var(--surface-1)] rounded-md p-6 border border-[var(--border)]">
+          <h2 className="text-xl font-semibold text-[var(--text-hard)] mb-2">
+            🔁 Replay This Run
+          </h2>
+          <p className="text-sm text-[var(--text-average)] mb-3">
+            This code holds your seed, content pack and choices. Open it with a replay link to step through the run or try other choices with the same seed.
+          </p>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <code
+              data-testid="run-code"
+              className="flex-1 font-mono text-sm break-all p-3 bg-[var(--surface-2)] rounded border border-[var(--border)] text-[var(--text-hard)]"
+            >
+              {runCode}
+            </code>
+            <button
+              type="button"
+              onClick={handleCopyReplayLink}
+              className="bg-transparent border border-[var(--border)] text-[var(--text-hard)] font-semibold py-2 px-4 rounded-[20px] transition-all duration-200 focus:outline-none hover:bg-[rgba(255,255,255,0.06)]"
+            >
+              {replayLinkCopied ? '✓ Link copied' : 'Copy replay link'}
+            </button>
+          </div>
+        </div>
+
         {/* Junie's final message */}
         <div className="bg-[var(--surface-1)] rounded-md p-6 border border-[var(--border)]">
           <div className="flex items-start space-x-4">
@@ -384,6 +472,9 @@ export function FinaleScreen({ onStartOver }: FinaleScreenProps) {
             }}>
               <p>Choose Your Own Startup Adventure</p>
               <p>Built with Junie AI</p>
+              <p className="mt-2 font-mono text-xs" style={{ color: 'rgba(255, 255, 255, 0.70)' }}>
+                Run code: {runCode}
+              </p>
             </div>
           </div>
         </div>
@@ -419,6 +510,8 @@ export function FinaleScreen({ onStartOver }: FinaleScreenProps) {
             </button>
           </div>
           
+          <FairModeToggle />
+
           <div className="text-sm text-[var(--text-pale)]">
             <p>Share your results or try different choices!</p>
           </div>
@@ -1,9 +1,7 @@
 'use client';
 
 import React from 'react';
-import { useRunState } from '@/contexts/RunStateContext';
-import { getUnluckMessage } from '@/lib/content-pack';
-import { mulberry32 } from '@/lib/scaling-meter';
+import { JunieConsole } from '@/components/JunieConsole';
 
 interface GameLayoutProps {
   children: React.ReactNode;
@@ -41,7 +39,7 @@ export function GameLayout({ children, console, meter, className = '' }: GameLay
               </p>
             </div>
             <div className="flex-1 overflow-hidden">
-              {console || <ConsolePlaceholder />}
+              {console || <JunieConsole />}
             </div>
           </div>
 
@@ -57,91 +55,6 @@ export function GameLayout({ children, console, meter, className = '' }: GameLay
   );
 }
 
-/**
- * Placeholder console component for Phase 3
- */
-function ConsolePlaceholder() {
-  const { runState, contentPack } = useRunState();
-  const [logs, setLogs] = React.useState<string[]>([
-    '> Initializing AI Cofounder development environment...',
-    '> Loading startup simulation engine...',
-    '> Ready for founder decisions! 🚀'
-  ]);
-
-  const lastUnluckIndexRef = React.useRef<number>(-1);
-
-  // Append Unluck message when event occurs on a step
-  React.useEffect(() => {
-    const stepIndex = runState.history.length - 1;
-    if (stepIndex < 0) return;
-    const last = runState.history[stepIndex];
-    if (!last?.unluckApplied) return;
-    if (!runState.choices[stepIndex]) return;
-    if (lastUnluckIndexRef.current === stepIndex) return;
-    lastUnluckIndexRef.current = stepIndex;
-
-    const choice = runState.choices[stepIndex].choice;
-    const step = contentPack.steps[stepIndex];
-    const rng = mulberry32(runState.seed + stepIndex);
-    const msg = getUnluckMessage(step, choice, rng) || 'Unluck event — gains reduced';
-    const pct = last.luckFactor != null ? Math.round((last.luckFactor as number) * 100) : null;
-    const line = `> ⚠️ Unluck: ${msg}${pct ? ` (gains cut to ${pct}%)` : ''}`;
-    setLogs(prev => [...prev, line].slice(-20));
-  }, [runState.history.length, runState.seed, contentPack.steps, runState.choices]);
-
-  // Simulate some activity
-  React.useEffect(() => {
-    const interval = setInterval(() => {
-      const messages = [
-        '> Analyzing market conditions...',
-        '> Optimizing product-market fit algorithms...',
-        '> Monitoring user engagement metrics...',
-        '> Calculating scaling potential...',
-        '> Processing founder feedback...',
-        '> Updating investor confidence models...'
-      ];
-      setLogs(prev => {
-        const newLog = messages[Math.floor(Math.random() * messages.length)];
-        const updated = [...prev, newLog];
-        return updated.slice(-20);
-      });
-    }, 3000);
-
-    return () => clearInterval(interval);
-  }, []);
-
-  return (
-    <div className="h-full flex flex-col font-mono text-sm" aria-live="polite">
-      <div className="flex-1 overflow-y-auto p-4 min-h-0">
-        <div className="space-y-1">
-          {logs.map((log, index) => {
-            const isUnluck = log.includes('⚠️ Unluck');
-            return (
-              <div 
-                key={index}
-                className={isUnluck
-                  ? 'text-[var(--color-pink)]'
-                  : 'text-[var(--text-average)] animate-pulse'}
-                style={!isUnluck ? { animationDelay: `${index * 100}ms` } : undefined}
-              >
-                {log}
-              </div>
-            );
-          })}
-        </div>
-      </div>
-      <div className="flex-none p-4 border-t border-[var(--divider)]">
-        <div className="flex items-center space-x-2">
-          <div className="w-2 h-2 bg-[var(--color-primary)] rounded-full animate-pulse"></div>
-          <span className="text-xs text-[var(--text-pale)]">
-            Console active - Phase 4 implementation pending
-          </span>
-        </div>
-      </div>
-    </div>
-  );
-}
-
 /**
  * Placeholder meter component for Phase 3
  */
@@ -0,0 +1,327 @@
+'use client';
+
+import React from 'react';
+import { useRunState } from '@/contexts/RunStateContext';
+import {
+  type ConsoleEvent,
+  getStepOption,
+  getUnluckMessage,
+} from '@/lib/content-pack';
+import {
+  createConsoleRng,
+  DEFAULT_STREAM_TIMEOUT_MS,
+  playConsoleScript,
+  resolveConsoleScript,
+} from '@/lib/junie-console';
+import { mulberry32 } from '@/lib/scaling-meter';
+import { getStepForIndex } from '@/lib/step-graph';
+
+interface JunieConsoleProps {
+  streaming?: boolean; // When true, play the script for the latest choice
+  onStreamComplete?: () => void; // Called when streaming finishes or times out
+  timeoutMs?: number;
+  className?: string;
+}
+
+// Console entries kept on screen (log buffer cap, see Requirement 16)
+type ConsoleEntry =
+  | Exclude<ConsoleEvent, { type: 'pause' }>
+  | { type: 'unluck'; text: string };
+
+// Entry as rendered, with an id that stays with it while older entries drop off the buffer
+interface KeyedEntry {
+  id: number;
+  entry: ConsoleEntry;
+}
+
+const MAX_ENTRIES = 40;
+
+const BOOT_ENTRIES: ConsoleEntry[] = [
+  {
+    type: 'log',
+    text: '> Initializing AI Cofounder development environment...',
+    delay: 0,
+  },
+  { type: 'log', text: '> Loading startup simulation engine...', delay: 0 },
+  { type: 'log', text: '> Ready for founder decisions! 🚀', delay: 0 },
+];
+
+/**
+ * Junie Console: streams agent activity (logs, diffs, files, previews) for the chosen option
+ */
+export function JunieConsole({
+  streaming = false,
+  onStreamComplete,
+  timeoutMs = DEFAULT_STREAM_TIMEOUT_MS,
+  className = '',
+}: JunieConsoleProps) {
+  const { runState, contentPack } = useRunState();
+  const [entries, setEntries] = React.useState<KeyedEntry[]>(() =>
+    BOOT_ENTRIES.map((entry, id) => ({ id, entry })),
+  );
+  const nextIdRef = React.useRef(BOOT_ENTRIES.length);
+  const [isStreaming, setIsStreaming] = React.useState(false);
+  const lastUnluckIndexRef = React.useRef<number>(-1);
+  const onCompleteRef = React.useRef(onStreamComplete);
+  const bottomRef = React.useRef<HTMLDivElement>(null);
+
+  onCompleteRef.current = onStreamComplete;
+
+  const append = React.useCallback((entry: ConsoleEntry) => {
+    const id = nextIdRef.current++;
+    setEntries((prev) => [...prev, { id, entry }].slice(-MAX_ENTRIES));
+  }, []);
+
+  // Latest run data, read by the stream effect without restarting it
+  const runDataRef = React.useRef({
+    choices: runState.choices,
+    path: runState.path,
+    pack: contentPack,
+  });
+  runDataRef.current = {
+    choices: runState.choices,
+    path: runState.path,
+    pack: contentPack,
+  };
+
+  // Stream the script for the latest choice
+  const stepIndex = runState.choices.length - 1;
+  const seed = runState.seed;
+  React.useEffect(() => {
+    if (!streaming || stepIndex < 0) return;
+
+    const { choices, path, pack } = runDataRef.current;
+    const record = choices[stepIndex];
+    const step = getStepForIndex(pack, path, stepIndex);
+    const choice =
+      record && step ? getStepOption(step, record.choice) : undefined;
+    if (!choice) {
+      onCompleteRef.current?.();
+      return;
+    }
+
+    const script = resolveConsoleScript(
+      choice,
+      createConsoleRng(seed, stepIndex),
+    );
+    setIsStreaming(true);
+    const stream = playConsoleScript(
+      script,
+      {
+        onEvent: (event) => {
+          if (event.type !== 'pause') append(event);
+        },
+        onComplete: ({ timedOut }) => {
+          if (timedOut)
+            append({
+              type: 'log',
+              text: '> Stream timed out — wrapping up',
+              level: 'warn',
+              delay: 0,
+            });
+          setIsStreaming(false);
+          onCompleteRef.current?.();
+        },
+      },
+      { timeoutMs },
+    );
+
+    return () => {
+      stream.cancel();
+      setIsStreaming(false);
+    };
+  }, [streaming, stepIndex, seed, timeoutMs, append]);
+
+  // Append Unluck message when event occurs on a step
+  React.useEffect(() => {
+    const index = runState.history.length - 1;
+    if (index < 0) return;
+    const last = runState.history[index];
+    if (!last?.unluckApplied) return;
+    if (!runState.choices[index]) return;
+    if (lastUnluckIndexRef.current === index) return;
+    lastUnluckIndexRef.current = index;
+
+    const choice = runState.choices[index].choice;
+    const step = getStepForIndex(contentPack, runState.path, index);
+    if (!step) return;
+    const rng = mulberry32(runState.seed + index);
+    const msg =
+      getUnluckMessage(step, choice, rng) || 'Unluck event — gains reduced';
+    const pct =
+      last.luckFactor != null
+        ? Math.round((last.luckFactor as number) * 100)
+        : null;
+    append({
+      type: 'unluck',
+      text: `> ⚠️ Unluck: ${msg}${pct ? ` (gains cut to ${pct}%)` : ''}`,
+    });
+  }, [
+    runState.history,
+    runState.seed,
+    contentPack,
+    runState.path,
+    runState.choices,
+    append,
+  ]);
+
+  // Keep the newest entry in view whenever one is added
+  React.useEffect(() => {
+    if (entries.length === 0) return;
+    bottomRef.current?.scrollIntoView?.({ block: 'end' });
+  }, [entries]);
+
+  return (
+    <div
+      className={`h-full flex flex-col font-mono text-sm ${className}`}
+      data-testid="junie-console"
+    >
+      <div
+        className="flex-1 overflow-y-auto p-4 min-h-0"
+        role="log"
+        aria-live="polite"
+        aria-label="Junie Console output"
+      >
+        <div className="space-y-1">
+          {entries.map(({ id, entry }) => (
+            <ConsoleEntryView key={id} entry={entry} />
+          ))}
+          <div ref={bottomRef} />
+        </div>
+      </div>
+      <div className="flex-none p-4 border-t border-[var(--divider)]">
+        <div className="flex items-center space-x-2">
+          <div
+            className={`w-2 h-2 rounded-full ${isStreaming ? 'bg-[var(--color-primary)] animate-pulse' : 'bg-[var(--text-pale)]'}`}
+          ></div>
+          <span className="text-xs text-[var(--text-pale)]">
+            {isStreaming ? 'Junie is working...' : 'Console idle'}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Render a single console entry
+ */
+function ConsoleEntryView({ entry }: { entry: ConsoleEntry }) {
+  switch (entry.type) {
+    case 'unluck':
+      return <div className="text-[var(--color-pink)]">{entry.text}</div>;
+
+    case 'log':
+      return (
+        <div
+          className={
+            entry.level === 'success'
+              ? 'text-[var(--color-primary)]'
+              : entry.level === 'warn'
+                ? 'text-[var(--color-orange)]'
+                : 'text-[var(--text-average)]'
+          }
+        >
+          {entry.text}
+        </div>
+      );
+
+    case 'file':
+      return (
+        <div className="text-[var(--text-average)]">
+          <span className="text-[var(--color-primary)]">+ created</span>{' '}
+          {entry.path}
+        </div>
+      );
+
+    case 'diff':
+      return (
+        <div
+          className="rounded border border-[var(--border)] bg-[var(--surface-2)] text-xs overflow-x-auto"
+          data-testid="console-diff"
+        >
+          <div className="px-2 py-1 border-b border-[var(--divider)] text-[var(--text-pale)]">
+            {entry.file}
+          </div>
+          <pre className="px-2 py-1">
+            {keyDiffLines(entry.lines).map(({ key, line }) => (
+              <div
+                key={key}
+                className={
+                  line.startsWith('+')
+                    ? 'text-[var(--color-primary)]'
+                    : line.startsWith('-')
+                      ? 'text-[var(--color-pink)]'
+                      : 'text-[var(--text-average)]'
+                }
+              >
+                {line}
+              </div>
+            ))}
+          </pre>
+        </div>
+      );
+
+    case 'preview':
+      return <ConsolePreview entry={entry} />;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Key diff lines by their text and how often it appeared before, so repeated lines stay distinct
+ */
+function keyDiffLines(lines: string[]): Array<{ key: string; line: string }> {
+  const seen = new Map<string, number>();
+  return lines.map((line) => {
+    const count = seen.get(line) ?? 0;
+    seen.set(line, count + 1);
+    return { key: `${line}#${count}`, line };
+  });
+}
+
+/**
+ * Artifact preview with a simulated placeholder when the asset is missing or fails to load
+ */
+function ConsolePreview({
+  entry,
+}: {
+  entry: Extract<ConsoleEvent, { type: 'preview' }>;
+}) {
+  const [failed, setFailed] = React.useState(false);
+  const simulated =
+    failed || (entry.kind === 'image' ? !entry.src : !entry.html);
+
+  return (
+    <div
+      className="rounded border border-[var(--border)] bg-[var(--surface-2)] p-2 text-xs"
+      data-testid="console-preview"
+    >
+      {entry.caption && (
+        <div className="text-[var(--text-pale)] mb-1">{entry.caption}</div>
+      )}
+      {simulated ? (
+        <div className="text-[var(--text-pale)] italic">
+          Simulated preview shown — asset unavailable
+        </div>
+      ) : entry.kind === 'image' ? (
+        // biome-ignore lint/performance/noImgElement: preview src is any URL a pack names, which next/image would need allow-listed in next.config
+        <img
+          src={entry.src}
+          alt={entry.caption ?? 'Artifact preview'}
+          className="max-h-24"
+          onError={() => setFailed(true)}
+        />
+      ) : (
+        <iframe
+          title={entry.caption ?? 'Artifact preview'}
+          sandbox=""
+          srcDoc={entry.html}
+          className="w-full h-16 bg-white rounded"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useRunState } from '@/contexts/RunStateContext';
+
+/**
+ * Shown on the start screen when the saved run was played on a different pack (id, version or content)
+ */
+export function PackMismatchNotice() {
+  const { packMismatch, resolvePackMismatch } = useRunState();
+
+  if (!packMismatch) {
+    return null;
+  }
+
+  const { saved, current } = packMismatch;
+  const sameVersion =
+    saved.id === current.id && saved.version === current.version;
+
+  return (
+    <div
+      role="alertdialog"
+      aria-labelledby="pack-mismatch-title"
+      className="bg-[var(--surface-1)] rounded-md p-6 border border-[var(--color-orange)] text-left space-y-4"
+    >
+      <div className="space-y-2">
+        <h2
+          id="pack-mismatch-title"
+          className="text-xl font-semibold text-[var(--text-hard)]"
+        >
+          Saved run uses a different content pack
+        </h2>
+        <p className="text-[var(--text-average)]">
+          Your run was played on{' '}
+          <strong>
+            {saved.id} v{saved.version}
+          </strong>
+          , but{' '}
+          <strong>
+            {current.id} v{current.version}
+          </strong>{' '}
+          is loaded
+          {sameVersion ? ' and its content has changed' : ''}.
+        </p>
+      </div>
+
+      <div
+        className={`grid gap-2 ${packMismatch.canReload ? 'sm:grid-cols-3' : 'sm:grid-cols-2'}`}
+      >
+        {/* Reloading a pack that cannot be loaded again would bring this notice straight back */}
+        {packMismatch.canReload && (
+          <button
+            type="button"
+            onClick={() => resolvePackMismatch('reload')}
+            className="text-white font-semibold py-2 px-4 rounded-[20px] transition-all duration-200 focus:outline-none hover:brightness-110"
+            style={{ background: 'var(--gradient-a)' }}
+          >
+            Reload original pack
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => resolvePackMismatch('migrate')}
+          className="bg-transparent border border-[var(--border)] text-[var(--text-hard)] font-semibold py-2 px-4 rounded-[20px] transition-all duration-200 focus:outline-none hover:bg-[rgba(255,255,255,0.06)]"
+        >
+          Migrate run
+        </button>
+        <button
+          type="button"
+          onClick={() => resolvePackMismatch('fresh')}
+          className="bg-transparent text-[var(--text-average)] font-medium py-2 px-4 rounded-md transition-all duration-200 focus:outline-none hover:text-[var(--color-pink)] hover:underline"
+        >
+          Start fresh
+        </button>
+      </div>
+
+      <p className="text-xs text-[var(--text-pale)]">
+        {!packMismatch.canReload &&
+          `${saved.id} v${saved.version} is no longer available. `}
+        Migrating replays your choices with the same seed on the loaded pack and
+        stops where a step or option no longer exists.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { useRunState } from '@/contexts/RunStateContext';
+
+/**
+ * Non-blocking operator warning shown when the requested content pack fell back to another pack
+ */
+export function PackWarningBanner() {
+  const { packWarning, dismissPackWarning } = useRunState();
+  const [showDetails, setShowDetails] = React.useState(false);
+
+  if (!packWarning) {
+    return null;
+  }
+
+  return (
+    // biome-ignore lint/a11y/useSemanticElements: <output> only allows phrasing content and the banner holds a list
+    <div
+      role="status"
+      aria-live="polite"
+      className="fixed bottom-4 left-4 z-50 max-w-md rounded-md border border-[var(--color-orange)] bg-[var(--surface-1)] p-4 text-sm shadow-lg"
+    >
+      <div className="flex items-start gap-3">
+        <span className="font-semibold text-[var(--color-orange)]">⚠️ Pack</span>
+        <div className="flex-1 space-y-2">
+          <p className="text-[var(--text-hard)]">{packWarning.message}</p>
+          {packWarning.errors.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowDetails((value) => !value)}
+              className="text-xs text-[var(--text-average)] underline hover:text-[var(--text-hard)]"
+            >
+              {showDetails ? 'Hide details' : 'Show details'}
+            </button>
+          )}
+          {showDetails && (
+            <ul className="space-y-1 font-mono text-xs text-[var(--text-pale)]">
+              {[...new Set(packWarning.errors)].map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={dismissPackWarning}
+          aria-label="Dismiss pack warning"
+          className="text-[var(--text-average)] hover:text-[var(--text-hard)]"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import React from 'react';
+import { useRunState } from '@/contexts/RunStateContext';
+import { getPackManager } from '@/lib/pack-manager';
+
+interface PresenterControlsProps {
+  onRewind: () => void; // Called after the run went back to an earlier step
+}
+
+/**
+ * Undo and rewind for presenters walking visitors through the demo.
+ * Only rendered with ?presenter; normal kiosk runs cannot go back.
+ */
+export function PresenterControls({ onRewind }: PresenterControlsProps) {
+  const { runState, contentPack, meterConfig, dispatch } = useRunState();
+  const [enabled, setEnabled] = React.useState(false);
+
+  React.useEffect(() => {
+    setEnabled(getPackManager().isPresenterModeEnabled());
+  }, []);
+
+  if (!enabled) {
+    return null;
+  }
+
+  const handleUndo = () => {
+    dispatch({ type: 'UNDO_CHOICE', pack: contentPack, config: meterConfig });
+    onRewind();
+  };
+
+  const handleRewind = (step: number) => {
+    dispatch({
+      type: 'REWIND_TO_STEP',
+      step,
+      pack: contentPack,
+      config: meterConfig,
+    });
+    onRewind();
+  };
+
+  return (
+    <nav
+      aria-label="Presenter controls"
+      className="fixed bottom-4 right-4 z-40 max-w-xs rounded-md border border-[var(--border)] bg-[var(--surface-2)] p-3 text-sm text-[var(--text-average)] shadow-lg space-y-2"
+    >
+      <div className="font-semibold text-[var(--text-hard)]">Presenter</div>
+      <button
+        type="button"
+        onClick={handleUndo}
+        disabled={runState.choices.length === 0}
+        className="w-full rounded-md border border-[var(--border)] px-3 py-1 text-[var(--text-hard)] hover:bg-[rgba(255,255,255,0.06)] disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        ⟲ Undo last choice
+      </button>
+      {runState.choices.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span>Rewind to:</span>
+          {runState.choices
+            .map((_, index) => index + 1)
+            .map((position) => {
+              const stepId = runState.path[position - 1];
+              const step = contentPack.steps.find(
+                (candidate) => candidate.id === stepId,
+              );
+              return (
+                <button
+                  key={position}
+                  type="button"
+                  onClick={() => handleRewind(position)}
+                  title={step?.title}
+                  aria-label={`Rewind to step ${stepId}${step ? `: ${step.title}` : ''}`}
+                  className="h-8 w-8 rounded-md border border-[var(--border)] text-[var(--text-hard)] hover:bg-[rgba(255,255,255,0.06)]"
+                >
+                  {stepId}
+                </button>
+              );
+            })}
+        </div>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import type { PreviousRun } from '@/contexts/RunStateContext';
+import { type ContentPack, getOptionLetterById } from '@/lib/content-pack';
+import { getMeterTier, type MeterResult } from '@/lib/scaling-meter';
+import { getStepForIndex } from '@/lib/step-graph';
+
+type ComparedRun = Pick<PreviousRun, 'seed' | 'path' | 'choices' | 'history'>;
+
+interface RunComparisonProps {
+  previous: ComparedRun;
+  current: ComparedRun;
+  contentPack: ContentPack;
+}
+
+// "Step 2 · B" for the choice at `index`, or null when the run made no choice there
+function describeChoice(
+  run: ComparedRun,
+  index: number,
+  contentPack: ContentPack,
+): string | null {
+  const record = run.choices[index];
+  if (!record) return null;
+  const step = getStepForIndex(contentPack, run.path, index);
+  return `Step ${run.path[index]} · ${step ? getOptionLetterById(step, record.choice) : record.choice}`;
+}
+
+function LuckMarks({ result }: { result?: MeterResult }) {
+  return (
+    <>
+      {result?.unluckApplied && (
+        <span className="ml-1 text-xs text-[var(--color-pink)]">Unluck</span>
+      )}
+      {result?.luckyBreakApplied && (
+        <span className="ml-1 text-xs text-[var(--color-primary)]">🍀</span>
+      )}
+    </>
+  );
+}
+
+/**
+ * Finale table comparing the previous run's history with this one, step by step
+ */
+export function RunComparison({
+  previous,
+  current,
+  contentPack,
+}: RunComparisonProps) {
+  // 1-based choice positions covered by either run
+  const positions = Array.from(
+    { length: Math.max(previous.history.length, current.history.length) },
+    (_, index) => index + 1,
+  );
+  const previousFinal =
+    previous.history[previous.history.length - 1]?.meter ?? 0;
+  const currentFinal = current.history[current.history.length - 1]?.meter ?? 0;
+  const cell = (run: ComparedRun, index: number) => {
+    const choice = describeChoice(run, index, contentPack);
+    const result = run.history[index];
+    return choice && result ? (
+      <>
+        <span className="text-[var(--text-average)]">{choice}</span>{' '}
+        <span className="font-semibold text-[var(--text-hard)]">
+          {result.meter}
+        </span>
+        <LuckMarks result={result} />
+      </>
+    ) : (
+      <span className="text-[var(--text-pale)]">—</span>
+    );
+  };
+
+  return (
+    <div className="bg-[var(--surface-1)] rounded-md p-6 border border-[var(--border)]">
+      <h2 className="text-xl font-semibold text-[var(--text-hard)] mb-2">
+        ⚖️ Compared With Your Previous Run
+      </h2>
+      <p className="text-sm text-[var(--text-average)] mb-4">
+        {previous.seed === current.seed
+          ? `Fair mode: both runs used seed ${current.seed}, so every step rolled the same luck.`
+          : 'The runs used different seeds, so luck differed between them.'}
+      </p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-[var(--text-pale)]">
+            <th className="font-normal py-1">#</th>
+            <th className="font-normal py-1">Previous run</th>
+            <th className="font-normal py-1">This run</th>
+          </tr>
+        </thead>
+        <tbody>
+          {positions.map((position) => (
+            <tr
+              key={position}
+              className="border-t border-[var(--divider)]"
+              data-testid="comparison-row"
+            >
+              <td className="py-1 text-[var(--text-pale)]">{position}</td>
+              <td className="py-1">{cell(previous, position - 1)}</td>
+              <td className="py-1">{cell(current, position - 1)}</td>
+            </tr>
+          ))}
+          <tr className="border-t border-[var(--divider)] font-semibold text-[var(--text-hard)]">
+            <th scope="row" className="py-1 text-left">
+              Final
+            </th>
+            <td className="py-1">
+              {previousFinal} ({getMeterTier(previousFinal).tier})
+            </td>
+            <td className="py-1">
+              {currentFinal} ({getMeterTier(currentFinal).tier})
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import React from 'react';
+import { useRunState } from '@/contexts/RunStateContext';
+import { getOptionLetterById, getStepOption } from '@/lib/content-pack';
+import { getMeterTier } from '@/lib/scaling-meter';
+
+interface RunReplayViewerProps {
+  onPlay: () => void; // Called once the player has taken over the replayed run
+}
+
+/**
+ * Shown on the start screen for ?replay= links: steps through the recorded run and lets the player
+ * pick differently from any step with the same seed
+ */
+export function RunReplayViewer({ onPlay }: RunReplayViewerProps) {
+  const { replay, contentPack, playFromReplay, endReplay } = useRunState();
+  const [position, setPosition] = React.useState(1);
+
+  if (!replay) {
+    return null;
+  }
+
+  const { run, frames } = replay;
+  const choiceCount = frames.length - 1;
+  const index = Math.min(position, choiceCount);
+  const frame = frames[index];
+  const previousMeter = frames[index - 1]?.lastMeter ?? 0;
+  const record = frame.choices[index - 1];
+  const step = contentPack.steps.find(
+    (candidate) => candidate.id === frame.currentStep,
+  );
+  const option =
+    step && record ? getStepOption(step, record.choice) : undefined;
+  const result = frame.history[frame.history.length - 1];
+
+  const play = (fromChoice: number) => {
+    playFromReplay(fromChoice);
+    onPlay();
+  };
+
+  return (
+    <section
+      aria-labelledby="run-replay-title"
+      className="bg-[var(--surface-1)] rounded-md p-6 border border-[var(--color-primary)] text-left space-y-4"
+    >
+      <div className="space-y-1">
+        <h2
+          id="run-replay-title"
+          className="text-xl font-semibold text-[var(--text-hard)]"
+        >
+          Replaying a shared run
+        </h2>
+        <p className="text-sm text-[var(--text-average)]">
+          {run.pack.id} v{run.pack.version} · seed {run.seed} ·{' '}
+          {run.choices.length} choices
+        </p>
+        {choiceCount < run.choices.length && (
+          <p className="text-sm text-[var(--color-orange)]">
+            Only the first {choiceCount} choices match steps and options in this
+            pack.
+          </p>
+        )}
+      </div>
+
+      {choiceCount > 0 && step && record ? (
+        <div
+          className="bg-[var(--surface-2)] rounded-md p-4 space-y-1"
+          aria-live="polite"
+        >
+          <div className="text-sm text-[var(--text-pale)]">
+            Choice {index} of {choiceCount}
+          </div>
+          <div className="font-semibold text-[var(--text-hard)]">
+            Step {step.id}: {step.title}
+          </div>
+          <div className="text-[var(--text-average)]">
+            Option {getOptionLetterById(step, record.choice)}:{' '}
+            {option?.label ?? record.choice}
+          </div>
+          <div className="text-[var(--text-average)]">
+            Meter {previousMeter} → {frame.lastMeter} (
+            {getMeterTier(frame.lastMeter).tier})
+          </div>
+          {result?.unluckApplied && (
+            <div className="text-sm text-[var(--color-pink)]">
+              Unluck cut the gains of this choice
+            </div>
+          )}
+          {result?.luckyBreakApplied && (
+            <div className="text-sm text-[var(--color-primary)]">
+              🍀 Lucky break boosted this choice
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-[var(--text-average)]">
+          This run code has no choices to step through yet.
+        </p>
+      )}
+
+      {choiceCount > 1 && (
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setPosition(index - 1)}
+            disabled={index <= 1}
+            className="bg-transparent border border-[var(--border)] text-[var(--text-hard)] font-semibold py-2 px-4 rounded-[20px] transition-all duration-200 focus:outline-none hover:bg-[rgba(255,255,255,0.06)] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            ← Previous
+          </button>
+          <button
+            type="button"
+            onClick={() => setPosition(index + 1)}
+            disabled={index >= choiceCount}
+            className="bg-transparent border border-[var(--border)] text-[var(--text-hard)] font-semibold py-2 px-4 rounded-[20px] transition-all duration-200 focus:outline-none hover:bg-[rgba(255,255,255,0.06)] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next →
+          </button>
+        </div>
+      )}
+
+      <div className="grid gap-2 sm:grid-cols-3">
+        {choiceCount > 0 && (
+          <button
+            type="button"
+            onClick={() => play(index - 1)}
+            className="text-white font-semibold py-2 px-4 rounded-[20px] transition-all duration-200 focus:outline-none hover:brightness-110"
+            style={{ background: 'var(--gradient-a)' }}
+          >
+            Choose differently here
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => play(0)}
+          className="bg-transparent border border-[var(--border)] text-[var(--text-hard)] font-semibold py-2 px-4 rounded-[20px] transition-all duration-200 focus:outline-none hover:bg-[rgba(255,255,255,0.06)]"
+        >
+          Play this seed from step 1
+        </button>
+        <button
+          type="button"
+          onClick={endReplay}
+          className="bg-transparent text-[var(--text-average)] font-medium py-2 px-4 rounded-md transition-all duration-200 focus:outline-none hover:text-[var(--color-pink)] hover:underline"
+        >
+          Close replay
+        </button>
+      </div>
+
+      <p className="text-xs text-[var(--text-pale)]">
+        Choosing differently keeps the seed and the earlier choices, so the run
+        is identical up to that step.
+      </p>
+    </section>
+  );
+}
@@ -2,7 +2,8 @@
 
 import React from 'react';
 import { useRunState } from '@/contexts/RunStateContext';
-import { getMeterTier, getInsights } from '@/lib/scaling-meter';
+import { getMeterTier, getInsights, getFiredInteractionRules } from '@/lib/scaling-meter';
+import { getSpecialEventEffects } from '@/lib/content-pack';
 
 interface ScalingMeterProps {
   className?: string;
@@ -13,7 +14,7 @@ interface ScalingMeterProps {
  * Displays current meter value, tier, individual dimensions, and insights
  */
 export function ScalingMeter({ className = '' }: ScalingMeterProps) {
-  const { runState } = useRunState();
+  const { runState, meterConfig } = useRunState();
   
   // Get current meter value from latest history entry or 0 if no history
   const currentMeter = runState.history.length > 0 
@@ -30,11 +31,15 @@ export function ScalingMeter({ className = '' }: ScalingMeterProps) {
   // Get tier information
   const tierInfo = getMeterTier(currentMeter);
   
-  // Get insights from current effective state and last delta
+  // Get insights from current effective state, last delta and the interaction rules it fired
   const lastResult = runState.history[runState.history.length - 1];
   const insights = lastResult 
-    ? getInsights(lastResult.effective, runState.choices[runState.choices.length - 1]?.delta || { R: 0, U: 0, S: 0, C: 0, I: 0 })
-    : { drivers: [], bottleneck: null };
+    ? getInsights(
+        lastResult.effective,
+        runState.choices[runState.choices.length - 1]?.delta || { R: 0, U: 0, S: 0, C: 0, I: 0 },
+        getFiredInteractionRules([lastResult], meterConfig)
+      )
+    : { drivers: [], bottleneck: null, interactions: [] };
 
   // Unluck state from last result
   const unluckApplied = Boolean(lastResult && lastResult.unluckApplied);
@@ -42,6 +47,10 @@ export function ScalingMeter({ className = '' }: ScalingMeterProps) {
   const luckFactor = typeof lastResult?.luckFactor === 'number' ? lastResult!.luckFactor as number : null;
   const [showUnluckOverlay, setShowUnluckOverlay] = React.useState(true);
   const unluckPercent = luckFactor !== null ? Math.round(luckFactor * 100) : null;
+  const specialEvent = meterConfig.specialEvents.find(event => event.id === lastResult?.specialEventId);
+  const specialEffects = specialEvent
+    ? getSpecialEventEffects(specialEvent).map(effect => `${effect.label} -${effect.percent}%`).join(', ')
+    : '';
   
   // Individual dimension data with KotlinConf colors
   const dimensions = [
@@ -183,7 +192,7 @@ export function ScalingMeter({ className = '' }: ScalingMeterProps) {
             </div>
             <span className={`text-xs ${specialUnluckApplied ? 'text-red-500' : 'text-[var(--color-pink)]'}`}>
               {specialUnluckApplied 
-                ? '💥 PERFECT STORM: Gains -50%, Users -50%, Customers -70%, Investors -40%'
+                ? `💥 ${(specialEvent?.title ?? 'Special unluck').toUpperCase()}${specialEffects ? `: ${specialEffects}` : ''}`
                 : `Gains cut${unluckPercent ? ` to ${unluckPercent}%` : ''} this step`
               }
             </span>
@@ -256,6 +265,13 @@ export function ScalingMeter({ className = '' }: ScalingMeterProps) {
               <span className="ml-2">{insights.bottleneck} needs attention</span>
             </div>
           )}
+
+          {insights.interactions.map(insight => (
+            <div key={insight} data-testid="interaction-insight">
+              <span className="font-medium text-[var(--text-hard)]">Interaction:</span>
+              <span className="ml-2">{insight}</span>
+            </div>
+          ))}
           
           <div>
             <span className="font-medium text-[var(--text-hard)]">Current Tier:</span>
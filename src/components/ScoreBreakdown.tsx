@@ -0,0 +1,167 @@
+'use client';
+
+import React from 'react';
+import type { MeterAdjustment, MeterResult, State } from '@/lib/scaling-meter';
+
+const DIMENSIONS = ['R', 'U', 'S', 'C', 'I'] as const;
+
+const DIMENSION_LABELS = {
+  R: 'Revenue',
+  U: 'Users',
+  S: 'System',
+  C: 'Customer',
+  I: 'Investor',
+} as const;
+
+interface ScoreBreakdownProps {
+  result: MeterResult;
+  previousMeter: number;
+}
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+// "Revenue -3, Users -2" or "+3 meter"
+function describeAdjustment(adjustment: MeterAdjustment): string {
+  if (adjustment.meter !== undefined) {
+    return `${signed(adjustment.meter)} meter`;
+  }
+  const change: Partial<State> = adjustment.state ?? {};
+  return DIMENSIONS.filter((key) => change[key] !== undefined)
+    .map((key) => `${DIMENSION_LABELS[key]} ${signed(change[key] ?? 0)}`)
+    .join(', ');
+}
+
+/**
+ * "Why did my score change?" panel: expands a step's MeterResult breakdown
+ */
+export function ScoreBreakdown({ result, previousMeter }: ScoreBreakdownProps) {
+  const [open, setOpen] = React.useState(false);
+  const { breakdown } = result;
+  if (!breakdown) {
+    return null;
+  }
+
+  const { requestedDelta, appliedDelta, contributions, sigmoid, adjustments } =
+    breakdown;
+
+  return (
+    <div className="bg-[var(--surface-1)] rounded-md border border-[var(--border)]">
+      <button
+        type="button"
+        onClick={() => setOpen((value) => !value)}
+        aria-expanded={open}
+        aria-controls="score-breakdown"
+        className="w-full flex items-center justify-between p-4 text-left font-semibold text-[var(--text-hard)] focus:outline-none"
+        style={{ boxShadow: 'none' }}
+        onFocus={(e) => {
+          e.target.style.boxShadow = 'var(--shadow-focus)';
+        }}
+        onBlur={(e) => {
+          e.target.style.boxShadow = 'none';
+        }}
+      >
+        <span>Why did my score change?</span>
+        <span className="text-sm font-normal text-[var(--text-average)]">
+          {previousMeter} → {result.meter} {open ? '▲' : '▼'}
+        </span>
+      </button>
+
+      {open && (
+        <div
+          id="score-breakdown"
+          className="px-4 pb-4 space-y-4 text-sm text-[var(--text-average)]"
+        >
+          {requestedDelta && appliedDelta && (
+            <table className="w-full">
+              <caption className="text-left font-medium text-[var(--text-hard)] mb-1">
+                Your choice
+              </caption>
+              <thead>
+                <tr>
+                  <th className="text-left font-normal" />
+                  {DIMENSIONS.map((key) => (
+                    <th key={key} className="text-right font-normal">
+                      {DIMENSION_LABELS[key]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <th scope="row" className="text-left font-normal">
+                    Requested
+                  </th>
+                  {DIMENSIONS.map((key) => (
+                    <td key={key} className="text-right">
+                      {signed(requestedDelta[key])}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <th scope="row" className="text-left font-normal">
+                    Applied
+                  </th>
+                  {DIMENSIONS.map((key) => (
+                    <td key={key} className="text-right">
+                      {signed(appliedDelta[key])}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          )}
+
+          <div>
+            <div className="font-medium text-[var(--text-hard)] mb-1">
+              Contributions to the score
+            </div>
+            <ul className="space-y-1">
+              {DIMENSIONS.map((key) => (
+                <li key={key} className="flex justify-between">
+                  <span>{DIMENSION_LABELS[key]}</span>
+                  <span>{contributions[key].toFixed(1)}</span>
+                </li>
+              ))}
+              <li className="flex justify-between border-t border-[var(--divider)] pt-1">
+                <span>Raw score</span>
+                <span>{result.raw.toFixed(1)}</span>
+              </li>
+              <li className="flex justify-between">
+                <span>Meter after normalization</span>
+                <span>{sigmoid}</span>
+              </li>
+            </ul>
+          </div>
+
+          <div>
+            <div className="font-medium text-[var(--text-hard)] mb-1">
+              Adjustments
+            </div>
+            {adjustments.length > 0 ? (
+              <ul className="space-y-1">
+                {adjustments.map((adjustment) => (
+                  <li
+                    key={`${adjustment.source}:${adjustment.label}`}
+                    className="flex justify-between gap-4"
+                    data-testid="score-adjustment"
+                  >
+                    <span>{adjustment.label}</span>
+                    <span className="text-right">
+                      {describeAdjustment(adjustment)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p>None this step</p>
+            )}
+          </div>
+
+          <div className="font-medium text-[var(--text-hard)]">
+            Final meter: {result.meter}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
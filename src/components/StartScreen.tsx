@@ -2,6 +2,10 @@
 
 import React from 'react';
 import { useRunState, useCanResume } from '@/contexts/RunStateContext';
+import { PackMismatchNotice } from '@/components/PackMismatchNotice';
+import { RunReplayViewer } from '@/components/RunReplayViewer';
+import { FairModeToggle } from '@/components/FairModeToggle';
+import { getStepCount } from '@/lib/content-pack';
 
 interface StartScreenProps {
   onStartNew: () => void;
@@ -12,7 +16,7 @@ interface StartScreenProps {
  * Start screen component for beginning or resuming a game
  */
 export function StartScreen({ onStartNew, onResume }: StartScreenProps) {
-  const { contentPack, resetRun } = useRunState();
+  const { contentPack, packReady, resetRun } = useRunState();
   const canResume = useCanResume();
   const currentPack = contentPack;
 
@@ -52,7 +56,7 @@ export function StartScreen({ onStartNew, onResume }: StartScreenProps) {
             How it works
           </h2>
           <div className="text-left space-y-3 text-[var(--text-average)]">
-            <p>• Navigate through 5 stages of startup growth</p>
+            <p>• Navigate through {getStepCount(currentPack)} stages of startup growth</p>
             <p>• Make strategic decisions that impact your scaling meter</p>
             <p>• Watch Junie (your AI cofounder) implement your choices</p>
             <p>• Track your progress across 5 key dimensions:</p>
@@ -66,11 +70,18 @@ export function StartScreen({ onStartNew, onResume }: StartScreenProps) {
           </div>
         </div>
 
+        {/* Saved run from another pack */}
+        <PackMismatchNotice />
+
+        {/* Run opened from a ?replay= link */}
+        <RunReplayViewer onPlay={onResume} />
+
         {/* Action buttons */}
         <div className="space-y-4">
           <button
             onClick={handleNewRun}
-            className="w-full max-w-sm mx-auto block text-white font-semibold py-4 px-8 rounded-[20px] transition-all duration-200 focus:outline-none hover:brightness-110"
+            disabled={!packReady}
+            className="w-full max-w-sm mx-auto block text-white font-semibold py-4 px-8 rounded-[20px] transition-all duration-200 focus:outline-none hover:brightness-110 disabled:opacity-50 disabled:cursor-not-allowed"
             style={{ 
               background: 'var(--gradient-a)',
               boxShadow: 'var(--shadow-focus)'
@@ -78,9 +89,11 @@ export function StartScreen({ onStartNew, onResume }: StartScreenProps) {
             onFocus={(e) => e.target.style.boxShadow = 'var(--shadow-focus)'}
             onBlur={(e) => e.target.style.boxShadow = 'none'}
           >
-            Start New Run
+            {packReady ? 'Start New Run' : 'Loading content pack...'}
           </button>
 
+          <FairModeToggle />
+
           {canResume && (
             <div className="space-y-2">
               <button
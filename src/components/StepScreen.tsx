@@ -2,35 +2,42 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { useRunState, useCurrentStep } from '@/contexts/RunStateContext';
-import { Choice, Delta } from '@/lib/content-pack';
+import { Choice, ChoiceId, Delta, getOptionLetter } from '@/lib/content-pack';
+import { hasBranching } from '@/lib/step-graph';
 
 interface StepScreenProps {
-  onChoiceMade: (choice: 'A' | 'B', delta: Delta) => void;
+  onChoiceMade: (choice: ChoiceId, delta: Delta) => void;
   onAdvanceToFeedback: () => void;
 }
 
 /**
- * Step screen component for displaying scenarios and handling A/B choices
+ * Step screen component for displaying scenarios and handling the step's choices (2-4 options)
  */
 export function StepScreen({ onChoiceMade, onAdvanceToFeedback }: StepScreenProps) {
-  const { runState, dispatch } = useRunState();
-  const { currentStep, stepData } = useCurrentStep();
-  const [selectedChoice, setSelectedChoice] = useState<'A' | 'B' | null>(null);
+  const { runState, contentPack, meterConfig, dispatch } = useRunState();
+  const { currentStep, stepData, totalSteps, stepNumber } = useCurrentStep();
+  const [selectedChoice, setSelectedChoice] = useState<ChoiceId | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   
   // Refs for keyboard navigation
-  const optionARef = useRef<HTMLButtonElement>(null);
-  const optionBRef = useRef<HTMLButtonElement>(null);
+  const optionRefs = useRef<Array<HTMLButtonElement | null>>([]);
   const continueRef = useRef<HTMLButtonElement>(null);
 
   // Check if this step has already been completed
-  const isStepCompleted = runState.choices.length >= currentStep;
-  const lastChoice = isStepCompleted ? runState.choices[currentStep - 1] : null;
+  const isStepCompleted = runState.choices.length >= stepNumber;
+  const lastChoice = isStepCompleted ? runState.choices[stepNumber - 1] : null;
+
+  // A presenter undo reopens a completed step; forget the earlier selection
+  useEffect(() => {
+    if (!isStepCompleted) {
+      setSelectedChoice(null);
+    }
+  }, [isStepCompleted]);
 
   useEffect(() => {
     // Focus first option when component mounts
-    if (!isStepCompleted && optionARef.current) {
-      optionARef.current.focus();
+    if (!isStepCompleted && optionRefs.current[0]) {
+      optionRefs.current[0].focus();
     }
   }, [isStepCompleted]);
 
@@ -39,13 +46,17 @@ export function StepScreen({ onChoiceMade, onAdvanceToFeedback }: StepScreenProp
     const handleKeyDown = (event: KeyboardEvent) => {
       if (isProcessing) return;
 
+      const options = stepData?.options ?? [];
+      const optionButtons = optionRefs.current.slice(0, options.length);
+      const focusedIndex = optionButtons.indexOf(document.activeElement as HTMLButtonElement);
+
       switch (event.key) {
         case 'ArrowDown':
         case 'ArrowRight':
           event.preventDefault();
-          if (document.activeElement === optionARef.current) {
-            optionBRef.current?.focus();
-          } else if (document.activeElement === optionBRef.current && continueRef.current) {
+          if (focusedIndex >= 0 && focusedIndex < options.length - 1) {
+            optionButtons[focusedIndex + 1]?.focus();
+          } else if (focusedIndex === options.length - 1 && continueRef.current) {
             continueRef.current.focus();
           }
           break;
@@ -53,56 +64,50 @@ export function StepScreen({ onChoiceMade, onAdvanceToFeedback }: StepScreenProp
         case 'ArrowUp':
         case 'ArrowLeft':
           event.preventDefault();
-          if (document.activeElement === optionBRef.current) {
-            optionARef.current?.focus();
+          if (focusedIndex > 0) {
+            optionButtons[focusedIndex - 1]?.focus();
           } else if (document.activeElement === continueRef.current) {
-            optionBRef.current?.focus();
+            optionButtons[options.length - 1]?.focus();
           }
           break;
         
         case 'Enter':
         case ' ':
           event.preventDefault();
-          if (document.activeElement === optionARef.current && !isStepCompleted) {
-            handleChoiceSelect('A');
-          } else if (document.activeElement === optionBRef.current && !isStepCompleted) {
-            handleChoiceSelect('B');
+          if (focusedIndex >= 0 && !isStepCompleted) {
+            handleChoiceSelect(options[focusedIndex].id);
           } else if (document.activeElement === continueRef.current && selectedChoice) {
             handleContinue();
           }
           break;
         
-        case '1':
-          if (!isStepCompleted) {
+        default: {
+          // Number keys 1-4 pick the option at that position
+          const optionIndex = Number(event.key) - 1;
+          if (Number.isInteger(optionIndex) && optionIndex >= 0 && optionIndex < options.length && !isStepCompleted) {
             event.preventDefault();
-            handleChoiceSelect('A');
-          }
-          break;
-        
-        case '2':
-          if (!isStepCompleted) {
-            event.preventDefault();
-            handleChoiceSelect('B');
+            handleChoiceSelect(options[optionIndex].id);
           }
           break;
+        }
       }
     };
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isProcessing, isStepCompleted, selectedChoice]);
+  }, [isProcessing, isStepCompleted, selectedChoice, stepData]);
 
-  const handleChoiceSelect = async (choice: 'A' | 'B') => {
+  const handleChoiceSelect = async (choice: ChoiceId) => {
     if (isStepCompleted || isProcessing) return;
 
     setIsProcessing(true);
     setSelectedChoice(choice);
 
-    const choiceData = choice === 'A' ? stepData?.optionA : stepData?.optionB;
+    const choiceData = stepData?.options.find(option => option.id === choice);
     if (!choiceData) return;
 
     // Apply the choice to the run state
-    dispatch({ type: 'APPLY_CHOICE', choice, delta: choiceData.delta });
+    dispatch({ type: 'APPLY_CHOICE', choice, pack: contentPack, config: meterConfig });
     
     // Notify parent component
     onChoiceMade(choice, choiceData.delta);
@@ -141,7 +146,7 @@ export function StepScreen({ onChoiceMade, onAdvanceToFeedback }: StepScreenProp
         {/* Step header */}
         <div className="text-center space-y-2">
           <div className="text-sm font-medium text-[var(--color-primary)]">
-            Step {currentStep} of 5
+            {hasBranching(contentPack) ? `Step ${stepNumber}` : `Step ${stepNumber} of ${totalSteps}`}
           </div>
           <h1 className="text-3xl font-bold text-[var(--text-hard)]">
             {stepData.title}
@@ -170,25 +175,17 @@ export function StepScreen({ onChoiceMade, onAdvanceToFeedback }: StepScreenProp
           </h2>
           
           <div className="grid gap-4 md:grid-cols-2">
-            {/* Option A */}
-            <ChoiceButton
-              ref={optionARef}
-              choice="A"
-              choiceData={stepData.optionA}
-              isSelected={selectedChoice === 'A' || (isStepCompleted && lastChoice?.choice === 'A')}
-              isDisabled={isStepCompleted || isProcessing}
-              onClick={() => handleChoiceSelect('A')}
-            />
-
-            {/* Option B */}
-            <ChoiceButton
-              ref={optionBRef}
-              choice="B"
-              choiceData={stepData.optionB}
-              isSelected={selectedChoice === 'B' || (isStepCompleted && lastChoice?.choice === 'B')}
-              isDisabled={isStepCompleted || isProcessing}
-              onClick={() => handleChoiceSelect('B')}
-            />
+            {stepData.options.map((option, index) => (
+              <ChoiceButton
+                key={option.id}
+                ref={element => { optionRefs.current[index] = element; }}
+                letter={getOptionLetter(index)}
+                choiceData={option}
+                isSelected={selectedChoice === option.id || (isStepCompleted && lastChoice?.choice === option.id)}
+                isDisabled={isStepCompleted || isProcessing}
+                onClick={() => handleChoiceSelect(option.id)}
+              />
+            ))}
           </div>
         </div>
 
@@ -215,7 +212,9 @@ export function StepScreen({ onChoiceMade, onAdvanceToFeedback }: StepScreenProp
         {/* Keyboard hints */}
         <div className="text-center text-xs text-[var(--text-pale)] space-y-1">
           <p>💡 Use arrow keys to navigate, Enter/Space to select</p>
-          <p>Or press 1 for Option A, 2 for Option B</p>
+          <p>
+            Or press {stepData.options.map((_, index) => `${index + 1} for Option ${getOptionLetter(index)}`).join(', ')}
+          </p>
         </div>
       </div>
     </div>
@@ -226,7 +225,7 @@ export function StepScreen({ onChoiceMade, onAdvanceToFeedback }: StepScreenProp
  * Choice button component with proper styling and accessibility
  */
 interface ChoiceButtonProps {
-  choice: 'A' | 'B';
+  letter: string; // Display letter for the option's position
   choiceData: Choice;
   isSelected: boolean;
   isDisabled: boolean;
@@ -234,7 +233,7 @@ interface ChoiceButtonProps {
 }
 
 const ChoiceButton = React.forwardRef<HTMLButtonElement, ChoiceButtonProps>(
-  ({ choice, choiceData, isSelected, isDisabled, onClick }, ref) => {
+  ({ letter, choiceData, isSelected, isDisabled, onClick }, ref) => {
     return (
       <button
         ref={ref}
@@ -264,7 +263,7 @@ const ChoiceButton = React.forwardRef<HTMLButtonElement, ChoiceButtonProps>(
                 : 'bg-[var(--surface-2)] text-[var(--text-average)]'
               }
             `}>
-              {choice}
+              {letter}
             </div>
             {isSelected && (
               <div className="text-[var(--color-primary)] text-sm font-medium">
@@ -0,0 +1,173 @@
+import { fireEvent, screen, waitFor } from '@testing-library/dom';
+import { act, render } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import '@testing-library/jest-dom';
+import { getDefaultPack } from '@/lib/default-pack';
+import { DevPanel } from '../DevPanel';
+
+const mockDispatch = vi.fn();
+const mockSwitchPack = vi.fn();
+let mockDevMode = false;
+
+const mockRunState = {
+  seed: 12345,
+  currentStep: 2,
+  path: [1, 2],
+  nextStep: null,
+  state: { R: 6, U: 2, S: 0, C: 3, I: 1 },
+  effective: { R: 5.02, U: 1.87, S: 0, C: 2.69, I: 1 },
+  history: [
+    {
+      meter: 42,
+      raw: 2.5,
+      effective: { R: 5.02, U: 1.87, S: 0, C: 2.69, I: 1 },
+      momentum: 3,
+      randomness: -2,
+      rubberBand: false,
+      unluckApplied: true,
+      luckFactor: 0.55,
+    },
+  ],
+  choices: [{ choice: 'A', delta: { R: 6, U: 2, S: 0, C: 3, I: 1 } }],
+  forceUnluck: false,
+};
+
+vi.mock('@/contexts/RunStateContext', () => ({
+  useRunState: () => ({
+    runState: mockRunState,
+    contentPack: getDefaultPack(),
+    packReady: true,
+    switchPack: mockSwitchPack,
+    dispatch: mockDispatch,
+  }),
+}));
+
+vi.mock('@/lib/pack-manager', () => ({
+  getPackManager: () => ({
+    isDevModeEnabled: () => mockDevMode,
+    getAvailablePacks: () => [
+      {
+        id: getDefaultPack().id,
+        version: getDefaultPack().version,
+        title: 'Default',
+        source: 'default',
+        isActive: true,
+        isLoaded: true,
+      },
+      {
+        id: 'custom-pack',
+        version: '2.0.0',
+        title: 'Custom Pack',
+        source: 'registry',
+        isActive: false,
+        isLoaded: false,
+        tags: ['short'],
+      },
+    ],
+    getLoadHistory: () => [
+      {
+        pack: getDefaultPack(),
+        source: 'fallback',
+        errors: ['Checksum mismatch for custom-pack@1.0.0'],
+        warnings: ['Keeping content pack default'],
+      },
+      {
+        pack: getDefaultPack(),
+        source: 'fallback',
+        errors: [
+          'Failed to load content pack: steps[0].optionA.delta.R (line 11, column 16): Must be at most 15',
+        ],
+        warnings: [],
+        diagnostics: [
+          {
+            path: 'steps[0].optionA.delta.R',
+            message: 'Must be at most 15',
+            expected: '<= 15',
+            received: '20',
+            severity: 'error',
+            line: 11,
+            column: 16,
+          },
+        ],
+      },
+    ],
+    // Also reported by the first load; listed once
+    getRegistryErrors: () => ['Checksum mismatch for custom-pack@1.0.0'],
+  }),
+}));
+
+describe('DevPanel', () => {
+  beforeEach(() => {
+    mockSwitchPack.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    mockDevMode = false;
+    vi.clearAllMocks();
+  });
+
+  it('stays hidden until ?dev or the key combo opens it', () => {
+    render(<DevPanel onPackSwitched={vi.fn()} onJumpToStep={vi.fn()} />);
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+
+    act(() => {
+      fireEvent.keyDown(window, { key: 'D', ctrlKey: true, shiftKey: true });
+    });
+    expect(
+      screen.getByRole('dialog', { name: 'Operator dev panel' }),
+    ).toBeInTheDocument();
+  });
+
+  it('shows packs, load diagnostics, seed, state and meter history in dev mode', () => {
+    mockDevMode = true;
+    render(<DevPanel onPackSwitched={vi.fn()} onJumpToStep={vi.fn()} />);
+
+    expect(
+      screen.getByText('custom-pack@2.0.0 · registry · short'),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText('[error] Checksum mismatch for custom-pack@1.0.0'),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText('[warning] Keeping content pack default'),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText(
+        '[error] steps[0].optionA.delta.R (line 11, column 16): Must be at most 15 (expected <= 15, received 20)',
+      ),
+    ).toBeInTheDocument();
+    expect(screen.getByText('Seed: 12345')).toBeInTheDocument();
+    expect(screen.getByText('5.02')).toBeInTheDocument();
+    expect(screen.getByText('unluck ×0.55')).toBeInTheDocument();
+  });
+
+  it('switches packs, forces unluck and jumps to a step', async () => {
+    mockDevMode = true;
+    const onPackSwitched = vi.fn();
+    const onJumpToStep = vi.fn();
+    render(
+      <DevPanel onPackSwitched={onPackSwitched} onJumpToStep={onJumpToStep} />,
+    );
+
+    fireEvent.click(
+      screen.getByRole('button', { name: 'Switch to custom-pack@2.0.0' }),
+    );
+    await waitFor(() => expect(onPackSwitched).toHaveBeenCalled());
+    expect(mockSwitchPack).toHaveBeenCalledWith('custom-pack@2.0.0');
+
+    fireEvent.click(
+      screen.getByRole('button', { name: 'Force unluck on next choice' }),
+    );
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'FORCE_UNLUCK',
+      enabled: true,
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: '4' }));
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'JUMP_TO_STEP',
+      step: 4,
+    });
+    expect(onJumpToStep).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,44 @@
+import { fireEvent, screen } from '@testing-library/dom';
+import { render } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import '@testing-library/jest-dom';
+import { FairModeToggle } from '../FairModeToggle';
+
+const mockSetFairMode = vi.fn();
+let mockChoices: Array<{ choice: string }> = [];
+
+vi.mock('@/contexts/RunStateContext', () => ({
+  useRunState: () => ({
+    fairMode: false,
+    setFairMode: mockSetFairMode,
+    runState: { seed: 321, choices: mockChoices },
+    previousRun: { seed: 123 },
+  }),
+}));
+
+describe('FairModeToggle', () => {
+  afterEach(() => {
+    mockChoices = [];
+    vi.clearAllMocks();
+  });
+
+  it('toggles fair mode', () => {
+    render(<FairModeToggle />);
+
+    const toggle = screen.getByRole('checkbox', { name: /fair mode/i });
+    expect(toggle).not.toBeChecked();
+    fireEvent.click(toggle);
+    expect(mockSetFairMode).toHaveBeenCalledWith(true);
+  });
+
+  it('names the seed the next run reuses', () => {
+    const { unmount } = render(<FairModeToggle />);
+    expect(screen.getByText(/reuses seed 123/)).toBeInTheDocument();
+    unmount();
+
+    // A run with choices is the one the next run replaces
+    mockChoices = [{ choice: 'A' }];
+    render(<FairModeToggle />);
+    expect(screen.getByText(/reuses seed 321/)).toBeInTheDocument();
+  });
+});
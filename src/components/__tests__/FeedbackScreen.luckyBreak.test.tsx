@@ -0,0 +1,191 @@
+import { fireEvent, screen } from '@testing-library/dom';
+import { act, render } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import '@testing-library/jest-dom';
+import { FeedbackScreen } from '../FeedbackScreen';
+
+const mockOnContinue = vi.fn();
+const mockOnViewFinale = vi.fn();
+
+vi.mock('@/contexts/RunStateContext', () => {
+  return {
+    useRunState: () => ({
+      runState: {
+        state: { R: 3, U: 1, S: 0, C: 0, I: 0 },
+        seed: 12345,
+        lastMeter: 42,
+        stepCount: 1,
+        history: [
+          {
+            meter: 42,
+            raw: 0,
+            effective: { R: 0, U: 0, S: 0, C: 0, I: 0 },
+            momentum: 0,
+            randomness: 0,
+            rubberBand: false,
+            luckyBreakApplied: true,
+            luckyBreakFactor: 1.4,
+            luckyBreakBonus: { dimension: 'I', amount: 2 },
+            decay: { I: -2, C: 1 },
+            breakdown: {
+              requestedDelta: { R: 2, U: 1, S: 0, C: 0, I: 0 },
+              appliedDelta: { R: 3, U: 1, S: 0, C: 0, I: 0 },
+              contributions: { R: 0.9, U: 0.25, S: 0, C: 0, I: 0 },
+              sigmoid: 40,
+              adjustments: [
+                {
+                  source: 'momentum',
+                  label: 'Momentum bonus for a rising meter',
+                  meter: 2,
+                },
+              ],
+            },
+          },
+        ],
+        currentStep: 1,
+        totalSteps: 5,
+        path: [1],
+        nextStep: 2,
+        choices: [
+          { choice: 'A' as const, delta: { R: 2, U: 1, S: 0, C: 0, I: 0 } },
+        ],
+        effective: { R: 0, U: 0, S: 0, C: 0, I: 0 },
+      },
+      dispatch: vi.fn(),
+      contentPack: {},
+      meterConfig: {
+        specialEvents: [],
+        luckyBreak: { messages: ['A famous founder retweeted you'] },
+      },
+    }),
+    useCurrentStep: () => ({
+      currentStep: 1,
+      totalSteps: 5,
+      stepNumber: 1,
+      stepData: {
+        id: 1,
+        title: 'Step 1',
+        scenario: 'Test',
+        options: [
+          {
+            id: 'A',
+            label: 'Option A',
+            body: 'Body A',
+            delta: { R: 2, U: 1, S: 0, C: 0, I: 0 },
+          },
+          {
+            id: 'B',
+            label: 'Option B',
+            body: 'Body B',
+            delta: { R: 0, U: 0, S: 1, C: 1, I: 0 },
+          },
+        ],
+      },
+    }),
+  };
+});
+
+describe('FeedbackScreen lucky break popup', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.runOnlyPendingTimers();
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('shows the pack message, boost and bonus', () => {
+    render(
+      <FeedbackScreen
+        onContinue={mockOnContinue}
+        onViewFinale={mockOnViewFinale}
+      />,
+    );
+
+    expect(screen.getByText('Lucky break — gains boosted')).toBeInTheDocument();
+    expect(
+      screen.getByText(/A famous founder retweeted you/),
+    ).toBeInTheDocument();
+    expect(screen.getByText(/boosted to 140%/)).toBeInTheDocument();
+    expect(screen.getByText(/Investor \+2 bonus/)).toBeInTheDocument();
+    expect(
+      screen.queryByText('Unluck event — gains reduced'),
+    ).not.toBeInTheDocument();
+  });
+
+  it('dismisses on Close and after 5 seconds', () => {
+    const { unmount } = render(
+      <FeedbackScreen
+        onContinue={mockOnContinue}
+        onViewFinale={mockOnViewFinale}
+      />,
+    );
+    fireEvent.click(
+      screen.getByRole('button', { name: /dismiss lucky break message/i }),
+    );
+    expect(
+      screen.queryByText('Lucky break — gains boosted'),
+    ).not.toBeInTheDocument();
+    unmount();
+
+    render(
+      <FeedbackScreen
+        onContinue={mockOnContinue}
+        onViewFinale={mockOnViewFinale}
+      />,
+    );
+    act(() => {
+      vi.advanceTimersByTime(5000);
+    });
+    expect(
+      screen.queryByText('Lucky break — gains boosted'),
+    ).not.toBeInTheDocument();
+  });
+});
+
+describe('FeedbackScreen decay', () => {
+  it('explains decay and drift since the previous step', () => {
+    render(
+      <FeedbackScreen
+        onContinue={mockOnContinue}
+        onViewFinale={mockOnViewFinale}
+      />,
+    );
+
+    const messages = screen.getByTestId('decay-messages');
+    expect(messages).toHaveTextContent('Customer Love picked up by 1');
+    expect(messages).toHaveTextContent('Investor Confidence cooled off by 2');
+  });
+});
+
+describe('FeedbackScreen keyboard', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lets Enter on the breakdown toggle expand it instead of continuing', async () => {
+    const user = userEvent.setup();
+    render(
+      <FeedbackScreen
+        onContinue={mockOnContinue}
+        onViewFinale={mockOnViewFinale}
+      />,
+    );
+
+    const toggle = screen.getByRole('button', {
+      name: /why did my score change/i,
+    });
+    toggle.focus();
+    await user.keyboard('{Enter}');
+
+    expect(toggle).toHaveAttribute('aria-expanded', 'true');
+    expect(mockOnContinue).not.toHaveBeenCalled();
+
+    // Enter elsewhere on the page still continues
+    (document.activeElement as HTMLElement).blur();
+    await user.keyboard('{Enter}');
+    expect(mockOnContinue).toHaveBeenCalledTimes(1);
+  });
+});
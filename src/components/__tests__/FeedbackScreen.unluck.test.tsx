@@ -39,6 +39,9 @@ vi.mock('@/contexts/RunStateContext', () => {
           },
         ],
         currentStep: 1,
+        totalSteps: 5,
+        path: [1],
+        nextStep: 2,
         choices: [
           { choice: 'A' as const, delta: { R: 1, U: 1, S: 0, C: 0, I: 0 } },
         ],
@@ -46,6 +49,7 @@ vi.mock('@/contexts/RunStateContext', () => {
       },
       dispatch: mockDispatch,
       contentPack: {},
+      meterConfig: { specialEvents: [], luckyBreak: { messages: [] } },
       saveToStorage: vi.fn(),
       loadFromStorage: vi.fn(),
       resetRun: vi.fn(),
@@ -56,22 +60,28 @@ vi.mock('@/contexts/RunStateContext', () => {
     }),
     useCurrentStep: () => ({
       currentStep: 1,
+      totalSteps: 5,
+      stepNumber: 1,
       stepData: {
         id: 1,
         title: 'Step 1',
         scenario: 'Test',
-        optionA: {
-          label: 'Option A',
-          body: 'Body A',
-          delta: { R: 1, U: 1, S: 0, C: 0, I: 0 },
-          unluckMessages: ['Test unluck message'],
-        },
-        optionB: {
-          label: 'Option B',
-          body: 'Body B',
-          delta: { R: 0, U: 0, S: 1, C: 1, I: 0 },
-          unluckMessages: ['B message'],
-        },
+        options: [
+          {
+            id: 'A',
+            label: 'Option A',
+            body: 'Body A',
+            delta: { R: 1, U: 1, S: 0, C: 0, I: 0 },
+            unluckMessages: ['Test unluck message'],
+          },
+          {
+            id: 'B',
+            label: 'Option B',
+            body: 'Body B',
+            delta: { R: 0, U: 0, S: 1, C: 1, I: 0 },
+            unluckMessages: ['B message'],
+          },
+        ],
       },
     }),
   };
@@ -0,0 +1,95 @@
+import { screen } from '@testing-library/dom';
+import { act, render } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import '@testing-library/jest-dom';
+import { getDefaultPack } from '@/lib/default-pack';
+import { JunieConsole } from '../JunieConsole';
+
+vi.mock('@/contexts/RunStateContext', async () => {
+  const { getDefaultPack } = await import('@/lib/default-pack');
+  return {
+    useRunState: () => ({
+      runState: {
+        state: { R: 10, U: 4, S: 0, C: 0, I: 0 },
+        seed: 12345,
+        lastMeter: 40,
+        stepCount: 1,
+        history: [
+          {
+            meter: 40,
+            raw: 0,
+            effective: { R: 0, U: 0, S: 0, C: 0, I: 0 },
+            momentum: 0,
+            randomness: 0,
+            rubberBand: false,
+          },
+        ],
+        currentStep: 1,
+        totalSteps: 5,
+        path: [1],
+        nextStep: 2,
+        choices: [
+          { choice: 'A' as const, delta: { R: 10, U: 4, S: 0, C: 0, I: -2 } },
+        ],
+        effective: { R: 0, U: 0, S: 0, C: 0, I: 0 },
+      },
+      contentPack: getDefaultPack(),
+      dispatch: vi.fn(),
+    }),
+  };
+});
+
+describe('JunieConsole', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shows boot lines while idle', () => {
+    render(<JunieConsole />);
+    expect(screen.getByText(/Ready for founder decisions/)).toBeInTheDocument();
+    expect(screen.getByText('Console idle')).toBeInTheDocument();
+  });
+
+  it('plays the pack-authored script for the chosen option and hands off when complete', () => {
+    const onStreamComplete = vi.fn();
+    render(<JunieConsole streaming onStreamComplete={onStreamComplete} />);
+
+    expect(screen.getByText('Junie is working...')).toBeInTheDocument();
+
+    act(() => {
+      vi.advanceTimersByTime(10000);
+    });
+
+    expect(getDefaultPack().steps[0].options[0].console).toBeDefined();
+    expect(screen.getByText('> npm install stripe')).toBeInTheDocument();
+    expect(screen.getByTestId('console-diff')).toHaveTextContent(
+      'src/billing/plans.ts',
+    );
+    expect(screen.getByTestId('console-preview')).toHaveTextContent(
+      'Pricing tiers',
+    );
+    expect(onStreamComplete).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('Console idle')).toBeInTheDocument();
+  });
+
+  it('hands off on timeout', () => {
+    const onStreamComplete = vi.fn();
+    render(
+      <JunieConsole
+        streaming
+        onStreamComplete={onStreamComplete}
+        timeoutMs={300}
+      />,
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(onStreamComplete).toHaveBeenCalledTimes(1);
+    expect(screen.getByText(/Stream timed out/)).toBeInTheDocument();
+  });
+});
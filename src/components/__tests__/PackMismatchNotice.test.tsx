@@ -0,0 +1,75 @@
+import { fireEvent, screen } from '@testing-library/dom';
+import { render } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import '@testing-library/jest-dom';
+import type { PackMismatch } from '@/contexts/RunStateContext';
+import { PackMismatchNotice } from '../PackMismatchNotice';
+
+const mockResolve = vi.fn();
+let mockMismatch: PackMismatch | null = null;
+
+vi.mock('@/contexts/RunStateContext', () => ({
+  useRunState: () => ({
+    packMismatch: mockMismatch,
+    resolvePackMismatch: mockResolve,
+  }),
+}));
+
+describe('PackMismatchNotice', () => {
+  afterEach(() => {
+    mockMismatch = null;
+    vi.clearAllMocks();
+  });
+
+  it('renders nothing when the saved run matches the loaded pack', () => {
+    const { container } = render(<PackMismatchNotice />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('names both packs and offers reload, migrate and fresh start', () => {
+    mockMismatch = {
+      saved: { id: 'custom-pack', version: '1.0.0', hash: 'aaaaaaaa' },
+      current: { id: 'custom-pack', version: '1.0.0', hash: 'bbbbbbbb' },
+      canReload: true,
+    };
+    render(<PackMismatchNotice />);
+
+    expect(screen.getByRole('alertdialog')).toHaveTextContent(
+      'its content has changed',
+    );
+
+    fireEvent.click(
+      screen.getByRole('button', { name: 'Reload original pack' }),
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Migrate run' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Start fresh' }));
+    expect(mockResolve.mock.calls).toEqual([
+      ['reload'],
+      ['migrate'],
+      ['fresh'],
+    ]);
+  });
+
+  it('does not offer to reload a pack that can no longer be loaded', () => {
+    mockMismatch = {
+      saved: { id: 'ai-cofounder-default', version: '0.9.0', hash: 'aaaaaaaa' },
+      current: {
+        id: 'ai-cofounder-default',
+        version: '1.0.0',
+        hash: 'bbbbbbbb',
+      },
+      canReload: false,
+    };
+    render(<PackMismatchNotice />);
+
+    expect(
+      screen.queryByRole('button', { name: 'Reload original pack' }),
+    ).not.toBeInTheDocument();
+    expect(
+      screen.getByRole('button', { name: 'Start fresh' }),
+    ).toBeInTheDocument();
+    expect(screen.getByRole('alertdialog')).toHaveTextContent(
+      'ai-cofounder-default v0.9.0 is no longer available',
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { fireEvent, screen } from '@testing-library/dom';
+import { render } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import '@testing-library/jest-dom';
+import { PackWarningBanner } from '../PackWarningBanner';
+
+const mockDismiss = vi.fn();
+let mockWarning: { message: string; errors: string[] } | null = null;
+
+vi.mock('@/contexts/RunStateContext', () => ({
+  useRunState: () => ({
+    packWarning: mockWarning,
+    dismissPackWarning: mockDismiss,
+  }),
+}));
+
+describe('PackWarningBanner', () => {
+  afterEach(() => {
+    mockWarning = null;
+    vi.clearAllMocks();
+  });
+
+  it('renders nothing when the requested pack loaded', () => {
+    const { container } = render(<PackWarningBanner />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('shows the fallback warning with expandable errors', () => {
+    mockWarning = {
+      message:
+        'Requested content pack could not be loaded — using "Default" instead',
+      errors: ['Failed to load content pack: HTTP 404: Not Found'],
+    };
+    render(<PackWarningBanner />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('could not be loaded');
+    expect(screen.queryByText(/HTTP 404/)).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show details' }));
+    expect(screen.getByText(/HTTP 404/)).toBeInTheDocument();
+
+    fireEvent.click(
+      screen.getByRole('button', { name: /dismiss pack warning/i }),
+    );
+    expect(mockDismiss).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,69 @@
+import { fireEvent, screen } from '@testing-library/dom';
+import { render } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import '@testing-library/jest-dom';
+import { getDefaultPack } from '@/lib/default-pack';
+import { PresenterControls } from '../PresenterControls';
+
+const mockDispatch = vi.fn();
+const mockOnRewind = vi.fn();
+const mockMeterConfig = { formula: 'weighted-sum' };
+let mockPresenterMode = false;
+
+const mockPack = getDefaultPack();
+
+vi.mock('@/contexts/RunStateContext', () => ({
+  useRunState: () => ({
+    runState: {
+      path: [1, 2, 3],
+      choices: [
+        { choice: 'A', delta: { R: 1, U: 0, S: 0, C: 0, I: 0 } },
+        { choice: 'B', delta: { R: 0, U: 1, S: 0, C: 0, I: 0 } },
+      ],
+    },
+    contentPack: mockPack,
+    meterConfig: mockMeterConfig,
+    dispatch: mockDispatch,
+  }),
+}));
+
+vi.mock('@/lib/pack-manager', () => ({
+  getPackManager: () => ({ isPresenterModeEnabled: () => mockPresenterMode }),
+}));
+
+describe('PresenterControls', () => {
+  afterEach(() => {
+    mockPresenterMode = false;
+    vi.clearAllMocks();
+  });
+
+  it('stays hidden in normal kiosk mode', () => {
+    const { container } = render(<PresenterControls onRewind={mockOnRewind} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('undoes the last choice and rewinds to earlier steps with ?presenter', () => {
+    mockPresenterMode = true;
+    render(<PresenterControls onRewind={mockOnRewind} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /undo last choice/i }));
+    fireEvent.click(screen.getByRole('button', { name: /rewind to step 2/i }));
+
+    expect(mockDispatch.mock.calls).toEqual([
+      [{ type: 'UNDO_CHOICE', pack: mockPack, config: mockMeterConfig }],
+      [
+        {
+          type: 'REWIND_TO_STEP',
+          step: 2,
+          pack: mockPack,
+          config: mockMeterConfig,
+        },
+      ],
+    ]);
+    expect(mockOnRewind).toHaveBeenCalledTimes(2);
+    // Step 3 has no choice yet, so there is nothing to rewind there
+    expect(
+      screen.queryByRole('button', { name: /rewind to step 3/i }),
+    ).not.toBeInTheDocument();
+  });
+});
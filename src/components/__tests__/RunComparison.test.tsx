@@ -0,0 +1,52 @@
+import { screen } from '@testing-library/dom';
+import { render } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import '@testing-library/jest-dom';
+import { replayChoices } from '@/contexts/RunStateContext';
+import { getDefaultPack } from '@/lib/default-pack';
+import { RunComparison } from '../RunComparison';
+
+const pack = getDefaultPack();
+const finalFrame = (seed: number, choices: string[]) => {
+  const frames = replayChoices(pack, seed, choices);
+  return frames[frames.length - 1];
+};
+
+describe('RunComparison', () => {
+  it('lists both runs step by step with their final meters', () => {
+    const previous = finalFrame(11, ['A', 'A', 'A']);
+    const current = finalFrame(11, ['B', 'B']);
+    render(
+      <RunComparison
+        previous={previous}
+        current={current}
+        contentPack={pack}
+      />,
+    );
+
+    expect(screen.getByText(/both runs used seed 11/)).toBeInTheDocument();
+
+    const rows = screen.getAllByTestId('comparison-row');
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toHaveTextContent(
+      `Step 1 · A ${previous.history[0].meter}`,
+    );
+    expect(rows[0]).toHaveTextContent(`Step 1 · B ${current.history[0].meter}`);
+    expect(rows[2]).toHaveTextContent('—');
+    expect(screen.getByRole('row', { name: /Final/ })).toHaveTextContent(
+      `${previous.lastMeter}`,
+    );
+  });
+
+  it('says when luck differed between the runs', () => {
+    render(
+      <RunComparison
+        previous={finalFrame(11, ['A'])}
+        current={finalFrame(12, ['A'])}
+        contentPack={pack}
+      />,
+    );
+
+    expect(screen.getByText(/different seeds/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,89 @@
+import { fireEvent, screen } from '@testing-library/dom';
+import { render } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import '@testing-library/jest-dom';
+import { type RunReplay, replayChoices } from '@/contexts/RunStateContext';
+import { getDefaultPack } from '@/lib/default-pack';
+import { RunReplayViewer } from '../RunReplayViewer';
+
+const mockPlayFromReplay = vi.fn();
+const mockEndReplay = vi.fn();
+const mockOnPlay = vi.fn();
+let mockReplay: RunReplay | null = null;
+
+vi.mock('@/contexts/RunStateContext', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/contexts/RunStateContext')>()),
+  useRunState: () => ({
+    replay: mockReplay,
+    contentPack: getDefaultPack(),
+    playFromReplay: mockPlayFromReplay,
+    endReplay: mockEndReplay,
+  }),
+}));
+
+const openReplay = (choices: string[]) => {
+  const pack = getDefaultPack();
+  mockReplay = {
+    code: 'code',
+    run: { pack: { id: pack.id, version: pack.version }, seed: 7, choices },
+    frames: replayChoices(pack, 7, choices),
+  };
+};
+
+describe('RunReplayViewer', () => {
+  afterEach(() => {
+    mockReplay = null;
+    vi.clearAllMocks();
+  });
+
+  it('renders nothing without a replay', () => {
+    const { container } = render(<RunReplayViewer onPlay={mockOnPlay} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('steps through the recorded choices', () => {
+    openReplay(['A', 'B', 'A']);
+    const [step1, step2] = getDefaultPack().steps;
+    render(<RunReplayViewer onPlay={mockOnPlay} />);
+
+    expect(screen.getByText('Choice 1 of 3')).toBeInTheDocument();
+    expect(screen.getByText(`Step 1: ${step1.title}`)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: '← Previous' })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next →' }));
+    expect(screen.getByText('Choice 2 of 3')).toBeInTheDocument();
+    expect(screen.getByText(`Step 2: ${step2.title}`)).toBeInTheDocument();
+    expect(
+      screen.getByText(`Option B: ${step2.options[1].label}`),
+    ).toBeInTheDocument();
+  });
+
+  it('hands the run over before the shown choice or from step 1', () => {
+    openReplay(['A', 'B', 'A']);
+    render(<RunReplayViewer onPlay={mockOnPlay} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next →' }));
+    fireEvent.click(
+      screen.getByRole('button', { name: 'Choose differently here' }),
+    );
+    fireEvent.click(
+      screen.getByRole('button', { name: 'Play this seed from step 1' }),
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Close replay' }));
+
+    expect(mockPlayFromReplay.mock.calls).toEqual([[1], [0]]);
+    expect(mockOnPlay).toHaveBeenCalledTimes(2);
+    expect(mockEndReplay).toHaveBeenCalledTimes(1);
+  });
+
+  it('notes choices the pack no longer has', () => {
+    openReplay(['A', 'Z']);
+    render(<RunReplayViewer onPlay={mockOnPlay} />);
+
+    expect(
+      screen.getByText(
+        'Only the first 1 choices match steps and options in this pack.',
+      ),
+    ).toBeInTheDocument();
+  });
+});
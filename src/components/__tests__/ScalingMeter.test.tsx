@@ -5,11 +5,12 @@ import userEvent from '@testing-library/user-event';
 import '@testing-library/jest-dom';
 import { ScalingMeter } from '../ScalingMeter';
 import { RunStateProvider } from '@/contexts/RunStateContext';
-import { RunState, MeterResult, EffectiveState } from '@/lib/scaling-meter';
+import { RunState, MeterResult, EffectiveState, DEFAULT_CONFIG } from '@/lib/scaling-meter';
 
 // Mock the RunStateContext
 const mockRunState: RunState & {
   currentStep: number;
+  totalSteps: number;
   choices: Array<{ choice: 'A' | 'B'; delta: any }>;
   effective: EffectiveState;
 } = {
@@ -36,6 +37,7 @@ const mockRunState: RunState & {
     } as MeterResult,
   ],
   currentStep: 2,
+  totalSteps: 5,
   choices: [
     { choice: 'A' as const, delta: { R: 5, U: 3, S: -1, C: 2, I: 0 } },
     { choice: 'B' as const, delta: { R: 2, U: 4, S: 1, C: 3, I: -1 } },
@@ -46,6 +48,7 @@ const mockRunState: RunState & {
 const mockUseRunState = vi.fn(() => ({
   runState: mockRunState,
   contentPack: {},
+  meterConfig: DEFAULT_CONFIG,
   dispatch: vi.fn(),
   saveToStorage: vi.fn(),
   loadFromStorage: vi.fn(),
@@ -153,6 +156,7 @@ describe('ScalingMeter', () => {
     mockUseRunState.mockReturnValueOnce({
       runState: emptyRunState,
       contentPack: {},
+      meterConfig: DEFAULT_CONFIG,
       dispatch: vi.fn(),
       saveToStorage: vi.fn(),
       loadFromStorage: vi.fn(),
@@ -183,6 +187,7 @@ describe('ScalingMeter', () => {
     mockUseRunState.mockReturnValueOnce({
       runState: scalingUpRunState,
       contentPack: {},
+      meterConfig: DEFAULT_CONFIG,
       dispatch: vi.fn(),
       saveToStorage: vi.fn(),
       loadFromStorage: vi.fn(),
@@ -208,6 +213,7 @@ describe('ScalingMeter', () => {
     mockUseRunState.mockReturnValueOnce({
       runState: decreasingRunState,
       contentPack: {},
+      meterConfig: DEFAULT_CONFIG,
       dispatch: vi.fn(),
       saveToStorage: vi.fn(),
       loadFromStorage: vi.fn(),
@@ -244,6 +250,7 @@ it('shows red-spark animation and reduced delta bar when Unluck is applied', ()
   mockUseRunState.mockReturnValueOnce({
     runState: unluckRunState,
     contentPack: {},
+    meterConfig: DEFAULT_CONFIG,
     dispatch: vi.fn(),
     saveToStorage: vi.fn(),
     loadFromStorage: vi.fn(),
@@ -272,6 +279,7 @@ it('allows toggling the Unluck overlay visibility', async () => {
   mockUseRunState.mockReturnValue({
     runState: unluckRunState,
     contentPack: {},
+    meterConfig: DEFAULT_CONFIG,
     dispatch: vi.fn(),
     saveToStorage: vi.fn(),
     loadFromStorage: vi.fn(),
@@ -292,4 +300,32 @@ it('allows toggling the Unluck overlay visibility', async () => {
   // Show overlay again
   await user.click(screen.getByTestId('unluck-toggle'));
   await waitFor(() => expect(screen.getByTestId('unluck-overlay')).toBeInTheDocument());
-});
\ No newline at end of file
+});
+it('lists the interaction rules that fired on the last step as insights', () => {
+  const rule = {
+    id: 'growth-outpaces-reliability',
+    insight: 'User growth is outpacing system reliability',
+    when: { gap: { of: ['U', 'S'] as ['U', 'S'], min: 5 } },
+    effect: { R: 0, U: 0, S: 0, C: -2, I: 0 },
+  };
+
+  mockUseRunState.mockReturnValueOnce({
+    runState: {
+      ...mockRunState,
+      history: [
+        mockRunState.history[0],
+        { ...mockRunState.history[1], interactions: [rule.id] } as MeterResult,
+      ],
+    },
+    contentPack: {},
+    meterConfig: { ...DEFAULT_CONFIG, interactions: [rule] },
+    dispatch: vi.fn(),
+    saveToStorage: vi.fn(),
+    loadFromStorage: vi.fn(),
+    resetRun: vi.fn(),
+  });
+
+  render(<ScalingMeter />);
+
+  expect(screen.getByTestId('interaction-insight')).toHaveTextContent('Interaction:User growth is outpacing system reliability');
+});
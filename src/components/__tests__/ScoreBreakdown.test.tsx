@@ -0,0 +1,85 @@
+import { fireEvent, screen } from '@testing-library/dom';
+import { render } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import '@testing-library/jest-dom';
+import type { MeterResult } from '@/lib/scaling-meter';
+import { ScoreBreakdown } from '../ScoreBreakdown';
+
+const result: MeterResult = {
+  meter: 47,
+  raw: 4.5,
+  effective: { R: 6, U: 3, S: 0, C: 2, I: 0 },
+  momentum: 3,
+  randomness: 0,
+  rubberBand: false,
+  unluckApplied: true,
+  luckFactor: 0.5,
+  breakdown: {
+    requestedDelta: { R: 6, U: 0, S: -2, C: 4, I: 0 },
+    appliedDelta: { R: 3, U: 0, S: -2, C: 2, I: 0 },
+    contributions: { R: 1.8, U: 0.75, S: 0, C: 0.4, I: 0 },
+    sigmoid: 44,
+    adjustments: [
+      {
+        source: 'unluck',
+        label: 'Unluck cut gains to 50%',
+        state: { R: -3, C: -2 },
+      },
+      {
+        source: 'momentum',
+        label: 'Momentum bonus for a rising meter',
+        meter: 3,
+      },
+    ],
+  },
+};
+
+describe('ScoreBreakdown', () => {
+  it('stays collapsed until asked why the score changed', () => {
+    render(<ScoreBreakdown result={result} previousMeter={40} />);
+
+    const toggle = screen.getByRole('button', {
+      name: /why did my score change/i,
+    });
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    expect(toggle).toHaveTextContent('40 → 47');
+    expect(screen.queryByText('Final meter: 47')).not.toBeInTheDocument();
+
+    fireEvent.click(toggle);
+    expect(toggle).toHaveAttribute('aria-expanded', 'true');
+    expect(screen.getByText('Final meter: 47')).toBeInTheDocument();
+  });
+
+  it('lists deltas, contributions and each adjustment', () => {
+    render(<ScoreBreakdown result={result} previousMeter={40} />);
+    fireEvent.click(
+      screen.getByRole('button', { name: /why did my score change/i }),
+    );
+
+    expect(screen.getByRole('row', { name: /Requested/ })).toHaveTextContent(
+      '+60-2+40',
+    );
+    expect(screen.getByRole('row', { name: /Applied/ })).toHaveTextContent(
+      '+30-2+20',
+    );
+    expect(screen.getByText('Raw score').nextSibling).toHaveTextContent('4.5');
+
+    const adjustments = screen.getAllByTestId('score-adjustment');
+    expect(adjustments[0]).toHaveTextContent(
+      'Unluck cut gains to 50%Revenue -3, Customer -2',
+    );
+    expect(adjustments[1]).toHaveTextContent(
+      'Momentum bonus for a rising meter+3 meter',
+    );
+  });
+
+  it('renders nothing for results without a breakdown', () => {
+    const { container } = render(
+      <ScoreBreakdown
+        result={{ ...result, breakdown: undefined }}
+        previousMeter={40}
+      />,
+    );
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -1,29 +1,97 @@
 'use client';
 
 import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
-import { RunState, initializeRunState, stepUpdate, DEFAULT_CONFIG } from '@/lib/scaling-meter';
-import { Delta, ContentPack } from '@/lib/content-pack';
+import { resolveMeterConfig, type MeterConfig, type MeterResult } from '@/lib/scaling-meter';
+import { ChoiceId, ContentPack, computePackHash } from '@/lib/content-pack';
 import { getDefaultPack } from '@/lib/default-pack';
+import { getPackManager, getPackReloadHref, initializePackManager } from '@/lib/pack-manager';
+import { REPLAY_PARAM, decodeRunCode, type RunCode } from '@/lib/run-code';
+import {
+  advanceStep,
+  applyRunEvent,
+  eventsBeforeChoice,
+  foldRunEvents,
+  startRun,
+  type RunEvent,
+  type RunView,
+} from '@/lib/run-engine';
+import { parseSavedRun, toSavedRun, type PackRef, type SavedRun } from '@/lib/saved-run';
 
-// Extended game state that includes UI-specific properties
-interface GameState extends RunState {
-  currentStep: number;
-  choices: Array<{ choice: 'A' | 'B'; delta: Delta }>;
-  effective: { R: number; U: number; S: number; C: number; I: number };
-}
+// Run derived from its event log, plus operator state that is not part of the log
+type GameState = RunView & {
+  forceUnluck?: boolean; // Operator override: the next choice always rolls unluck
+};
 
-// Actions for the GameState reducer
+// Actions for the GameState reducer; each one appends to or rewinds the run's event log.
+// Actions that fold the log take the pack it is played on (`config` defaults to its meterConfig).
 type GameStateAction = 
-  | { type: 'INITIALIZE'; seed?: number }
-  | { type: 'APPLY_CHOICE'; choice: 'A' | 'B'; delta: Delta }
+  | { type: 'INITIALIZE'; seed?: number; pack: ContentPack }
+  | { type: 'APPLY_CHOICE'; choice: ChoiceId; pack: ContentPack; config?: MeterConfig }
   | { type: 'ADVANCE_STEP' }
-  | { type: 'RESET' }
+  | { type: 'RESET'; pack: ContentPack }
+  | { type: 'FORCE_UNLUCK'; enabled: boolean }
+  | { type: 'JUMP_TO_STEP'; step: number }
+  | { type: 'UNDO_CHOICE'; pack: ContentPack; config?: MeterConfig }
+  | { type: 'REWIND_TO_STEP'; step: number; pack: ContentPack; config?: MeterConfig } // step: position in the run (1 = first step)
   | { type: 'LOAD_FROM_STORAGE'; gameState: GameState };
 
+// Operator warning shown when the requested pack could not be loaded
+export interface PackWarning {
+  message: string;
+  errors: string[];
+}
+
+// Identifies the exact pack a run was played on (saved with the run)
+export type { PackRef };
+
+// Saved run that was played on a different pack than the active one
+export interface PackMismatch {
+  saved: PackRef;
+  current: PackRef;
+  canReload: boolean; // False when the saved pack can no longer be loaded (e.g. an older built-in default pack)
+}
+
+// How to continue when a saved run's pack differs from the active pack
+export type PackMismatchResolution = 'reload' | 'migrate' | 'fresh';
+
+// Run rebuilt from a ?replay= run code
+export interface RunReplay {
+  code: string;
+  run: RunCode;
+  frames: GameState[]; // frames[i] is the run after its i-th choice; frames[0] is the fresh run
+}
+
+// Run replaced by a new one, kept to compare against under fair mode
+export interface PreviousRun {
+  seed: number;
+  pack: PackRef;
+  path: number[];
+  choices: GameState['choices'];
+  history: MeterResult[];
+}
+
 // Context interface
 interface RunStateContextType {
   runState: GameState;
   contentPack: ContentPack;
+  meterConfig: MeterConfig; // DEFAULT_CONFIG with the active pack's meterConfig merged in
+  packReady: boolean; // False until the PackManager has resolved the active pack
+  packWarning: PackWarning | null;
+  dismissPackWarning: () => void;
+  // Operator pack switch ("id" or "id@version"); starts a fresh run on the new pack
+  switchPack: (packId: string) => Promise<void>;
+  // Saved run pinned to another pack, held until resolved
+  packMismatch: PackMismatch | null;
+  resolvePackMismatch: (resolution: PackMismatchResolution) => void;
+  // Run opened from ?replay=, held until the player plays it or closes the replay
+  replay: RunReplay | null;
+  // Continue the replayed run from before its choice at `index` (0 = the same seed from step 1)
+  playFromReplay: (index: number) => void;
+  endReplay: () => void;
+  // Fair mode: new runs reuse the previous run's seed, so paths can be compared under identical luck
+  fairMode: boolean;
+  setFairMode: (enabled: boolean) => void;
+  previousRun: PreviousRun | null; // Only when it was played on the active pack (same id, version and hash)
   dispatch: React.Dispatch<GameStateAction>;
   saveToStorage: () => void;
   loadFromStorage: () => void;
@@ -42,47 +110,132 @@ const STORAGE_KEYS = {
   RUN_STATE: 'tcgame_run_state',
   CONSENT: 'tcgame_consent',
   PACK_INFO: 'tcgame_pack_info',
-  SESSION_TOKEN: 'tcgame_session_token'
+  SESSION_TOKEN: 'tcgame_session_token',
+  FAIR_MODE: 'tcgame_fair_mode',
+  PREVIOUS_RUN: 'tcgame_previous_run'
 };
 
-// Initialize GameState with UI-specific properties
-function initializeGameState(seed?: number): GameState {
-  const baseRunState = initializeRunState(seed);
+// Reference to a pack, including where it was loaded from
+function createPackRef(pack: ContentPack): PackRef {
+  const url = getPackManager().getPackUrl(pack.id);
   return {
-    ...baseRunState,
-    currentStep: 1,
-    choices: [],
-    effective: { R: 0, U: 0, S: 0, C: 0, I: 0 }
+    id: pack.id,
+    version: pack.version,
+    hash: computePackHash(pack),
+    ...(url ? { url } : {})
   };
 }
 
+function isValidPreviousRun(parsedData: unknown): parsedData is PreviousRun {
+  const run = parsedData as Partial<PreviousRun> | null;
+  return Boolean(
+    run &&
+    typeof run === 'object' &&
+    typeof run.seed === 'number' &&
+    typeof run.pack?.id === 'string' &&
+    Array.isArray(run.path) &&
+    Array.isArray(run.choices) &&
+    Array.isArray(run.history) &&
+    run.history.every(entry => typeof entry?.meter === 'number')
+  );
+}
+
+function isSamePack(a: PackRef, b: PackRef): boolean {
+  return a.id === b.id && a.version === b.version && a.hash === b.hash;
+}
+
+/**
+ * The previous run when it was played on `pack`; a run on another pack (or another version or content
+ * of it) can neither be compared against nor replayed with the same seed
+ */
+export function getComparablePreviousRun(previousRun: PreviousRun | null, pack: PackRef): PreviousRun | null {
+  return previousRun && isSamePack(previousRun.pack, pack) ? previousRun : null;
+}
+
+/**
+ * Rebuild a run from its seed and option ids on a pack: the fresh run, then the run after each choice.
+ * Stops at the first step or option id the pack does not have.
+ */
+export function replayChoices(pack: ContentPack, seed: number, choices: ChoiceId[]): GameState[] {
+  const config = resolveMeterConfig(pack.meterConfig);
+  let run = startRun(pack, seed);
+  const frames = [run];
+
+  for (const [index, option] of choices.entries()) {
+    const advanced = index > 0 ? advanceStep(run, { type: 'StepAdvanced' }) : run;
+    const chosen = applyRunEvent(advanced, { type: 'ChoiceMade', step: advanced.currentStep, option }, pack, config);
+    if (chosen === advanced) break;
+    run = chosen;
+    frames.push(run);
+  }
+
+  return frames;
+}
+
+/**
+ * Rebuild a saved run on a pack by folding its event log (same seed, the pack's deltas and meterConfig).
+ * Stops at the first step or option id the pack does not have.
+ */
+export function migrateRunToPack(saved: { events: RunEvent[] }, pack: ContentPack): GameState {
+  const [started, ...rest] = saved.events;
+  // The run continues on this pack from here on
+  const retargeted = started?.type === 'RunStarted' ? { ...started, pack: { id: pack.id, version: pack.version } } : started;
+  return foldRunEvents([retargeted, ...rest], pack);
+}
+
+// Fold the log back to before its choice at `index`, keeping a pending forced unluck
+function rewindGameState(state: GameState, index: number, pack: ContentPack, config?: MeterConfig): GameState {
+  const rewound = foldRunEvents(eventsBeforeChoice(state.events, index), pack, config);
+  return state.forceUnluck ? { ...rewound, forceUnluck: true } : rewound;
+}
+
 // GameState reducer
-function gameStateReducer(state: GameState, action: GameStateAction): GameState {
+export function gameStateReducer(state: GameState, action: GameStateAction): GameState {
   switch (action.type) {
     case 'INITIALIZE':
-      return initializeGameState(action.seed);
+      return startRun(action.pack, action.seed);
     
-    case 'APPLY_CHOICE': {
-      // Use the scaling meter engine to update the core RunState
-      const { newRunState, result } = stepUpdate(state, action.delta, action.choice, DEFAULT_CONFIG);
-      
-      // Return extended GameState with UI properties
-      return {
-        ...newRunState,
-        currentStep: state.currentStep,
-        choices: [...state.choices, { choice: action.choice, delta: action.delta }],
-        effective: result.effective
-      };
-    }
+    case 'APPLY_CHOICE':
+      // The choice is made on the current step; a forced unluck is recorded with it and then cleared
+      return applyRunEvent(
+        state,
+        {
+          type: 'ChoiceMade',
+          step: state.currentStep,
+          option: action.choice,
+          ...(state.forceUnluck ? { forceUnluck: true } : {})
+        },
+        action.pack,
+        action.config
+      );
     
     case 'ADVANCE_STEP':
-      return {
-        ...state,
-        currentStep: Math.min(state.currentStep + 1, 5)
-      };
+      // Follow the resolved branch; stay put before a choice is made or when the run has ended
+      return advanceStep(state, { type: 'StepAdvanced' });
     
     case 'RESET':
-      return initializeGameState();
+      return startRun(action.pack);
+
+    case 'FORCE_UNLUCK':
+      return { ...state, forceUnluck: action.enabled };
+
+    case 'JUMP_TO_STEP':
+      // Operator jump: replace the current step if it has no choice yet, otherwise visit the step next
+      return advanceStep(state, { type: 'StepAdvanced', step: action.step });
+    
+    case 'UNDO_CHOICE':
+      // Presenter control: back to the step of the last choice, as if it had not been made
+      if (state.choices.length === 0) {
+        return state;
+      }
+      return rewindGameState(state, state.choices.length - 1, action.pack, action.config);
+
+    case 'REWIND_TO_STEP':
+      // Presenter control: back to an earlier step of the run, dropping its choice and every later one
+      if (action.step < 1 || action.step > state.choices.length) {
+        return state;
+      }
+      return rewindGameState(state, action.step - 1, action.pack, action.config);
     
     case 'LOAD_FROM_STORAGE':
       return action.gameState;
@@ -101,9 +254,19 @@ interface RunStateProviderProps {
 }
 
 export function RunStateProvider({ children }: RunStateProviderProps) {
-  const [runState, dispatch] = useReducer(gameStateReducer, initializeGameState());
+  const [contentPack, setContentPack] = React.useState<ContentPack>(getDefaultPack);
+  const [packReady, setPackReady] = React.useState(false);
+  const [packWarning, setPackWarning] = React.useState<PackWarning | null>(null);
+  const [packMismatch, setPackMismatch] = React.useState<PackMismatch | null>(null);
+  const [replay, setReplay] = React.useState<RunReplay | null>(null);
+  const pendingRunRef = React.useRef<SavedRun | null>(null);
+  const packRef = React.useMemo(() => createPackRef(contentPack), [contentPack]);
+  const meterConfig = React.useMemo(() => resolveMeterConfig(contentPack.meterConfig), [contentPack]);
+  const [runState, dispatch] = useReducer(gameStateReducer, contentPack, pack => startRun(pack));
   const [consent, setConsentState] = React.useState<boolean | null>(null);
-  const contentPack = getDefaultPack();
+  const [fairMode, setFairModeState] = React.useState(false);
+  const [previousRun, setPreviousRun] = React.useState<PreviousRun | null>(null);
+  const comparablePreviousRun = getComparablePreviousRun(previousRun, packRef);
 
   // Enhanced save to localStorage with validation
   const saveToStorage = React.useCallback(() => {
@@ -114,13 +277,8 @@ export function RunStateProvider({ children }: RunStateProviderProps) {
         return;
       }
       
-      const dataToSave = {
-        ...runState,
-        timestamp: Date.now(),
-        version: '1.0' // Schema version for future migrations
-      };
-      
-      localStorage.setItem(STORAGE_KEYS.RUN_STATE, JSON.stringify(dataToSave));
+      // Only the event log is saved, pinned to the pack it was played on
+      localStorage.setItem(STORAGE_KEYS.RUN_STATE, JSON.stringify(toSavedRun(runState, packRef)));
     } catch (error) {
       console.error('Failed to save to localStorage:', error);
       // Try to recover space by clearing old data
@@ -131,7 +289,7 @@ export function RunStateProvider({ children }: RunStateProviderProps) {
         console.error('Failed to clear localStorage:', clearError);
       }
     }
-  }, [runState]);
+  }, [runState, packRef]);
 
   // Enhanced load from localStorage with robust corruption detection
   const loadFromStorage = React.useCallback(() => {
@@ -139,47 +297,34 @@ export function RunStateProvider({ children }: RunStateProviderProps) {
       const savedRunState = localStorage.getItem(STORAGE_KEYS.RUN_STATE);
 
       if (savedRunState) {
-        const parsedData = JSON.parse(savedRunState);
-        
-        // Enhanced validation with detailed checks
-        const isValidGameState = (
-          parsedData &&
-          typeof parsedData === 'object' &&
-          typeof parsedData.currentStep === 'number' &&
-          parsedData.currentStep >= 1 && parsedData.currentStep <= 5 &&
-          parsedData.state &&
-          typeof parsedData.state === 'object' &&
-          typeof parsedData.state.R === 'number' &&
-          typeof parsedData.state.U === 'number' &&
-          typeof parsedData.state.S === 'number' &&
-          typeof parsedData.state.C === 'number' &&
-          typeof parsedData.state.I === 'number' &&
-          typeof parsedData.seed === 'number' &&
-          Array.isArray(parsedData.choices) &&
-          parsedData.effective &&
-          typeof parsedData.effective === 'object' &&
-          Array.isArray(parsedData.history) &&
-          // Minimal per-entry validation to keep optional fields like unluckApplied/luckFactor intact
-          parsedData.history.every((entry: any) => entry && typeof entry.meter === 'number')
-        );
-
-        if (isValidGameState) {
-          // Check for data staleness (older than 7 days)
-          const timestamp = parsedData.timestamp || 0;
-          const isStale = Date.now() - timestamp > 7 * 24 * 60 * 60 * 1000;
-          
-          if (isStale) {
-            console.warn('Saved data is stale, resetting to clean state');
-            localStorage.removeItem(STORAGE_KEYS.RUN_STATE);
-            dispatch({ type: 'RESET' });
-          } else {
-            dispatch({ type: 'LOAD_FROM_STORAGE', gameState: parsedData });
-          }
-        } else {
+        // Saves written by older versions are upgraded through the migration chain first
+        const saved = parseSavedRun(JSON.parse(savedRunState), contentPack);
+
+        if (!saved) {
           console.warn('Invalid saved data structure, clearing and resetting');
           localStorage.removeItem(STORAGE_KEYS.RUN_STATE);
-          dispatch({ type: 'RESET' });
+          dispatch({ type: 'RESET', pack: contentPack });
+          return;
+        }
+
+        // Check for data staleness (older than 7 days)
+        if (Date.now() - saved.timestamp > 7 * 24 * 60 * 60 * 1000) {
+          console.warn('Saved data is stale, resetting to clean state');
+          localStorage.removeItem(STORAGE_KEYS.RUN_STATE);
+          dispatch({ type: 'RESET', pack: contentPack });
+          return;
         }
+
+        // Runs are pinned to their pack; hold a run from another pack until the player decides.
+        // Saves from before pack pinning carry no pack reference and are loaded as before.
+        if (saved.pack && !isSamePack(saved.pack, packRef)) {
+          pendingRunRef.current = saved;
+          setPackMismatch({ saved: saved.pack, current: packRef, canReload: getPackManager().canReloadPack(saved.pack) });
+          return;
+        }
+
+        // The saved log is the run; everything else is derived from it again
+        dispatch({ type: 'LOAD_FROM_STORAGE', gameState: migrateRunToPack(saved, contentPack) });
       }
     } catch (error) {
       console.error('Failed to load from localStorage:', error);
@@ -190,10 +335,93 @@ export function RunStateProvider({ children }: RunStateProviderProps) {
       } catch (clearError) {
         console.error('Failed to clear corrupted data:', clearError);
       }
-      dispatch({ type: 'RESET' });
+      dispatch({ type: 'RESET', pack: contentPack });
+    }
+  }, [packRef, contentPack]);
+
+  // Resolve a pack mismatch: reload the original pack, migrate the run to the active pack, or start fresh
+  const resolvePackMismatch = React.useCallback((resolution: PackMismatchResolution) => {
+    const pending = pendingRunRef.current;
+
+    if (resolution === 'reload' && packMismatch?.canReload) {
+      // Restart on the original pack; the saved run stays in storage and loads once the pack matches
+      window.location.assign(getPackReloadHref(window.location.href, packMismatch.saved));
+      return;
+    }
+
+    pendingRunRef.current = null;
+    setPackMismatch(null);
+
+    if (resolution === 'migrate' && pending) {
+      dispatch({ type: 'LOAD_FROM_STORAGE', gameState: migrateRunToPack(pending, contentPack) });
+    } else {
+      try {
+        localStorage.removeItem(STORAGE_KEYS.RUN_STATE);
+      } catch (error) {
+        console.error('Failed to clear saved run:', error);
+      }
+      dispatch({ type: 'RESET', pack: contentPack });
+    }
+  }, [packMismatch, contentPack]);
+
+  // Open the ?replay= run code; returns false when there is none to show. A code recorded on another
+  // pack reloads the page with that pack once before giving up.
+  const startReplay = React.useCallback((): boolean => {
+    const code = new URLSearchParams(window.location.search).get(REPLAY_PARAM);
+    if (!code) return false;
+
+    const run = decodeRunCode(code);
+    if (!run) {
+      setPackWarning({ message: 'Replay link has an invalid run code — ignoring it', errors: [code] });
+      return false;
+    }
+
+    if (run.pack.id !== contentPack.id || run.pack.version !== contentPack.version) {
+      const packParams = (href: string) => {
+        const { searchParams } = new URL(href);
+        return `${searchParams.get('pack')} ${searchParams.get('packUrl')}`;
+      };
+      const reloadHref = getPackReloadHref(window.location.href, run.pack);
+      if (packParams(reloadHref) !== packParams(window.location.href)) {
+        window.location.assign(reloadHref);
+        return true;
+      }
+      setPackWarning({
+        message: `Run code was recorded on ${run.pack.id} v${run.pack.version}, which could not be loaded — replay skipped`,
+        errors: []
+      });
+      return false;
+    }
+
+    setReplay({ code, run, frames: replayChoices(contentPack, run.seed, run.choices) });
+    return true;
+  }, [contentPack]);
+
+  // Close the replay viewer and drop ?replay= so a reload starts normally
+  const clearReplay = React.useCallback(() => {
+    setReplay(null);
+    const url = new URL(window.location.href);
+    if (url.searchParams.has(REPLAY_PARAM)) {
+      url.searchParams.delete(REPLAY_PARAM);
+      window.history.replaceState({}, '', url.toString());
     }
   }, []);
 
+  const playFromReplay = React.useCallback((index: number) => {
+    if (!replay) return;
+    const frame = replay.frames[Math.max(0, Math.min(index, replay.frames.length - 1))];
+    // Frames after a choice wait on its feedback; move on to the step the next choice is made on
+    const gameState = index > 0 ? gameStateReducer(frame, { type: 'ADVANCE_STEP' }) : frame;
+    dispatch({ type: 'LOAD_FROM_STORAGE', gameState });
+    clearReplay();
+  }, [replay, clearReplay]);
+
+  // The saved run was left alone while the replay was open
+  const endReplay = React.useCallback(() => {
+    clearReplay();
+    loadFromStorage();
+  }, [clearReplay, loadFromStorage]);
+
   // Consent management
   const setConsent = React.useCallback((consentValue: boolean) => {
     try {
@@ -223,6 +451,37 @@ export function RunStateProvider({ children }: RunStateProviderProps) {
     }
   }, []);
 
+  // Fair mode and the run it compares against; kept when a run is reset
+  const setFairMode = React.useCallback((enabled: boolean) => {
+    setFairModeState(enabled);
+    try {
+      localStorage.setItem(STORAGE_KEYS.FAIR_MODE, JSON.stringify({ enabled, timestamp: Date.now(), version: '1.0' }));
+    } catch (error) {
+      console.error('Failed to save fair mode:', error);
+    }
+  }, []);
+
+  const loadFairMode = React.useCallback(() => {
+    try {
+      const savedFairMode = localStorage.getItem(STORAGE_KEYS.FAIR_MODE);
+      if (savedFairMode) {
+        const parsedFairMode = JSON.parse(savedFairMode);
+        if (parsedFairMode && typeof parsedFairMode.enabled === 'boolean') {
+          setFairModeState(parsedFairMode.enabled);
+        }
+      }
+      const savedPreviousRun = localStorage.getItem(STORAGE_KEYS.PREVIOUS_RUN);
+      if (savedPreviousRun) {
+        const parsedPreviousRun = JSON.parse(savedPreviousRun);
+        if (isValidPreviousRun(parsedPreviousRun)) {
+          setPreviousRun(parsedPreviousRun);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load fair mode:', error);
+    }
+  }, []);
+
   // Pack info persistence
   const savePackInfo = React.useCallback((packInfo: { id: string; version: string; source?: string }) => {
     try {
@@ -258,44 +517,140 @@ export function RunStateProvider({ children }: RunStateProviderProps) {
 
   // Enhanced reset run and clear all storage
   const resetRun = React.useCallback(() => {
+    // A new run closes the replay viewer, so autosave picks the new run up
+    clearReplay();
     try {
       // Clear all localStorage keys
       localStorage.removeItem(STORAGE_KEYS.RUN_STATE);
       localStorage.removeItem(STORAGE_KEYS.CONSENT);
       localStorage.removeItem(STORAGE_KEYS.PACK_INFO);
       localStorage.removeItem(STORAGE_KEYS.SESSION_TOKEN);
+
+      // The replaced run becomes the one fair mode compares against
+      const previous: PreviousRun | null = runState.choices.length > 0
+        ? { seed: runState.seed, pack: packRef, path: runState.path, choices: runState.choices, history: runState.history }
+        : comparablePreviousRun;
+      if (previous && previous !== previousRun) {
+        setPreviousRun(previous);
+        localStorage.setItem(STORAGE_KEYS.PREVIOUS_RUN, JSON.stringify(previous));
+      }
+
+      // The active pack is not run data; keep it recorded for the next run
+      savePackInfo({
+        id: contentPack.id,
+        version: contentPack.version,
+        source: getPackManager().getCurrentPackInfo().source
+      });
       
-      // Reset state
-      dispatch({ type: 'RESET' });
+      // Reset state; fair mode replays the previous run's seed
+      dispatch({ type: 'INITIALIZE', seed: fairMode ? previous?.seed : undefined, pack: contentPack });
       setConsentState(null);
+      pendingRunRef.current = null;
+      setPackMismatch(null);
       
       console.log('Successfully reset all game data');
     } catch (error) {
       console.error('Failed to clear localStorage:', error);
       // Still try to reset the state even if localStorage fails
-      dispatch({ type: 'RESET' });
+      dispatch({ type: 'RESET', pack: contentPack });
       setConsentState(null);
     }
-  }, []);
+  }, [contentPack, savePackInfo, runState, packRef, previousRun, comparablePreviousRun, fairMode, clearReplay]);
 
-  // Load from storage on mount
+  const dismissPackWarning = React.useCallback(() => setPackWarning(null), []);
+
+  const switchPack = React.useCallback(async (packId: string) => {
+    const manager = getPackManager();
+    const result = await manager.switchToPack(packId);
+    const pack = manager.getCurrentPack();
+
+    clearReplay();
+    setContentPack(pack);
+    dispatch({ type: 'RESET', pack });
+    pendingRunRef.current = null;
+    setPackMismatch(null);
+    setPackWarning(result?.source === 'fallback'
+      ? { message: `Could not switch to content pack ${packId} — keeping "${pack.title}"`, errors: result.errors }
+      : null);
+    savePackInfo({ id: pack.id, version: pack.version, source: manager.getCurrentPackInfo().source });
+  }, [savePackInfo, clearReplay]);
+
+  // Resolve the active pack (?pack= / ?packUrl=) through the PackManager on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    const resolvePack = async () => {
+      let result = null;
+      try {
+        result = await initializePackManager();
+      } catch (error) {
+        console.error('Failed to initialize pack manager:', error);
+      }
+      if (cancelled) return;
+
+      const manager = getPackManager();
+      const pack = manager.getCurrentPack();
+      setContentPack(pack);
+      dispatch({ type: 'RESET', pack });
+
+      if (result?.source === 'fallback') {
+        setPackWarning({
+          message: `Requested content pack could not be loaded — using "${pack.title}" instead`,
+          errors: result.errors,
+        });
+      }
+
+      savePackInfo({ id: pack.id, version: pack.version, source: manager.getCurrentPackInfo().source });
+      setPackReady(true);
+    };
+
+    resolvePack();
+    return () => {
+      cancelled = true;
+    };
+  }, [savePackInfo]);
+
+  // Load consent and fair mode on mount
   useEffect(() => {
-    loadFromStorage();
     loadConsent();
-  }, [loadFromStorage, loadConsent]);
+    loadFairMode();
+  }, [loadConsent, loadFairMode]);
 
-  // Auto-save when runState changes (debounced)
+  // Open a replay link or load the saved run once the active pack is known
   useEffect(() => {
+    if (packReady && !startReplay()) {
+      loadFromStorage();
+    }
+  }, [packReady, loadFromStorage, startReplay]);
+
+  // Auto-save when runState changes (debounced); skipped until the saved run has been loaded,
+  // while a run from another pack is waiting for a decision and while a replay is open
+  useEffect(() => {
+    if (!packReady || packMismatch || replay) return;
+
     const timeoutId = setTimeout(() => {
       saveToStorage();
     }, 500);
 
     return () => clearTimeout(timeoutId);
-  }, [runState, saveToStorage]);
+  }, [runState, saveToStorage, packReady, packMismatch, replay]);
 
   const contextValue: RunStateContextType = {
     runState,
     contentPack,
+    meterConfig,
+    packReady,
+    packWarning,
+    dismissPackWarning,
+    switchPack,
+    packMismatch,
+    resolvePackMismatch,
+    replay,
+    playFromReplay,
+    endReplay,
+    fairMode,
+    setFairMode,
+    previousRun: comparablePreviousRun,
     dispatch,
     saveToStorage,
     loadFromStorage,
@@ -328,7 +683,12 @@ export function useRunState() {
 export function useCurrentStep() {
   const { runState, contentPack } = useRunState();
   const currentStepData = contentPack.steps.find(step => step.id === runState.currentStep);
-  return { currentStep: runState.currentStep, stepData: currentStepData };
+  return {
+    currentStep: runState.currentStep,
+    stepData: currentStepData,
+    totalSteps: runState.totalSteps,
+    stepNumber: runState.path.length // Position of the current step in this run
+  };
 }
 
 export function useCanResume() {
@@ -1,5 +1,13 @@
-import yaml from 'js-yaml';
+import { ZodError } from 'zod';
 import { ContentPack, validateContentPack, isValidContentPack } from './content-pack';
+import {
+  type PackDiagnostic,
+  type SourceLocator,
+  formatDiagnostic,
+  getValidationDiagnostics,
+  getYamlSyntaxDiagnostic,
+  parseYamlWithLocations,
+} from './pack-diagnostics';
 
 /**
  * Content Loader
@@ -13,6 +21,7 @@ export interface LoadResult {
   source: 'file' | 'url' | 'fallback';
   errors: string[];
   warnings: string[];
+  diagnostics?: PackDiagnostic[]; // Structured issues when the pack failed to parse or validate
 }
 
 export interface LoadOptions {
@@ -31,6 +40,7 @@ export async function loadContentPack(
   const { fallbackPack, validateAssets = false, timeout = 5000 } = options;
   const errors: string[] = [];
   const warnings: string[] = [];
+  const diagnostics: PackDiagnostic[] = [];
 
   try {
     // Determine if source is URL or file path
@@ -45,11 +55,8 @@ export async function loadContentPack(
       rawContent = await loadFromFile(source);
     }
 
-    // Parse content based on file extension
-    const parsedData = parseContent(rawContent, source);
-    
-    // Validate against schema
-    const pack = validateContentPack(parsedData);
+    // Parse content based on file extension, then validate against schema
+    const pack = parseAndValidate(rawContent, isYamlSource(source), diagnostics);
 
     // Optional asset validation
     if (validateAssets && pack.steps) {
@@ -64,7 +71,7 @@ export async function loadContentPack(
     };
 
   } catch (error) {
-    errors.push(`Failed to load content pack: ${error instanceof Error ? error.message : String(error)}`);
+    errors.push(...describeLoadError('Failed to load content pack', error, diagnostics));
 
     // Try fallback pack
     if (fallbackPack) {
@@ -74,6 +81,7 @@ export async function loadContentPack(
         source: 'fallback',
         errors,
         warnings,
+        diagnostics,
       };
     }
 
@@ -92,10 +100,10 @@ export function loadContentPackFromString(
 ): LoadResult {
   const errors: string[] = [];
   const warnings: string[] = [];
+  const diagnostics: PackDiagnostic[] = [];
 
   try {
-    const parsedData = format === 'yaml' ? yaml.load(content) : JSON.parse(content);
-    const pack = validateContentPack(parsedData);
+    const pack = parseAndValidate(content, format === 'yaml', diagnostics);
 
     return {
       pack,
@@ -104,7 +112,7 @@ export function loadContentPackFromString(
       warnings,
     };
   } catch (error) {
-    errors.push(`Failed to parse content: ${error instanceof Error ? error.message : String(error)}`);
+    errors.push(...describeLoadError('Failed to parse content', error, diagnostics));
 
     if (fallbackPack) {
       warnings.push('Using fallback content pack due to parsing errors');
@@ -113,6 +121,7 @@ export function loadContentPackFromString(
         source: 'fallback',
         errors,
         warnings,
+        diagnostics,
       };
     }
 
@@ -187,16 +196,41 @@ async function loadFromFile(filePath: string): Promise<string> {
   }
 }
 
-function parseContent(content: string, source: string): unknown {
-  const isYaml = source.endsWith('.yaml') || source.endsWith('.yml');
-  
-  if (isYaml) {
-    return yaml.load(content);
-  } else {
-    return JSON.parse(content);
+function isYamlSource(source: string): boolean {
+  return source.endsWith('.yaml') || source.endsWith('.yml');
+}
+
+// Parse and validate, collecting diagnostics (with YAML positions) before rethrowing
+function parseAndValidate(content: string, isYaml: boolean, diagnostics: PackDiagnostic[]): ContentPack {
+  let parsedData: unknown;
+  let locate: SourceLocator | undefined;
+
+  try {
+    if (isYaml) {
+      ({ data: parsedData, locate } = parseYamlWithLocations(content));
+    } else {
+      parsedData = JSON.parse(content);
+    }
+    return validateContentPack(parsedData);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      diagnostics.push(...getValidationDiagnostics(error, parsedData, locate));
+    } else {
+      const syntaxDiagnostic = getYamlSyntaxDiagnostic(error);
+      if (syntaxDiagnostic) diagnostics.push(syntaxDiagnostic);
+    }
+    throw error;
   }
 }
 
+// Error lines for a failed load: one readable line per diagnostic instead of the raw ZodError dump
+function describeLoadError(prefix: string, error: unknown, diagnostics: PackDiagnostic[]): string[] {
+  if (diagnostics.length > 0) {
+    return diagnostics.map(diagnostic => `${prefix}: ${formatDiagnostic(diagnostic)}`);
+  }
+  return [`${prefix}: ${error instanceof Error ? error.message : String(error)}`];
+}
+
 async function validatePackAssets(pack: ContentPack, warnings: string[]): Promise<void> {
   const assetUrls: string[] = [];
   
@@ -223,14 +257,23 @@ async function validatePackAssets(pack: ContentPack, warnings: string[]): Promis
 /**
  * Utility to check if a content pack is valid without throwing
  */
-export function validateContentPackSafe(data: unknown): { valid: boolean; errors: string[] } {
+export function validateContentPackSafe(data: unknown): {
+  valid: boolean;
+  errors: string[];
+  diagnostics: PackDiagnostic[];
+} {
   try {
     validateContentPack(data);
-    return { valid: true, errors: [] };
+    return { valid: true, errors: [], diagnostics: [] };
   } catch (error) {
+    if (error instanceof ZodError) {
+      const diagnostics = getValidationDiagnostics(error, data);
+      return { valid: false, errors: diagnostics.map(formatDiagnostic), diagnostics };
+    }
     return {
       valid: false,
       errors: error instanceof Error ? [error.message] : ['Unknown validation error'],
+      diagnostics: [],
     };
   }
 }
\ No newline at end of file
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { hasMeterFormula } from './meter-formulas';
+import { findStepGraphIssues } from './step-graph';
 
 /**
  * ContentPack v1 Schema
@@ -16,24 +18,259 @@ export const DeltaSchema = z.object({
   I: z.number().int().min(-10).max(15).default(0), // Investor Confidence / Story
 });
 
-// Choice represents one of two options (A or B) in a step
+// Delay in ms before a console event is shown
+const ConsoleDelaySchema = z.number().int().min(0).max(5000).default(300);
+
+// ConsoleEvent is one scripted Junie Console event (see docs/content-packs.md)
+export const ConsoleEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('log'), // Log line
+    text: z.string().min(1).max(300),
+    level: z.enum(['info', 'success', 'warn']).optional(),
+    delay: ConsoleDelaySchema,
+  }),
+  z.object({
+    type: z.literal('diff'), // Mock code diff hunk; lines start with '+', '-' or ' '
+    file: z.string().min(1).max(200),
+    lines: z.array(z.string().max(200)).min(1).max(40),
+    delay: ConsoleDelaySchema,
+  }),
+  z.object({
+    type: z.literal('file'), // File created by Junie
+    path: z.string().min(1).max(200),
+    delay: ConsoleDelaySchema,
+  }),
+  z.object({
+    type: z.literal('preview'), // Artifact preview (image URL or inline HTML)
+    kind: z.enum(['image', 'html']),
+    src: z.string().url().optional(),
+    html: z.string().min(1).max(2000).optional(),
+    caption: z.string().min(1).max(100).optional(),
+    delay: ConsoleDelaySchema,
+  }),
+  z.object({
+    type: z.literal('pause'), // Silent wait
+    delay: ConsoleDelaySchema,
+  }),
+]);
+
+// Ordered console script for a choice
+export const ConsoleScriptSchema = z.array(ConsoleEventSchema).min(1).max(50).superRefine((events, ctx) => {
+  events.forEach((event, index) => {
+    if (event.type !== 'preview') return;
+    if (event.kind === 'image' && !event.src) {
+      ctx.addIssue({ code: 'custom', message: 'Image preview requires src', path: [index, 'src'] });
+    }
+    if (event.kind === 'html' && !event.html) {
+      ctx.addIssue({ code: 'custom', message: 'HTML preview requires html', path: [index, 'html'] });
+    }
+  });
+});
+
+// Supported pack lengths (e.g., 3-step "speed run" to 8-step workshop packs)
+export const MIN_PACK_STEPS = 3;
+export const MAX_PACK_STEPS = 10;
+
+// Target of a choice: a step id, or 'end' to finish the run
+export const NextStepSchema = z.union([z.number().int().min(1).max(MAX_PACK_STEPS), z.literal('end')]);
+
+// Inclusive bounds checked by a route condition
+const RangeSchema = z.object({
+  min: z.number().optional(),
+  max: z.number().optional(),
+}).refine(range => range.min !== undefined || range.max !== undefined, {
+  message: 'Range requires min or max',
+});
+
+// RouteCondition matches the state and meter after the choice is applied; all ranges must hold
+export const RouteConditionSchema = z.object({
+  meter: RangeSchema.optional(), // Scaling meter (0-100)
+  R: RangeSchema.optional(),
+  U: RangeSchema.optional(),
+  S: RangeSchema.optional(),
+  C: RangeSchema.optional(),
+  I: RangeSchema.optional(),
+}).refine(condition => Object.values(condition).some(range => range !== undefined), {
+  message: 'Route condition requires at least one range',
+});
+
+// Conditional route; the first matching route of a choice wins
+export const StepRouteSchema = z.object({
+  when: RouteConditionSchema,
+  next: NextStepSchema,
+});
+
+// Choice represents one option of a step
 export const ChoiceSchema = z.object({
   label: z.string().min(1).max(200), // Short description of the choice
   body: z.string().min(1).max(1000), // Detailed description/demo text
   delta: DeltaSchema, // Impact on the scaling meter dimensions
   // Optional contextual Unluck messages for this option (see docs/unluck.md)
   unluckMessages: z.array(z.string().min(1).max(300)).optional(),
+  // Optional Junie Console script played when this option is chosen
+  console: ConsoleScriptSchema.optional(),
+  // Optional routing (see docs/content-packs.md); defaults to the following step
+  next: NextStepSchema.optional(),
+  routes: z.array(StepRouteSchema).max(10).optional(),
 });
 
+// Stable option id within a step (e.g., "A", "B", "ship-fast"); saved runs refer to options by id
+export const ChoiceIdSchema = z.string().regex(/^[A-Za-z0-9_-]+$/).min(1).max(30);
+
+// StepOption is a choice with its id, as listed in a step's options
+export const StepOptionSchema = ChoiceSchema.extend({
+  id: ChoiceIdSchema,
+});
+
+// Supported option counts per step (2 for the classic A/B game, up to 4 for workshop variants)
+export const MIN_STEP_OPTIONS = 2;
+export const MAX_STEP_OPTIONS = 4;
+
+// Ids given to the options of packs written with optionA/optionB
+export const LEGACY_OPTION_IDS = { optionA: 'A', optionB: 'B' } as const;
+
+// Convert optionA/optionB steps to the options array before validation
+function normalizeLegacyOptions(data: unknown): unknown {
+  if (!data || typeof data !== 'object' || 'options' in data) return data;
+  const { optionA, optionB, ...rest } = data as Record<string, unknown>;
+  if (optionA === undefined && optionB === undefined) return data;
+  return {
+    ...rest,
+    options: [
+      { ...(optionA as object), id: LEGACY_OPTION_IDS.optionA },
+      { ...(optionB as object), id: LEGACY_OPTION_IDS.optionB },
+    ],
+  };
+}
+
 // Step represents one level/stage of the game
-export const StepSchema = z.object({
-  id: z.number().int().min(1).max(5), // Step number (1-5)
+export const StepSchema = z.preprocess(normalizeLegacyOptions, z.object({
+  id: z.number().int().min(1).max(MAX_PACK_STEPS), // Step number (1-based, sequential within a pack)
   title: z.string().min(1).max(100), // Step title (e.g., "Early Maturity Stage")
   subtitle: z.string().min(1).max(200).optional(), // Optional subtitle
   scenario: z.string().min(1).max(2000), // Scenario description/context
-  optionA: ChoiceSchema, // First choice option
-  optionB: ChoiceSchema, // Second choice option
+  options: z.array(StepOptionSchema).min(MIN_STEP_OPTIONS).max(MAX_STEP_OPTIONS), // 2-4 options (or legacy optionA/optionB)
   assets: z.array(z.string().url()).optional(), // Optional asset URLs
+}).superRefine((step, ctx) => {
+  const seen = new Set<string>();
+  step.options.forEach((option, index) => {
+    if (seen.has(option.id)) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Duplicate option id "${option.id}"`,
+        path: ['options', index, 'id'],
+      });
+    }
+    seen.add(option.id);
+  });
+}));
+
+// Share of an effect (probabilities, reduction factors)
+const UnitIntervalSchema = z.number().min(0).max(1);
+
+// Special unluck event ("Perfect Storm") that can hit a step/option after regular unluck
+export const SpecialEventSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]+$/).min(1).max(50), // Recorded in MeterResult.specialEventId
+  title: z.string().min(1).max(60), // Popup heading (e.g., "Perfect Storm")
+  step: z.number().int().min(1).max(MAX_PACK_STEPS), // Step id
+  choice: ChoiceIdSchema, // Option id on that step
+  probability: UnitIntervalSchema, // Chance once regular unluck hit this step
+  scalingGainsReduction: UnitIntervalSchema.default(1), // Multiplier on the gains left after unluck (0.5 halves them)
+  reductions: z.object({
+    R: UnitIntervalSchema,
+    U: UnitIntervalSchema,
+    S: UnitIntervalSchema,
+    C: UnitIntervalSchema,
+    I: UnitIntervalSchema,
+  }).partial().default({}), // Share of each dimension lost after the delta (0.7 = -70%)
+  messages: z.array(z.string().min(1).max(300)).min(1).max(20), // One is shown when the event fires
+});
+
+// State dimension key
+const DimensionSchema = z.enum(['R', 'U', 'S', 'C', 'I']);
+
+// Interaction rule condition on the state after the choice; all given ranges must hold
+export const InteractionConditionSchema = z.object({
+  R: RangeSchema.optional(),
+  U: RangeSchema.optional(),
+  S: RangeSchema.optional(),
+  C: RangeSchema.optional(),
+  I: RangeSchema.optional(),
+  // Difference between two dimensions, e.g. { of: ['U', 'S'], min: 11 } for "U - S > 10"
+  gap: z.object({
+    of: z.tuple([DimensionSchema, DimensionSchema]),
+    min: z.number().optional(),
+    max: z.number().optional(),
+  }).refine(gap => gap.min !== undefined || gap.max !== undefined, {
+    message: 'Gap requires min or max',
+  }).optional(),
+}).refine(condition => Object.values(condition).some(range => range !== undefined), {
+  message: 'Interaction condition requires at least one range',
+});
+
+// Synergy or penalty between dimensions, applied every step its condition holds
+export const InteractionRuleSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]+$/).min(1).max(50), // Recorded in MeterResult.interactions
+  insight: z.string().min(1).max(120), // Shown with the insights when the rule fires
+  when: InteractionConditionSchema,
+  effect: DeltaSchema.refine(delta => Object.values(delta).some(value => value !== 0), {
+    message: 'Effect must change at least one dimension',
+  }), // Added to the state before the meter is computed
+});
+
+// Partial MeterConfig override; deep-merged over DEFAULT_CONFIG (see resolveMeterConfig in scaling-meter.ts)
+export const MeterConfigSchema = z.object({
+  formula: z.string().refine(hasMeterFormula, {
+    message: 'Unknown meter formula',
+  }).optional(), // Scoring strategy id (see meter-formulas.ts)
+  weights: z.object({
+    R: UnitIntervalSchema,
+    U: UnitIntervalSchema,
+    S: UnitIntervalSchema,
+    C: UnitIntervalSchema,
+    I: UnitIntervalSchema,
+  }).partial().optional(), // Weight of each dimension in the raw score
+  sigmoid: z.object({
+    mu: z.number().min(-50).max(50),
+    sigma: z.number().positive().max(50),
+  }).partial().optional(), // Normalization of the raw score
+  diminishingReturns: z.number().positive().max(1).optional(), // Exponent applied to each dimension
+  momentumBonus: z.number().int().min(0).max(10).optional(), // Bonus when the meter rises
+  randomnessRange: z.tuple([z.number().int().min(-20).max(0), z.number().int().min(0).max(20)]).optional(), // [min, max] meter noise
+  rubberBand: z.object({
+    threshold: z.number().int().min(0).max(100),
+    bonus: z.number().int().min(0).max(10),
+  }).partial().optional(), // Catch-up bonus below the threshold
+  unluck: z.object({
+    probability: UnitIntervalSchema,
+    factorRange: z.tuple([UnitIntervalSchema, UnitIntervalSchema]).refine(([min, max]) => min <= max, {
+      message: 'factorRange must be [min, max] with min <= max',
+    }),
+  }).partial().optional(), // Chance and strength of unluck (see docs/unluck.md)
+  specialEvents: z.array(SpecialEventSchema).max(20).optional(), // Replaces the default special events
+  decay: z.object({
+    R: z.number().min(0).max(0.5),
+    U: z.number().min(0).max(0.5),
+    S: z.number().min(0).max(0.5),
+    C: z.number().min(0).max(0.5),
+    I: z.number().min(0).max(0.5),
+  }).partial().optional(), // Share of each positive dimension lost between steps
+  drift: z.object({
+    R: z.number().int().min(-5).max(5),
+    U: z.number().int().min(-5).max(5),
+    S: z.number().int().min(-5).max(5),
+    C: z.number().int().min(-5).max(5),
+    I: z.number().int().min(-5).max(5),
+  }).partial().optional(), // Points added to each dimension between steps
+  interactions: z.array(InteractionRuleSchema).max(20).optional(), // Replaces the default interaction rules
+  luckyBreak: z.object({
+    probability: UnitIntervalSchema,
+    factorRange: z.tuple([z.number().min(1).max(3), z.number().min(1).max(3)]).refine(([min, max]) => min <= max, {
+      message: 'factorRange must be [min, max] with min <= max',
+    }),
+    bonus: z.number().int().min(0).max(10),
+    messages: z.array(z.string().min(1).max(300)).max(20),
+  }).partial().optional(), // Chance and strength of lucky breaks on steps without unluck
 });
 
 // ContentPack represents a complete game content pack
@@ -43,18 +280,70 @@ export const ContentPackSchema = z.object({
   title: z.string().min(1).max(100), // Pack title for display
   description: z.string().min(1).max(500).optional(), // Optional description
   author: z.string().min(1).max(100).optional(), // Optional author
-  steps: z.array(StepSchema).length(5), // Exactly 5 steps
+  steps: z.array(StepSchema).min(MIN_PACK_STEPS).max(MAX_PACK_STEPS), // 3-10 steps
   metadata: z.object({
     created: z.string().datetime().optional(), // ISO datetime
     updated: z.string().datetime().optional(), // ISO datetime
     tags: z.array(z.string()).optional(), // Optional tags
   }).optional(),
+  meterConfig: MeterConfigSchema.optional(), // Pack-specific meter tuning
+}).superRefine((pack, ctx) => {
+  // Step ids must run 1..N in order so an id doubles as its position in the pack
+  pack.steps.forEach((step, index) => {
+    if (step.id !== index + 1) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Step ids must be sequential starting at 1 (expected ${index + 1}, got ${step.id})`,
+        path: ['steps', index, 'id'],
+      });
+    }
+  });
+
+  // Routing must only reference existing steps, reach every step and always allow finishing
+  findStepGraphIssues(pack.steps).forEach(issue => {
+    ctx.addIssue({ code: 'custom', message: issue.message, path: issue.path });
+  });
+
+  // Interaction rule ids are recorded in run history, so they must be unique
+  const ruleIds = new Set<string>();
+  pack.meterConfig?.interactions?.forEach((rule, index) => {
+    if (ruleIds.has(rule.id)) {
+      ctx.addIssue({ code: 'custom', message: `Duplicate interaction rule id "${rule.id}"`, path: ['meterConfig', 'interactions', index, 'id'] });
+    }
+    ruleIds.add(rule.id);
+  });
+
+  // Special events must point at a step and option this pack has
+  const eventIds = new Set<string>();
+  pack.meterConfig?.specialEvents?.forEach((event, index) => {
+    const path = ['meterConfig', 'specialEvents', index];
+    const step = pack.steps.find(candidate => candidate.id === event.step);
+    if (eventIds.has(event.id)) {
+      ctx.addIssue({ code: 'custom', message: `Duplicate special event id "${event.id}"`, path: [...path, 'id'] });
+    }
+    eventIds.add(event.id);
+    if (!step) {
+      ctx.addIssue({ code: 'custom', message: `Special event step ${event.step} does not exist`, path: [...path, 'step'] });
+    } else if (!step.options.some(option => option.id === event.choice)) {
+      ctx.addIssue({ code: 'custom', message: `Step ${step.id} has no option "${event.choice}"`, path: [...path, 'choice'] });
+    }
+  });
 });
 
 // Type exports for TypeScript usage
 export type Delta = z.infer<typeof DeltaSchema>;
+export type ConsoleEvent = z.infer<typeof ConsoleEventSchema>;
+export type NextStep = z.infer<typeof NextStepSchema>;
+export type RouteCondition = z.infer<typeof RouteConditionSchema>;
+export type StepRoute = z.infer<typeof StepRouteSchema>;
 export type Choice = z.infer<typeof ChoiceSchema>;
+export type ChoiceId = z.infer<typeof ChoiceIdSchema>;
+export type StepOption = z.infer<typeof StepOptionSchema>;
 export type Step = z.infer<typeof StepSchema>;
+export type SpecialEvent = z.infer<typeof SpecialEventSchema>;
+export type InteractionCondition = z.infer<typeof InteractionConditionSchema>;
+export type InteractionRule = z.infer<typeof InteractionRuleSchema>;
+export type MeterConfigOverride = z.infer<typeof MeterConfigSchema>;
 export type ContentPack = z.infer<typeof ContentPackSchema>;
 
 // Validation helper functions
@@ -66,6 +355,37 @@ export function isValidContentPack(data: unknown): data is ContentPack {
   return ContentPackSchema.safeParse(data).success;
 }
 
+// Number of steps in a pack (the run length)
+export function getStepCount(pack: ContentPack): number {
+  return pack.steps.length;
+}
+
+// Serialize with sorted object keys so equal packs always produce the same string
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// Content hash of a pack (FNV-1a over its steps and meterConfig), used to pin saved runs to the exact
+// content and rules. Packs without a meterConfig hash their steps alone, as before meterConfig existed.
+export function computePackHash(pack: ContentPack): string {
+  const text = stableStringify(pack.meterConfig ? { steps: pack.steps, meterConfig: pack.meterConfig } : pack.steps);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
 // Default empty delta for convenience
 export const EMPTY_DELTA: Delta = { R: 0, U: 0, S: 0, C: 0, I: 0 };
 
@@ -74,32 +394,66 @@ export function createDelta(partial: Partial<Delta>): Delta {
   return { ...EMPTY_DELTA, ...partial };
 }
 
+// Find an option of a step by its id
+export function getStepOption(step: Step, choice: ChoiceId): StepOption | undefined {
+  return step.options.find(option => option.id === choice);
+}
+
+// Display letter for the option at a position (A, B, C, D)
+export function getOptionLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+// Display letter for an option id within a step; falls back to the id itself
+export function getOptionLetterById(step: Step, choice: ChoiceId): string {
+  const index = step.options.findIndex(option => option.id === choice);
+  return index >= 0 ? getOptionLetter(index) : choice;
+}
+
 // Deterministically pick an Unluck message for a given step and choice using provided RNG
 export function getUnluckMessage(
   step: Step,
-  choice: 'A' | 'B',
+  choice: ChoiceId,
   rng: () => number
 ): string | null {
-  const list = choice === 'A' ? step.optionA.unluckMessages : step.optionB.unluckMessages;
+  const list = getStepOption(step, choice)?.unluckMessages;
   if (!list || list.length === 0) return null;
   const index = Math.floor(rng() * list.length);
   return list[index] ?? null;
 }
 
-// Special unluck messages for step 4 option B (double unluck scenario)
-const SPECIAL_UNLUCK_MESSAGES = [
-  "You thought you could get away with this!? Now you have to pay twice!",
-  "Oh, you didn't invest in stability? Time to learn the hard way — DOUBLE PENALTY!",
-  "Surprise! Your system just collapsed under load. Should've chosen option A!",
-  "Plot twist: Your AI chatbot became sentient and quit. Users are fleeing!",
-  "Breaking: Your infrastructure melted faster than ice cream in July. Oops!",
-  "Karma called — it wants its revenge for skipping system stability!",
-  "Your servers just pulled a Houdini act. Poof! Gone with half your users!",
-  "Congratulations! You've unlocked the 'System Meltdown' achievement. Twice the pain!",
-];
-
-// Get a snarky special unluck message for double unluck events
-export function getSpecialUnluckMessage(rng: () => number): string {
-  const index = Math.floor(rng() * SPECIAL_UNLUCK_MESSAGES.length);
-  return SPECIAL_UNLUCK_MESSAGES[index] ?? SPECIAL_UNLUCK_MESSAGES[0];
-}
\ No newline at end of file
+// Deterministically pick a special event message using provided RNG
+export function getSpecialEventMessage(event: SpecialEvent, rng: () => number): string {
+  const index = Math.floor(rng() * event.messages.length);
+  return event.messages[index] ?? event.messages[0];
+}
+
+// Deterministically pick a lucky break message using provided RNG
+export function getLuckyBreakMessage(messages: string[], rng: () => number): string | null {
+  if (messages.length === 0) return null;
+  const index = Math.floor(rng() * messages.length);
+  return messages[index] ?? null;
+}
+
+// Labels for special event effects, in display order
+const SPECIAL_EVENT_EFFECT_LABELS = {
+  gains: 'Scaling gains',
+  R: 'Revenue',
+  U: 'Users',
+  S: 'Reliability',
+  C: 'Customers',
+  I: 'Investors',
+} as const;
+
+// What a special event takes away, e.g. [{ key: 'gains', label: 'Scaling gains', percent: 50 }, { key: 'U', ... }]
+export function getSpecialEventEffects(
+  event: SpecialEvent
+): Array<{ key: keyof typeof SPECIAL_EVENT_EFFECT_LABELS; label: string; percent: number }> {
+  const shares: Partial<Record<keyof typeof SPECIAL_EVENT_EFFECT_LABELS, number>> = {
+    gains: 1 - event.scalingGainsReduction,
+    ...event.reductions,
+  };
+  return (Object.keys(SPECIAL_EVENT_EFFECT_LABELS) as Array<keyof typeof SPECIAL_EVENT_EFFECT_LABELS>)
+    .filter(key => (shares[key] ?? 0) > 0)
+    .map(key => ({ key, label: SPECIAL_EVENT_EFFECT_LABELS[key], percent: Math.round((shares[key] ?? 0) * 100) }));
+}
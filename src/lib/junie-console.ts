@@ -0,0 +1,210 @@
+import type { Choice, ConsoleEvent } from './content-pack';
+import { mulberry32 } from './scaling-meter';
+
+/**
+ * Junie Console Streaming Engine
+ *
+ * Builds the "agent at work" script for a chosen option (log lines, mock diffs,
+ * created files and artifact previews) and plays it back with seeded timing,
+ * based on Requirement 4 in docs/requirements.md.
+ */
+
+// Streaming options
+export interface ConsoleStreamOptions {
+  timeoutMs?: number; // Hard stop for the whole stream (default: 8000)
+  speed?: number; // Playback speed multiplier (default: 1)
+}
+
+// Stream callbacks
+export interface ConsoleStreamHandlers {
+  onEvent: (event: ConsoleEvent, index: number) => void;
+  onComplete: (info: { timedOut: boolean }) => void;
+}
+
+// Handle returned by playConsoleScript
+export interface ConsoleStream {
+  cancel: () => void;
+}
+
+export const DEFAULT_STREAM_TIMEOUT_MS = 8000;
+
+// Salt keeps console timing independent from the meter/unluck RNG streams
+const CONSOLE_SEED_SALT = 0x4a554e;
+
+/**
+ * Create the deterministic RNG used for console timing of a given step
+ */
+export function createConsoleRng(
+  seed: number,
+  stepIndex: number,
+): () => number {
+  return mulberry32((seed ^ CONSOLE_SEED_SALT) + stepIndex);
+}
+
+/**
+ * Turn a choice label into a file-system friendly slug
+ */
+export function slugify(text: string): string {
+  const slug = text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .split('-')
+    .slice(0, 4)
+    .join('-');
+  return slug || 'feature';
+}
+
+function toIdentifier(slug: string): string {
+  return slug
+    .split('-')
+    .map((part, index) =>
+      index === 0 ? part : part.charAt(0).toUpperCase() + part.slice(1),
+    )
+    .join('');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Build the default console script for a choice.
+ * Delays are jittered with the provided RNG so timing repeats for a given seed.
+ */
+export function buildConsoleScript(
+  choice: Choice,
+  rng: () => number,
+): ConsoleEvent[] {
+  const slug = slugify(choice.label);
+  const identifier = toIdentifier(slug);
+  const filePath = `src/features/${slug}.ts`;
+  const testPath = `tests/${slug}.test.ts`;
+
+  // Jitter a base delay into [0.6x, 1.4x]
+  const jitter = (base: number) => Math.round(base * (0.6 + rng() * 0.8));
+
+  return [
+    {
+      type: 'log',
+      text: `> Task received: ${choice.label}`,
+      delay: jitter(200),
+    },
+    {
+      type: 'log',
+      text: '> Analyzing codebase and planning changes...',
+      delay: jitter(450),
+    },
+    { type: 'file', path: filePath, delay: jitter(400) },
+    {
+      type: 'diff',
+      file: filePath,
+      lines: [
+        `+export function ${identifier}() {`,
+        `+  // ${choice.label}`,
+        `+  return { enabled: true };`,
+        '+}',
+      ],
+      delay: jitter(500),
+    },
+    { type: 'file', path: testPath, delay: jitter(300) },
+    {
+      type: 'log',
+      text: '> Running tests... all green',
+      level: 'success',
+      delay: jitter(600),
+    },
+    {
+      type: 'preview',
+      kind: 'html',
+      html: `<strong>${escapeHtml(choice.label)}</strong>`,
+      caption: 'Preview',
+      delay: jitter(400),
+    },
+    {
+      type: 'log',
+      text: '> Done! Shipping to production 🚀',
+      level: 'success',
+      delay: jitter(300),
+    },
+  ];
+}
+
+/**
+ * Resolve the script for a choice: the pack-authored console script when present,
+ * otherwise the generated default script
+ */
+export function resolveConsoleScript(
+  choice: Choice,
+  rng: () => number,
+): ConsoleEvent[] {
+  if (choice.console && choice.console.length > 0) {
+    return choice.console;
+  }
+  return buildConsoleScript(choice, rng);
+}
+
+/**
+ * Total playback duration of a script in ms at the given speed
+ */
+export function getScriptDuration(
+  events: ConsoleEvent[],
+  speed: number = 1,
+): number {
+  return events.reduce((total, event) => total + event.delay / speed, 0);
+}
+
+/**
+ * Play a console script event by event.
+ * Completes when the last event is shown or when the timeout elapses, whichever comes first.
+ */
+export function playConsoleScript(
+  events: ConsoleEvent[],
+  handlers: ConsoleStreamHandlers,
+  options: ConsoleStreamOptions = {},
+): ConsoleStream {
+  const { timeoutMs = DEFAULT_STREAM_TIMEOUT_MS, speed = 1 } = options;
+  let finished = false;
+  let stepTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const finish = (timedOut: boolean) => {
+    if (finished) return;
+    finished = true;
+    if (stepTimer) clearTimeout(stepTimer);
+    clearTimeout(timeoutTimer);
+    handlers.onComplete({ timedOut });
+  };
+
+  const timeoutTimer = setTimeout(() => finish(true), timeoutMs);
+
+  const playNext = (index: number) => {
+    if (finished) return;
+    if (index >= events.length) {
+      finish(false);
+      return;
+    }
+    const event = events[index];
+    stepTimer = setTimeout(
+      () => {
+        if (finished) return;
+        handlers.onEvent(event, index);
+        playNext(index + 1);
+      },
+      Math.max(0, event.delay / speed),
+    );
+  };
+
+  playNext(0);
+
+  return {
+    cancel: () => {
+      finished = true;
+      if (stepTimer) clearTimeout(stepTimer);
+      clearTimeout(timeoutTimer);
+    },
+  };
+}
@@ -0,0 +1,223 @@
+import type {
+  EffectiveState,
+  MeterAdjustment,
+  MeterConfig,
+  MeterResult,
+} from './scaling-meter';
+
+/**
+ * Meter Formulas
+ *
+ * Scoring strategies that turn the effective state into a meter value. Each formula computes a raw
+ * score and each dimension's part of it; the shared pipeline then normalizes it with the sigmoid and applies momentum, randomness,
+ * clamping and the rubber-band check. Packs pick one with `meterConfig.formula`.
+ */
+
+export interface MeterFormula {
+  id: string; // Referenced by MeterConfig.formula
+  name: string;
+  description: string;
+  compute: (
+    effective: EffectiveState,
+    lastMeter: number,
+    rng: () => number,
+    config: MeterConfig,
+  ) => MeterResult;
+}
+
+export const DEFAULT_METER_FORMULA = 'weighted-sum';
+
+// How strongly the bottleneck formula focuses on the weakest dimensions (lower = harsher)
+const BOTTLENECK_TEMPERATURE = 8;
+
+const DIMENSIONS: Array<keyof EffectiveState> = ['R', 'U', 'S', 'C', 'I'];
+
+/**
+ * Sigmoid function for normalization
+ */
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * Shared pipeline: sigmoid normalization, momentum, randomness, clamp and rubber-band check.
+ * `contributions` are each dimension's part of `raw`, recorded in the breakdown.
+ */
+export function finishMeter(
+  raw: number,
+  contributions: EffectiveState,
+  effective: EffectiveState,
+  lastMeter: number,
+  rng: () => number,
+  config: MeterConfig,
+): MeterResult {
+  const {
+    sigmoid: sigmoidConfig,
+    momentumBonus,
+    randomnessRange,
+    rubberBand,
+  } = config;
+
+  // Apply sigmoid normalization
+  const normalizedScore = (raw - sigmoidConfig.mu) / sigmoidConfig.sigma;
+  let meter = Math.round(100 * sigmoid(normalizedScore));
+  const sigmoidMeter = meter;
+
+  // Apply momentum bonus
+  let momentum = 0;
+  if (meter > lastMeter) {
+    momentum = momentumBonus;
+    meter += momentum;
+  }
+
+  // Apply randomness
+  const [minRand, maxRand] = randomnessRange;
+  const randomness = Math.round(rng() * (maxRand - minRand) + minRand);
+  meter += randomness;
+
+  // Clamp to valid range
+  const unclamped = meter;
+  meter = Math.max(0, Math.min(100, meter));
+
+  const adjustments: MeterAdjustment[] = [];
+  if (momentum !== 0)
+    adjustments.push({
+      source: 'momentum',
+      label: 'Momentum bonus for a rising meter',
+      meter: momentum,
+    });
+  if (randomness !== 0)
+    adjustments.push({
+      source: 'randomness',
+      label: 'Market randomness',
+      meter: randomness,
+    });
+  if (meter !== unclamped)
+    adjustments.push({
+      source: 'clamp',
+      label: 'Kept within 0–100',
+      meter: meter - unclamped,
+    });
+
+  return {
+    meter,
+    raw,
+    effective,
+    momentum,
+    randomness,
+    // Applied to the next step, not the current one
+    rubberBand: meter < rubberBand.threshold,
+    breakdown: { contributions, sigmoid: sigmoidMeter, adjustments },
+  };
+}
+
+// Map each dimension through `part`
+function byDimension(
+  part: (key: keyof EffectiveState) => number,
+): EffectiveState {
+  return {
+    R: part('R'),
+    U: part('U'),
+    S: part('S'),
+    C: part('C'),
+    I: part('I'),
+  };
+}
+
+// Weighted arithmetic mean of the dimensions (the original formula, docs/scaling-meter.md)
+const weightedSum: MeterFormula = {
+  id: 'weighted-sum',
+  name: 'Weighted sum',
+  description:
+    'Weighted sum of all dimensions; strong dimensions can carry weak ones',
+  compute: (effective, lastMeter, rng, config) => {
+    const contributions = byDimension(
+      (key) => config.weights[key] * effective[key],
+    );
+    const raw = DIMENSIONS.reduce((sum, key) => sum + contributions[key], 0);
+    return finishMeter(raw, contributions, effective, lastMeter, rng, config);
+  },
+};
+
+// Weighted geometric mean of (value + 1): a neglected dimension drags the whole score down
+const geometricMean: MeterFormula = {
+  id: 'geometric-mean',
+  name: 'Geometric mean',
+  description: 'Weighted geometric mean; punishes neglected dimensions',
+  compute: (effective, lastMeter, rng, config) => {
+    const totalWeight = DIMENSIONS.reduce(
+      (sum, key) => sum + config.weights[key],
+      0,
+    );
+    const logTerms = byDimension(
+      (key) => config.weights[key] * Math.log(effective[key] + 1),
+    );
+    const logSum = DIMENSIONS.reduce((sum, key) => sum + logTerms[key], 0);
+    const raw = totalWeight > 0 ? Math.exp(logSum / totalWeight) - 1 : 0;
+    // Split raw in proportion to each dimension's log term
+    const contributions = byDimension((key) =>
+      logSum > 0 ? (raw * logTerms[key]) / logSum : 0,
+    );
+    return finishMeter(raw, contributions, effective, lastMeter, rng, config);
+  },
+};
+
+// Weighted mean where a softmax over the negated values shifts weight to the weakest dimensions
+const softmaxBottleneck: MeterFormula = {
+  id: 'softmax-bottleneck',
+  name: 'Softmax bottleneck',
+  description:
+    'Weights shift toward the weakest dimensions; the bottleneck sets the pace',
+  compute: (effective, lastMeter, rng, config) => {
+    const lowest = Math.min(...DIMENSIONS.map((key) => effective[key]));
+    // Shift by the lowest value so exp() cannot overflow
+    const attention = DIMENSIONS.map(
+      (key) =>
+        config.weights[key] *
+        Math.exp(-(effective[key] - lowest) / BOTTLENECK_TEMPERATURE),
+    );
+    const totalAttention = attention.reduce((sum, value) => sum + value, 0);
+    const contributions = byDimension((key) =>
+      totalAttention > 0
+        ? (attention[DIMENSIONS.indexOf(key)] * effective[key]) / totalAttention
+        : 0,
+    );
+    const raw = DIMENSIONS.reduce((sum, key) => sum + contributions[key], 0);
+    return finishMeter(raw, contributions, effective, lastMeter, rng, config);
+  },
+};
+
+const registry = new Map<string, MeterFormula>(
+  [weightedSum, geometricMean, softmaxBottleneck].map((formula) => [
+    formula.id,
+    formula,
+  ]),
+);
+
+/**
+ * Register a formula so packs and config can select it by id; replaces a formula with the same id
+ */
+export function registerMeterFormula(formula: MeterFormula): void {
+  registry.set(formula.id, formula);
+}
+
+/**
+ * Whether a formula id is registered
+ */
+export function hasMeterFormula(id: string): boolean {
+  return registry.has(id);
+}
+
+/**
+ * Formula for an id; unknown ids fall back to the default formula
+ */
+export function getMeterFormula(id: string): MeterFormula {
+  return registry.get(id) ?? weightedSum;
+}
+
+/**
+ * All registered formulas in registration order
+ */
+export function getMeterFormulas(): MeterFormula[] {
+  return [...registry.values()];
+}
@@ -0,0 +1,341 @@
+import { loadContentPack } from './content-loader';
+import type { ContentPack } from './content-pack';
+import { getDefaultPack } from './default-pack';
+import { getMeterFormulas, hasMeterFormula } from './meter-formulas';
+import { formatDiagnostic } from './pack-diagnostics';
+import { diffContentPacks } from './pack-diff';
+import { lintContentPack } from './pack-lint';
+import {
+  compareMeterFormulas,
+  DEFAULT_BALANCE_SEEDS,
+  formatBalanceReport,
+  formatFormulaComparison,
+  simulateBalance,
+  simulateRuns,
+} from './pack-simulator';
+import { resolveMeterConfig } from './scaling-meter';
+
+/**
+ * Pack CLI
+ *
+ * Headless commands for pack authors and CI: validate, lint, simulate, compare formulas and diff pack files.
+ * Run with `npm run packs -- <command> ...`; the entry point is scripts/packs.ts.
+ */
+
+export interface CliIO {
+  out: (line: string) => void;
+  err: (line: string) => void;
+}
+
+// Exit codes: 0 success, 1 the pack failed the command, 2 bad usage
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+export const DEFAULT_SIMULATION_RUNS = 1000;
+const MAX_SIMULATION_RUNS = 100000;
+
+// Flags that take no value
+const BOOLEAN_FLAGS = ['json'];
+
+export const USAGE = [
+  'Usage: packs <command> [options]',
+  '',
+  'Commands:',
+  '  validate <file>                         Check a pack against the schema',
+  '  lint <file>                             Validate, then run design checks',
+  `  simulate <file> [--runs N] [--seed S]   Play N random seeded runs (default ${DEFAULT_SIMULATION_RUNS}, seed 0)`,
+  `  balance <file> [--seeds N] [--seed S]   Play every path with N seeds (default ${DEFAULT_BALANCE_SEEDS}) from seed S`,
+  '                  [--json]                Print the report as JSON',
+  '  formulas <file> [--seeds N] [--seed S]  Balance every meter formula side by side',
+  '                  [--json]                Print the comparison as JSON',
+  '  diff <a> <b>                            List changes between two packs',
+  '',
+  "simulate and balance take --formula <id> to override the pack's meter formula:",
+  `  ${getMeterFormulas()
+    .map((formula) => formula.id)
+    .join(', ')}`,
+].join('\n');
+
+const defaultIO: CliIO = {
+  out: (line) => console.log(line),
+  err: (line) => console.error(line),
+};
+
+/**
+ * Run one CLI command; resolves to the process exit code
+ */
+export async function runPackCli(
+  args: string[],
+  io: CliIO = defaultIO,
+): Promise<number> {
+  const [command, ...rest] = args;
+  const { positional, flags } = parseArgs(rest);
+
+  switch (command) {
+    case 'validate':
+      return positional.length === 1
+        ? validateCommand(positional[0], io)
+        : usageError(io, 'validate expects one file');
+    case 'lint':
+      return positional.length === 1
+        ? lintCommand(positional[0], io)
+        : usageError(io, 'lint expects one file');
+    case 'simulate': {
+      if (positional.length !== 1)
+        return usageError(io, 'simulate expects one file');
+      const runs = parseInteger(flags.runs, DEFAULT_SIMULATION_RUNS);
+      const seed = parseInteger(flags.seed, 0);
+      if (runs === null || runs < 1 || runs > MAX_SIMULATION_RUNS) {
+        return usageError(
+          io,
+          `--runs must be an integer from 1 to ${MAX_SIMULATION_RUNS}`,
+        );
+      }
+      if (seed === null) return usageError(io, '--seed must be an integer');
+      if (flags.formula !== undefined && !hasMeterFormula(flags.formula))
+        return unknownFormula(io, flags.formula);
+      return simulateCommand(positional[0], runs, seed, flags.formula, io);
+    }
+    case 'balance':
+    case 'formulas': {
+      if (positional.length !== 1)
+        return usageError(io, `${command} expects one file`);
+      const seeds = parseInteger(flags.seeds, DEFAULT_BALANCE_SEEDS);
+      const seed = parseInteger(flags.seed, 0);
+      if (seeds === null || seeds < 1 || seeds > MAX_SIMULATION_RUNS) {
+        return usageError(
+          io,
+          `--seeds must be an integer from 1 to ${MAX_SIMULATION_RUNS}`,
+        );
+      }
+      if (seed === null) return usageError(io, '--seed must be an integer');
+      if (command === 'formulas') {
+        return formulasCommand(positional[0], seeds, seed, 'json' in flags, io);
+      }
+      if (flags.formula !== undefined && !hasMeterFormula(flags.formula))
+        return unknownFormula(io, flags.formula);
+      return balanceCommand(
+        positional[0],
+        seeds,
+        seed,
+        flags.formula,
+        'json' in flags,
+        io,
+      );
+    }
+    case 'diff':
+      return positional.length === 2
+        ? diffCommand(positional[0], positional[1], io)
+        : usageError(io, 'diff expects two files');
+    case undefined:
+    case 'help':
+    case '--help':
+      io.out(USAGE);
+      return command === undefined ? EXIT_USAGE : EXIT_OK;
+    default:
+      return usageError(io, `Unknown command "${command}"`);
+  }
+}
+
+async function validateCommand(file: string, io: CliIO): Promise<number> {
+  const pack = await loadPackFile(file, io);
+  if (!pack) return EXIT_FAILURE;
+
+  io.out(
+    `✓ ${file}: ${pack.id}@${pack.version} "${pack.title}" is valid (${pack.steps.length} steps)`,
+  );
+  return EXIT_OK;
+}
+
+async function lintCommand(file: string, io: CliIO): Promise<number> {
+  const pack = await loadPackFile(file, io);
+  if (!pack) return EXIT_FAILURE;
+
+  const warnings = lintContentPack(pack);
+  for (const warning of warnings) {
+    io.out(
+      `[${warning.severity}] ${warning.rule} ${formatDiagnostic(warning)}`,
+    );
+  }
+
+  // Info lines are reports (meter ranges); only errors and warnings fail the lint
+  const problems = warnings.filter((warning) => warning.severity !== 'info');
+  if (problems.length > 0) {
+    io.out(
+      `✗ ${file}: ${problems.length} problem${problems.length === 1 ? '' : 's'}`,
+    );
+    return EXIT_FAILURE;
+  }
+  io.out(`✓ ${file}: no problems`);
+  return EXIT_OK;
+}
+
+async function simulateCommand(
+  file: string,
+  runs: number,
+  seed: number,
+  formula: string | undefined,
+  io: CliIO,
+): Promise<number> {
+  const pack = await loadPackFile(file, io);
+  if (!pack) return EXIT_FAILURE;
+
+  const summary = simulateRuns(pack, {
+    runs,
+    seed,
+    config: resolveMeterConfig({ ...pack.meterConfig, formula }),
+  });
+  const percent = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+  io.out(`${pack.id}@${pack.version}: ${runs} runs from seed ${seed}`);
+  io.out(
+    `Final meter: mean ${summary.meter.mean.toFixed(1)}, median ${summary.meter.median}, ` +
+      `min ${summary.meter.min}, max ${summary.meter.max}`,
+  );
+  io.out('Tiers:');
+  summary.tiers.forEach((tier) => {
+    io.out(
+      `  ${tier.emoji} ${tier.tier.padEnd(20)} ${tier.range.padStart(7)}  ${String(tier.runs).padStart(6)}  ${tier.percent.toFixed(1).padStart(5)}%`,
+    );
+  });
+  io.out(
+    `Unluck: ${percent(summary.unluckRate)} of steps · special unluck: ${percent(summary.specialUnluckRate)} of steps · ` +
+      `lucky break: ${percent(summary.luckyBreakRate)} of steps`,
+  );
+  return EXIT_OK;
+}
+
+async function balanceCommand(
+  file: string,
+  seeds: number,
+  seedStart: number,
+  formula: string | undefined,
+  json: boolean,
+  io: CliIO,
+): Promise<number> {
+  const pack = await loadPackFile(file, io);
+  if (!pack) return EXIT_FAILURE;
+
+  const report = simulateBalance(pack, {
+    seeds,
+    seedStart,
+    config: resolveMeterConfig({ ...pack.meterConfig, formula }),
+  });
+  io.out(json ? JSON.stringify(report, null, 2) : formatBalanceReport(report));
+  return EXIT_OK;
+}
+
+async function formulasCommand(
+  file: string,
+  seeds: number,
+  seedStart: number,
+  json: boolean,
+  io: CliIO,
+): Promise<number> {
+  const pack = await loadPackFile(file, io);
+  if (!pack) return EXIT_FAILURE;
+
+  const comparisons = compareMeterFormulas(pack, { seeds, seedStart });
+  io.out(
+    json
+      ? JSON.stringify(comparisons, null, 2)
+      : formatFormulaComparison(comparisons),
+  );
+  return EXIT_OK;
+}
+
+async function diffCommand(
+  fileA: string,
+  fileB: string,
+  io: CliIO,
+): Promise<number> {
+  const [a, b] = await Promise.all([
+    loadPackFile(fileA, io),
+    loadPackFile(fileB, io),
+  ]);
+  if (!a || !b) return EXIT_FAILURE;
+
+  const changes = diffContentPacks(a, b);
+  if (changes.length === 0) {
+    io.out(`${fileA} and ${fileB} are identical`);
+    return EXIT_OK;
+  }
+
+  const marker = { added: '+', removed: '-', changed: '~' } as const;
+  changes.forEach((change) => {
+    const values =
+      change.kind === 'changed'
+        ? `${change.before} → ${change.after}`
+        : (change.after ?? change.before);
+    io.out(`${marker[change.kind]} ${change.path}: ${values}`);
+  });
+  io.out(`${changes.length} change${changes.length === 1 ? '' : 's'}`);
+  // Like diff(1), differences exit 1
+  return EXIT_FAILURE;
+}
+
+// Loading with a fallback keeps structured diagnostics instead of one flattened error message
+async function loadPackFile(
+  file: string,
+  io: CliIO,
+): Promise<ContentPack | null> {
+  const result = await loadContentPack(file, {
+    fallbackPack: getDefaultPack(),
+  });
+  if (result.source !== 'fallback') {
+    return result.pack;
+  }
+
+  io.err(`✗ ${file}: invalid content pack`);
+  const lines = result.diagnostics?.length
+    ? result.diagnostics.map(formatDiagnostic)
+    : result.errors;
+  for (const line of lines) {
+    io.err(`  ${line}`);
+  }
+  return null;
+}
+
+function parseArgs(args: string[]): {
+  positional: string[];
+  flags: Record<string, string>;
+} {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith('--')) {
+      const [name, inline] = arg.slice(2).split('=', 2);
+      flags[name] =
+        inline ?? (BOOLEAN_FLAGS.includes(name) ? '' : (args[++i] ?? ''));
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { positional, flags };
+}
+
+function parseInteger(
+  value: string | undefined,
+  fallback: number,
+): number | null {
+  if (value === undefined) return fallback;
+  return /^-?\d+$/.test(value) ? Number(value) : null;
+}
+
+function unknownFormula(io: CliIO, formula: string): number {
+  const known = getMeterFormulas()
+    .map((candidate) => candidate.id)
+    .join(', ');
+  return usageError(
+    io,
+    `Unknown meter formula "${formula}" (expected one of: ${known})`,
+  );
+}
+
+function usageError(io: CliIO, message: string): number {
+  io.err(`Error: ${message}`);
+  io.err(USAGE);
+  return EXIT_USAGE;
+}
@@ -0,0 +1,344 @@
+import yaml from 'js-yaml';
+import type { ZodError } from 'zod';
+import { LEGACY_OPTION_IDS } from './content-pack';
+
+/**
+ * Pack Diagnostics
+ *
+ * Turns content pack validation failures into readable, structured diagnostics
+ * (path, message, expected vs. received, and YAML source position).
+ */
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface PackDiagnostic {
+  path: string; // e.g. "steps[2].optionB.delta.S"; "(root)" for the pack itself
+  message: string;
+  expected?: string;
+  received?: string;
+  severity: DiagnosticSeverity;
+  line?: number; // 1-based source line (YAML input only)
+  column?: number; // 1-based source column (YAML input only)
+}
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+// Maps a path in the parsed data back to where it was written
+export type SourceLocator = (path: PropertyKey[]) => SourcePosition | undefined;
+
+// Zod v4 issue fields read below; kept loose since issue shapes differ per code
+interface IssueLike {
+  code: string;
+  path: PropertyKey[];
+  message: string;
+  expected?: string;
+  origin?: string;
+  minimum?: number | bigint;
+  maximum?: number | bigint;
+  inclusive?: boolean;
+  format?: string;
+  pattern?: string;
+  values?: unknown[];
+  discriminator?: string;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Format a path as `steps[2].optionB.delta.S`
+ */
+export function formatDiagnosticPath(path: PropertyKey[]): string {
+  if (path.length === 0) {
+    return '(root)';
+  }
+  return path.reduce<string>((text, segment) => {
+    if (typeof segment === 'number') return `${text}[${segment}]`;
+    const key = String(segment);
+    if (!IDENTIFIER.test(key)) return `${text}[${JSON.stringify(key)}]`;
+    return text ? `${text}.${key}` : key;
+  }, '');
+}
+
+/**
+ * One-line summary, e.g. `steps[0].optionA.delta.R (line 12, column 16): Must be at most 15 (expected <= 15, received 20)`
+ */
+export function formatDiagnostic(diagnostic: PackDiagnostic): string {
+  const position = diagnostic.line
+    ? ` (line ${diagnostic.line}, column ${diagnostic.column})`
+    : '';
+  const details = [
+    diagnostic.expected && `expected ${diagnostic.expected}`,
+    diagnostic.received && `received ${diagnostic.received}`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+  return `${diagnostic.path}${position}: ${diagnostic.message}${details ? ` (${details})` : ''}`;
+}
+
+/**
+ * Map Zod issues from validating `input` to diagnostics
+ */
+export function getValidationDiagnostics(
+  error: ZodError,
+  input: unknown,
+  locate?: SourceLocator,
+): PackDiagnostic[] {
+  return (error.issues as IssueLike[]).map((issue) => {
+    const sourcePath = toSourcePath(issue.path, input);
+    const value = getValueAtPath(input, sourcePath);
+    const position = locate?.(sourcePath);
+    return {
+      path: formatDiagnosticPath(sourcePath),
+      ...describeIssue(issue, value),
+      severity: 'error' as const,
+      ...(position ?? {}),
+    };
+  });
+}
+
+/**
+ * Parse YAML and keep a locator for the source position of every node
+ */
+export function parseYamlWithLocations(content: string): {
+  data: unknown;
+  locate: SourceLocator;
+} {
+  interface YamlNode {
+    start: number;
+    result?: unknown;
+    kind?: string | null;
+    children: YamlNode[];
+  }
+
+  const root: YamlNode = { start: 0, children: [] };
+  const stack: YamlNode[] = [root];
+
+  const data = yaml.load(content, {
+    listener(eventType, state) {
+      if (eventType === 'open') {
+        stack.push({ start: state.position, children: [] });
+      } else {
+        const node = stack.pop();
+        if (!node) return;
+        node.result = state.result;
+        node.kind = state.kind;
+        stack[stack.length - 1].children.push(node);
+      }
+    },
+  });
+
+  // Explicit keys (`? key`) wrap their node once more; unwrap to the inner node
+  const unwrap = (node: YamlNode): YamlNode =>
+    node.children.length === 1 &&
+    node.kind === node.children[0].kind &&
+    node.result === node.children[0].result
+      ? unwrap(node.children[0])
+      : node;
+
+  const toPosition = (offset: number): SourcePosition => {
+    let start = offset;
+    while (start < content.length && /\s/.test(content[start])) start++;
+    const before = content.slice(0, start);
+    const line = before.split('\n').length;
+    return { line, column: start - before.lastIndexOf('\n') };
+  };
+
+  const locate: SourceLocator = (path) => {
+    let node = root.children[0] && unwrap(root.children[0]);
+    let position = node && toPosition(node.start);
+
+    for (const segment of path) {
+      if (!node) break;
+      let next: YamlNode | undefined;
+      let keyNode: YamlNode | undefined;
+
+      if (node.kind === 'sequence' && typeof segment === 'number') {
+        next = node.children[segment];
+      } else if (node.kind === 'mapping') {
+        for (let i = 0; i + 1 < node.children.length; i += 2) {
+          if (String(unwrap(node.children[i]).result) === String(segment)) {
+            keyNode = unwrap(node.children[i]);
+            next = unwrap(node.children[i + 1]);
+            break;
+          }
+        }
+      }
+
+      // Missing nodes keep the position of their nearest ancestor
+      if (!next) break;
+      position = toPosition((keyNode ?? next).start);
+      node = unwrap(next);
+    }
+
+    return position;
+  };
+
+  return { data, locate };
+}
+
+/**
+ * Diagnostic for YAML syntax errors, which carry their own position
+ */
+export function getYamlSyntaxDiagnostic(error: unknown): PackDiagnostic | null {
+  if (!(error instanceof yaml.YAMLException)) {
+    return null;
+  }
+  return {
+    path: '(root)',
+    message: `YAML syntax error: ${error.reason}`,
+    severity: 'error',
+    line: error.mark.line + 1,
+    column: error.mark.column + 1,
+  };
+}
+
+// Zod reports paths after legacy optionA/optionB were converted to `options`; point back at what was written
+function toSourcePath(path: PropertyKey[], input: unknown): PropertyKey[] {
+  const legacyKeys = Object.keys(LEGACY_OPTION_IDS);
+  const sourcePath: PropertyKey[] = [];
+  let value: unknown = input;
+
+  for (let i = 0; i < path.length; i++) {
+    const segment = path[i];
+    const next = path[i + 1];
+    if (
+      segment === 'options' &&
+      typeof next === 'number' &&
+      isRecord(value) &&
+      !('options' in value) &&
+      legacyKeys[next] &&
+      legacyKeys[next] in value
+    ) {
+      sourcePath.push(legacyKeys[next]);
+      value = value[legacyKeys[next]];
+      i++;
+      continue;
+    }
+    sourcePath.push(segment);
+    value =
+      isRecord(value) || Array.isArray(value)
+        ? (value as Record<PropertyKey, unknown>)[segment]
+        : undefined;
+  }
+
+  return sourcePath;
+}
+
+function getValueAtPath(input: unknown, path: PropertyKey[]): unknown {
+  return path.reduce<unknown>(
+    (value, segment) =>
+      isRecord(value) || Array.isArray(value)
+        ? (value as Record<PropertyKey, unknown>)[segment]
+        : undefined,
+    input,
+  );
+}
+
+function describeIssue(
+  issue: IssueLike,
+  value: unknown,
+): Pick<PackDiagnostic, 'message' | 'expected' | 'received'> {
+  const received = describeValue(value);
+
+  switch (issue.code) {
+    case 'invalid_type':
+      if (value === undefined) {
+        return { message: 'Missing required field', expected: issue.expected };
+      }
+      return {
+        message: `Must be ${withArticle(issue.expected ?? 'value')}`,
+        expected: issue.expected,
+        received,
+      };
+
+    case 'too_big':
+    case 'too_small': {
+      const big = issue.code === 'too_big';
+      const limit = Number(big ? issue.maximum : issue.minimum);
+      const operator = big
+        ? issue.inclusive === false
+          ? '<'
+          : '<='
+        : issue.inclusive === false
+          ? '>'
+          : '>=';
+      const bound = big ? 'at most' : 'at least';
+      if (issue.origin === 'string') {
+        return {
+          message: `Must be ${bound} ${limit} characters`,
+          expected: `${operator} ${limit} characters`,
+          received: `${String(value).length} characters`,
+        };
+      }
+      if (issue.origin === 'array') {
+        const count = Array.isArray(value) ? value.length : 0;
+        return {
+          message: `Must have ${bound} ${limit} items`,
+          expected: `${operator} ${limit} items`,
+          received: `${count} items`,
+        };
+      }
+      return {
+        message: `Must be ${bound} ${limit}`,
+        expected: `${operator} ${limit}`,
+        received,
+      };
+    }
+
+    case 'invalid_format':
+      if (issue.format === 'regex') {
+        return {
+          message: 'Does not match the required format',
+          expected: `match for ${issue.pattern}`,
+          received,
+        };
+      }
+      return {
+        message: `Must be a valid ${issue.format}`,
+        expected: issue.format,
+        received,
+      };
+
+    case 'invalid_value':
+      return {
+        message: 'Not an allowed value',
+        expected: (issue.values ?? [])
+          .map((allowed) => JSON.stringify(allowed))
+          .join(' | '),
+        received,
+      };
+
+    case 'invalid_union':
+      if (issue.discriminator) {
+        return { message: `Unknown ${issue.discriminator}`, received };
+      }
+      return { message: 'Does not match any allowed shape', received };
+
+    default:
+      return { message: issue.message };
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `array (${value.length} items)`;
+  if (typeof value === 'object') return 'object';
+  if (typeof value === 'string') {
+    return JSON.stringify(
+      value.length > 40 ? `${value.slice(0, 37)}...` : value,
+    );
+  }
+  return String(value);
+}
+
+function withArticle(word: string): string {
+  return /^[aeiou]/i.test(word) ? `an ${word}` : `a ${word}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
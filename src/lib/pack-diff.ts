@@ -0,0 +1,151 @@
+import type { ContentPack, Delta, Step, StepOption } from './content-pack';
+import { formatDiagnosticPath } from './pack-diagnostics';
+
+/**
+ * Pack Diff
+ *
+ * Compares two content packs field by field. Steps are matched by id and options by option id,
+ * so reordering options is not reported as a change to every field.
+ */
+
+export type PackChangeKind = 'added' | 'removed' | 'changed';
+
+export interface PackChange {
+  path: string; // e.g. "steps[1].options.B.delta.R"
+  kind: PackChangeKind;
+  before?: string; // Rendered old value (absent when added)
+  after?: string; // Rendered new value (absent when removed)
+}
+
+const PACK_FIELDS = [
+  'id',
+  'version',
+  'title',
+  'description',
+  'author',
+] as const;
+const STEP_FIELDS = ['title', 'subtitle', 'scenario', 'assets'] as const;
+const OPTION_FIELDS = [
+  'label',
+  'body',
+  'unluckMessages',
+  'next',
+  'routes',
+  'console',
+] as const;
+const DELTA_KEYS: Array<keyof Delta> = ['R', 'U', 'S', 'C', 'I'];
+
+/**
+ * List every difference between pack `a` and pack `b`
+ */
+export function diffContentPacks(a: ContentPack, b: ContentPack): PackChange[] {
+  const changes: PackChange[] = [];
+  const compare = (
+    path: PropertyKey[],
+    before: unknown,
+    after: unknown,
+    render = renderValue,
+  ) => {
+    if (isEqual(before, after)) return;
+    changes.push({
+      path: formatDiagnosticPath(path),
+      kind:
+        before === undefined
+          ? 'added'
+          : after === undefined
+            ? 'removed'
+            : 'changed',
+      ...(before !== undefined && { before: render(before) }),
+      ...(after !== undefined && { after: render(after) }),
+    });
+  };
+  const asText = (value: unknown) => String(value);
+
+  for (const field of PACK_FIELDS) {
+    compare([field], a[field], b[field]);
+  }
+  compare(['metadata', 'tags'], a.metadata?.tags, b.metadata?.tags);
+  compare(['meterConfig'], a.meterConfig, b.meterConfig);
+
+  const stepIds = mergeKeys(
+    a.steps.map((step) => step.id),
+    b.steps.map((step) => step.id),
+  );
+  stepIds.forEach((stepId) => {
+    const before = a.steps.find((step) => step.id === stepId);
+    const after = b.steps.find((step) => step.id === stepId);
+    const path = ['steps', stepId - 1];
+    if (!before || !after) {
+      compare(
+        path,
+        before && summarizeStep(before),
+        after && summarizeStep(after),
+        asText,
+      );
+      return;
+    }
+
+    for (const field of STEP_FIELDS) {
+      compare([...path, field], before[field], after[field]);
+    }
+
+    const optionIds = mergeKeys(
+      before.options.map((option) => option.id),
+      after.options.map((option) => option.id),
+    );
+    optionIds.forEach((optionId) => {
+      const oldOption = before.options.find((option) => option.id === optionId);
+      const newOption = after.options.find((option) => option.id === optionId);
+      const optionPath = [...path, 'options', optionId];
+      if (!oldOption || !newOption) {
+        compare(
+          optionPath,
+          oldOption && summarizeOption(oldOption),
+          newOption && summarizeOption(newOption),
+          asText,
+        );
+        return;
+      }
+
+      for (const field of OPTION_FIELDS) {
+        compare([...optionPath, field], oldOption[field], newOption[field]);
+      }
+      for (const key of DELTA_KEYS) {
+        compare(
+          [...optionPath, 'delta', key],
+          oldOption.delta[key],
+          newOption.delta[key],
+        );
+      }
+    });
+  });
+
+  return changes;
+}
+
+// Ids from `a` in order, then ids only found in `b`
+function mergeKeys<T>(a: T[], b: T[]): T[] {
+  return [...a, ...b.filter((key) => !a.includes(key))];
+}
+
+function summarizeStep(step: Step): string {
+  return `"${step.title}" (${step.options.map((option) => option.id).join('/')})`;
+}
+
+function summarizeOption(option: StepOption): string {
+  return `"${option.label}"`;
+}
+
+function renderValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return JSON.stringify(
+      value.length > 60 ? `${value.slice(0, 57)}...` : value,
+    );
+  }
+  const text = JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
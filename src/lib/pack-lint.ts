@@ -0,0 +1,292 @@
+import type { ContentPack, Delta } from './content-pack';
+import { formatDiagnosticPath, type PackDiagnostic } from './pack-diagnostics';
+import { explorePackPaths, formatPath, type PathOutcome } from './pack-paths';
+import {
+  getMeterTier,
+  getMeterTiers,
+  type MeterConfig,
+  resolveMeterConfig,
+} from './scaling-meter';
+
+/**
+ * Content Pack Lint
+ *
+ * Design checks that the schema cannot express: options that make no difference,
+ * dimensions that never move, uneven unluck copy, and meter tiers that no path reaches.
+ */
+
+export type LintRule =
+  | 'duplicate-step-id'
+  | 'identical-deltas'
+  | 'dimension-never-raised'
+  | 'one-sided-unluck-messages'
+  | 'breakout-unreachable'
+  | 'breakout-needs-luck'
+  | 'meter-range'
+  | 'paths-truncated';
+
+export interface LintWarning extends PackDiagnostic {
+  rule: LintRule;
+}
+
+export interface MeterRange {
+  min: number;
+  max: number;
+  minPath: string; // e.g. "1B → 2B → 3A"
+  maxPath: string;
+}
+
+export interface TierReach {
+  tier: string;
+  emoji: string;
+  range: string;
+  paths: number; // Paths ending in this tier without luck
+}
+
+export interface ReachableMeterRanges {
+  neutral: MeterRange; // No randomness, no unluck
+  lucky: MeterRange; // Upper bound: momentum and top randomness on the last step, strongest lucky breaks, no unluck
+  unlucky: MeterRange; // Lower bound: strongest unluck every step, lowest randomness, no momentum
+  tiers: TierReach[];
+  pathCount: number;
+  truncated: boolean;
+}
+
+// Lowest meter value of the top tier
+export const BREAKOUT_THRESHOLD = 85;
+
+const DIMENSIONS: Array<{ key: keyof Delta; name: string }> = [
+  { key: 'R', name: 'Revenue' },
+  { key: 'U', name: 'User Growth' },
+  { key: 'S', name: 'System Reliability' },
+  { key: 'C', name: 'Customer Love' },
+  { key: 'I', name: 'Investor Confidence' },
+];
+
+/**
+ * Final meter ranges over every path: with luck held neutral, and best-/worst-case bounds
+ */
+export function getReachableMeterRanges(
+  pack: ContentPack,
+  config: MeterConfig = resolveMeterConfig(pack.meterConfig),
+): ReachableMeterRanges {
+  const [minRandomness, maxRandomness] = config.randomnessRange;
+  const neutralConfig: MeterConfig = {
+    ...config,
+    randomnessRange: [0, 0],
+    unluck: { ...config.unluck, probability: 0 },
+    luckyBreak: { ...config.luckyBreak, probability: 0 },
+  };
+  const unluckyConfig: MeterConfig = {
+    ...neutralConfig,
+    unluck: {
+      probability: 1,
+      factorRange: [config.unluck.factorRange[0], config.unluck.factorRange[0]],
+    },
+  };
+  const maxLuckyFactor = config.luckyBreak.factorRange[1];
+  const luckyConfig: MeterConfig = {
+    ...neutralConfig,
+    luckyBreak: {
+      ...config.luckyBreak,
+      probability: 1,
+      factorRange: [maxLuckyFactor, maxLuckyFactor],
+    },
+  };
+
+  const neutral = explorePackPaths(pack, { config: neutralConfig });
+  const unlucky = explorePackPaths(pack, { config: unluckyConfig });
+  // Packs without lucky breaks share the neutral paths
+  const lucky =
+    config.luckyBreak.probability > 0
+      ? explorePackPaths(pack, { config: luckyConfig })
+      : neutral;
+
+  // Randomness only shifts each step's meter and whether it counts as a rise (momentum), so the bounds
+  // are the fully lucky last step's base meter plus momentum and top randomness, and the fully unlucky
+  // base meter plus the lowest randomness
+  const baseMeter = (outcome: PathOutcome) => {
+    const last = outcome.runState.history[outcome.runState.history.length - 1];
+    return last.meter - last.momentum - last.randomness;
+  };
+  const clamp = (meter: number) => Math.max(0, Math.min(100, meter));
+  const withMeter = (outcome: PathOutcome, meter: number): PathOutcome => ({
+    ...outcome,
+    runState: { ...outcome.runState, lastMeter: meter },
+  });
+
+  const tiers = getMeterTiers().map(({ tier, emoji, range }) => {
+    const paths = neutral.outcomes.filter(
+      (outcome) => getMeterTier(outcome.runState.lastMeter).tier === tier,
+    ).length;
+    return { tier, emoji, range, paths };
+  });
+
+  return {
+    neutral: toMeterRange(neutral.outcomes),
+    lucky: toMeterRange(
+      lucky.outcomes.map((outcome) =>
+        withMeter(
+          outcome,
+          clamp(baseMeter(outcome) + config.momentumBonus + maxRandomness),
+        ),
+      ),
+    ),
+    unlucky: toMeterRange(
+      unlucky.outcomes.map((outcome) =>
+        withMeter(outcome, clamp(baseMeter(outcome) + minRandomness)),
+      ),
+    ),
+    tiers,
+    pathCount: neutral.outcomes.length,
+    truncated: neutral.truncated,
+  };
+}
+
+/**
+ * Lint a content pack for design problems; returns warnings ordered by rule
+ */
+export function lintContentPack(
+  pack: ContentPack,
+  config: MeterConfig = resolveMeterConfig(pack.meterConfig),
+): LintWarning[] {
+  const warnings: LintWarning[] = [];
+  const warn = (
+    rule: LintRule,
+    severity: LintWarning['severity'],
+    path: PropertyKey[],
+    message: string,
+  ) => {
+    warnings.push({
+      rule,
+      severity,
+      path: formatDiagnosticPath(path),
+      message,
+    });
+  };
+
+  // Packs built in code can skip the schema, which would otherwise reject repeated ids
+  const firstIndexById = new Map<number, number>();
+  pack.steps.forEach((step, index) => {
+    const first = firstIndexById.get(step.id);
+    if (first !== undefined) {
+      warn(
+        'duplicate-step-id',
+        'error',
+        ['steps', index, 'id'],
+        `Duplicate step id ${step.id} (also used by steps[${first}])`,
+      );
+    } else {
+      firstIndexById.set(step.id, index);
+    }
+  });
+  if (warnings.length > 0) {
+    // Step ids double as graph positions; path checks below would be meaningless
+    return warnings;
+  }
+
+  pack.steps.forEach((step, stepIndex) => {
+    step.options.forEach((option, optionIndex) => {
+      const twin = step.options.findIndex(
+        (other, otherIndex) =>
+          otherIndex < optionIndex && isSameDelta(other.delta, option.delta),
+      );
+      if (twin >= 0) {
+        warn(
+          'identical-deltas',
+          'warning',
+          ['steps', stepIndex, 'options', optionIndex, 'delta'],
+          `Options ${step.options[twin].id} and ${option.id} of step ${step.id} have identical deltas, so the choice has no effect on the meter`,
+        );
+      }
+    });
+
+    const withMessages = step.options.filter(
+      (option) => (option.unluckMessages?.length ?? 0) > 0,
+    );
+    if (withMessages.length > 0 && withMessages.length < step.options.length) {
+      step.options.forEach((option, optionIndex) => {
+        if (!withMessages.includes(option)) {
+          warn(
+            'one-sided-unluck-messages',
+            'warning',
+            ['steps', stepIndex, 'options', optionIndex, 'unluckMessages'],
+            `Option ${option.id} of step ${step.id} has no unluck messages but ${withMessages.map((other) => other.id).join(', ')} do; it will fall back to generic copy`,
+          );
+        }
+      });
+    }
+  });
+
+  DIMENSIONS.forEach(({ key, name }) => {
+    const raised = pack.steps.some((step) =>
+      step.options.some((option) => option.delta[key] > 0),
+    );
+    if (!raised) {
+      warn(
+        'dimension-never-raised',
+        'warning',
+        ['steps'],
+        `No option raises ${key} (${name}); it can only stay at 0 or fall`,
+      );
+    }
+  });
+
+  const ranges = getReachableMeterRanges(pack, config);
+  if (ranges.lucky.max < BREAKOUT_THRESHOLD) {
+    warn(
+      'breakout-unreachable',
+      'warning',
+      [],
+      `No path reaches Breakout Trajectory (${BREAKOUT_THRESHOLD}+): the best path (${ranges.lucky.maxPath}) tops out at ${ranges.lucky.max} even with maximum luck`,
+    );
+  } else if (ranges.neutral.max < BREAKOUT_THRESHOLD) {
+    warn(
+      'breakout-needs-luck',
+      'info',
+      [],
+      `Breakout Trajectory (${BREAKOUT_THRESHOLD}+) needs luck: the best path (${ranges.neutral.maxPath}) reaches ${ranges.neutral.max} without randomness`,
+    );
+  }
+
+  const reached = ranges.tiers
+    .filter((tier) => tier.paths > 0)
+    .map((tier) => `${tier.tier} ${tier.paths}`);
+  warn(
+    'meter-range',
+    'info',
+    [],
+    `Final meter without luck ranges from ${ranges.neutral.min} (${ranges.neutral.minPath}) to ${ranges.neutral.max} (${ranges.neutral.maxPath}); ` +
+      `${ranges.unlucky.min}–${ranges.lucky.max} with luck. Paths per tier: ${reached.join(', ')}`,
+  );
+
+  if (ranges.truncated) {
+    warn(
+      'paths-truncated',
+      'info',
+      [],
+      `Only the first ${ranges.pathCount} paths were checked`,
+    );
+  }
+
+  return warnings;
+}
+
+function isSameDelta(a: Delta, b: Delta): boolean {
+  return DIMENSIONS.every(({ key }) => a[key] === b[key]);
+}
+
+function toMeterRange(outcomes: PathOutcome[]): MeterRange {
+  let min = outcomes[0];
+  let max = outcomes[0];
+  for (const outcome of outcomes) {
+    if (outcome.runState.lastMeter < min.runState.lastMeter) min = outcome;
+    if (outcome.runState.lastMeter > max.runState.lastMeter) max = outcome;
+  }
+  return {
+    min: min?.runState.lastMeter ?? 0,
+    max: max?.runState.lastMeter ?? 0,
+    minPath: min ? formatPath(min) : '',
+    maxPath: max ? formatPath(max) : '',
+  };
+}
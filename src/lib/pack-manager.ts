@@ -1,6 +1,17 @@
-import { ContentPack } from './content-pack';
+import { ContentPack, computePackHash } from './content-pack';
 import { loadContentPack, loadContentPackFromString, LoadResult } from './content-loader';
 import { getDefaultPack } from './default-pack';
+import {
+  DEFAULT_REGISTRY_URL,
+  type PackRegistry,
+  type PackSpecifier,
+  formatPackSpecifier,
+  parsePackSpecifier,
+  resolveEntryLocation,
+  resolveRegistryEntry,
+  validatePackRegistry,
+  verifyRegistryEntry,
+} from './pack-registry';
 
 /**
  * Pack Manager
@@ -11,8 +22,10 @@ import { getDefaultPack } from './default-pack';
 
 export interface PackManagerOptions {
   enableDevMode?: boolean;
+  enablePresenterMode?: boolean; // Undo/rewind controls for guided demos (also ?presenter)
   allowUrlOverride?: boolean;
   defaultPackId?: string;
+  registryUrl?: string; // Pack manifest location (default /packs/index.json)
 }
 
 export interface PackInfo {
@@ -20,8 +33,10 @@ export interface PackInfo {
   version: string;
   title: string;
   description?: string;
-  source: 'default' | 'url' | 'local' | 'embedded';
+  source: 'default' | 'url' | 'local' | 'embedded' | 'registry';
   isActive: boolean;
+  isLoaded: boolean;
+  tags?: string[];
 }
 
 export class PackManager {
@@ -29,11 +44,17 @@ export class PackManager {
   private availablePacks: Map<string, ContentPack> = new Map();
   private options: PackManagerOptions;
   private loadHistory: LoadResult[] = [];
+  private packUrls: Map<string, string> = new Map();
+  private registry: PackRegistry | null = null;
+  private registryRequest: Promise<PackRegistry | null> | null = null;
+  private registryErrors: string[] = [];
 
   constructor(options: PackManagerOptions = {}) {
     this.options = {
       enableDevMode: false,
+      enablePresenterMode: false,
       allowUrlOverride: true,
+      registryUrl: DEFAULT_REGISTRY_URL,
       ...options,
     };
 
@@ -51,33 +72,73 @@ export class PackManager {
   }
 
   /**
-   * Get information about all available packs
+   * Get information about all available packs: loaded packs plus every registry entry
    */
   getAvailablePacks(): PackInfo[] {
-    return Array.from(this.availablePacks.entries()).map(([id, pack]) => ({
+    const loaded = Array.from(this.availablePacks.values()).map(pack => ({
       id: pack.id,
       version: pack.version,
       title: pack.title,
       description: pack.description,
       source: this.getPackSource(pack.id),
       isActive: pack.id === this.currentPack.id,
+      isLoaded: true,
+      tags: this.getRegistryTags(pack.id, pack.version),
     }));
+
+    const published = (this.registry?.packs ?? [])
+      .filter(entry => !loaded.some(info => info.id === entry.id && info.version === entry.version))
+      .map(entry => ({
+        id: entry.id,
+        version: entry.version,
+        title: entry.title ?? entry.id,
+        source: 'registry' as const,
+        isActive: false,
+        isLoaded: false,
+        tags: entry.tags,
+      }));
+
+    return [...loaded, ...published];
+  }
+
+  /**
+   * Load the pack manifest once; later calls reuse the result
+   */
+  async loadRegistry(): Promise<PackRegistry | null> {
+    if (!this.registryRequest) {
+      this.registryRequest = this.fetchRegistry();
+    }
+    return this.registryRequest;
+  }
+
+  /**
+   * Errors from loading or validating the pack manifest
+   */
+  getRegistryErrors(): string[] {
+    return [...this.registryErrors];
   }
 
   /**
-   * Switch to a different content pack by ID
+   * Switch to a different content pack by ID, optionally pinned to a version ("id@1.2.0")
    */
   async switchToPack(packId: string): Promise<LoadResult | null> {
-    const pack = this.availablePacks.get(packId);
-    if (pack) {
+    const specifier = parsePackSpecifier(packId);
+    const pack = this.availablePacks.get(specifier.id);
+    if (pack && (!specifier.version || pack.version === specifier.version)) {
       this.currentPack = pack;
       this.updateUrlParam(packId);
       return null; // No loading needed, pack already available
     }
 
-    // Try to load pack from URL or other sources
+    // Try to load pack from the registry
     try {
-      const result = await this.loadPackById(packId);
+      const result = await this.loadPackById(specifier);
+      if (result.source === 'fallback') {
+        // The pack file failed to load or validate; keep its diagnostics and the current pack
+        const failed: LoadResult = { ...result, warnings: [`Keeping content pack ${this.currentPack.id}`] };
+        this.loadHistory.push(failed);
+        return failed;
+      }
       if (result.pack) {
         this.currentPack = result.pack;
         this.availablePacks.set(result.pack.id, result.pack);
@@ -87,11 +148,39 @@ export class PackManager {
       }
     } catch (error) {
       console.error(`Failed to switch to pack ${packId}:`, error);
+      // Report the failed switch like a fallback load so callers can warn the operator
+      const result: LoadResult = {
+        pack: this.currentPack,
+        source: 'fallback',
+        errors: [`Failed to load pack ${packId}: ${error instanceof Error ? error.message : String(error)}`],
+        warnings: [`Keeping content pack ${this.currentPack.id}`],
+      };
+      this.loadHistory.push(result);
+      return result;
     }
 
     return null;
   }
 
+  /**
+   * Whether reloading the app with a pack (see getPackReloadHref) brings back exactly that pack:
+   * packs from a URL are fetched again, the built-in default pack only exists in its current version,
+   * and other packs need a registry entry for their id@version with a matching checksum
+   */
+  canReloadPack(pack: { id: string; version: string; hash?: string; url?: string }): boolean {
+    if (pack.url) {
+      return true;
+    }
+
+    const defaultPack = getDefaultPack();
+    if (pack.id === defaultPack.id) {
+      return pack.version === defaultPack.version && (!pack.hash || pack.hash === computePackHash(defaultPack));
+    }
+
+    const entry = this.registry?.packs.find(candidate => candidate.id === pack.id && candidate.version === pack.version);
+    return Boolean(entry && (!entry.checksum || !pack.hash || entry.checksum === pack.hash));
+  }
+
   /**
    * Load a content pack from URL
    */
@@ -104,11 +193,21 @@ export class PackManager {
     if (result.pack) {
       this.availablePacks.set(result.pack.id, result.pack);
       this.loadHistory.push(result);
+      if (result.source === 'url') {
+        this.packUrls.set(result.pack.id, url);
+      }
     }
 
     return result;
   }
 
+  /**
+   * URL a pack was loaded from, if it came from ?packUrl= or loadPackFromUrl
+   */
+  getPackUrl(packId: string): string | undefined {
+    return this.packUrls.get(packId);
+  }
+
   /**
    * Load a content pack from string data
    */
@@ -131,6 +230,8 @@ export class PackManager {
       return null;
     }
 
+    await this.loadRegistry();
+
     const urlParams = this.getUrlParams();
     const packParam = urlParams.get('pack');
     const packUrlParam = urlParams.get('packUrl');
@@ -146,7 +247,7 @@ export class PackManager {
       } catch (error) {
         console.error('Failed to load pack from URL:', error);
       }
-    } else if (packParam && packParam !== this.currentPack.id) {
+    } else if (packParam && !this.isCurrentPack(parsePackSpecifier(packParam))) {
       // Switch to existing pack or try to load it
       return await this.switchToPack(packParam);
     }
@@ -188,6 +289,8 @@ export class PackManager {
       description: this.currentPack.description,
       source: this.getPackSource(this.currentPack.id),
       isActive: true,
+      isLoaded: true,
+      tags: this.getRegistryTags(this.currentPack.id, this.currentPack.version),
     };
   }
 
@@ -198,14 +301,26 @@ export class PackManager {
     return this.options.enableDevMode || this.getUrlParams().has('dev');
   }
 
+  /**
+   * Check if presenter mode is enabled (off in normal kiosk mode)
+   */
+  isPresenterModeEnabled(): boolean {
+    return this.options.enablePresenterMode || this.getUrlParams().has('presenter');
+  }
+
   // Private helper methods
 
-  private getPackSource(packId: string): 'default' | 'url' | 'local' | 'embedded' {
+  private getPackSource(packId: string): PackInfo['source'] {
     const defaultPack = getDefaultPack();
     if (packId === defaultPack.id) {
       return 'default';
     }
 
+    const pack = this.availablePacks.get(packId);
+    if (pack && !this.packUrls.has(packId) && this.registry?.packs.some(entry => entry.id === packId && entry.version === pack.version)) {
+      return 'registry';
+    }
+
     // Check load history for source information
     const historyEntry = this.loadHistory.find(entry => entry.pack.id === packId);
     if (historyEntry) {
@@ -215,31 +330,54 @@ export class PackManager {
     return 'embedded';
   }
 
-  private async loadPackById(packId: string): Promise<LoadResult> {
-    // This could be extended to support a registry of pack URLs
-    // For now, we'll try common patterns
-    const possibleUrls = [
-      `/packs/${packId}.json`,
-      `/packs/${packId}.yaml`,
-      `https://cdn.example.com/packs/${packId}.json`,
-    ];
+  private async loadPackById(specifier: PackSpecifier): Promise<LoadResult> {
+    const registry = await this.loadRegistry();
+    const entry = registry ? resolveRegistryEntry(registry, specifier) : undefined;
+    if (!entry) {
+      throw new Error(`Pack ${formatPackSpecifier(specifier)} not found in registry`);
+    }
 
-    for (const url of possibleUrls) {
-      try {
-        const result = await loadContentPack(url, {
-          fallbackPack: getDefaultPack(),
-          timeout: 3000,
-        });
-        if (result.pack && result.pack.id === packId) {
-          return result;
-        }
-      } catch (error) {
-        // Continue to next URL
-        continue;
+    const result = await loadContentPack(resolveEntryLocation(entry, this.getRegistryUrl()), {
+      fallbackPack: this.currentPack,
+      timeout: 3000,
+    });
+    if (result.source === 'fallback') {
+      return result;
+    }
+
+    const errors = verifyRegistryEntry(entry, result.pack);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    return result;
+  }
+
+  private async fetchRegistry(): Promise<PackRegistry | null> {
+    try {
+      const response = await fetch(this.getRegistryUrl());
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
+      this.registry = validatePackRegistry(await response.json());
+    } catch (error) {
+      this.registryErrors.push(`Failed to load pack registry: ${error instanceof Error ? error.message : String(error)}`);
+      this.registry = null;
     }
+    return this.registry;
+  }
+
+  private getRegistryUrl(): string {
+    const base = typeof window === 'undefined' ? 'http://localhost/' : window.location.href;
+    return new URL(this.options.registryUrl ?? DEFAULT_REGISTRY_URL, base).toString();
+  }
+
+  private getRegistryTags(packId: string, version: string): string[] | undefined {
+    return this.registry?.packs.find(entry => entry.id === packId && entry.version === version)?.tags;
+  }
 
-    throw new Error(`Pack ${packId} not found`);
+  private isCurrentPack(specifier: PackSpecifier): boolean {
+    return specifier.id === this.currentPack.id && (!specifier.version || specifier.version === this.currentPack.version);
   }
 
   private getUrlParams(): URLSearchParams {
@@ -257,7 +395,7 @@ export class PackManager {
     const url = new URL(window.location.href);
     const defaultPack = getDefaultPack();
     
-    if (packId === defaultPack.id) {
+    if (parsePackSpecifier(packId).id === defaultPack.id) {
       url.searchParams.delete('pack');
     } else {
       url.searchParams.set('pack', packId);
@@ -268,6 +406,23 @@ export class PackManager {
   }
 }
 
+/**
+ * Build the app URL that loads a given pack on startup (?packUrl= when known, else ?pack=id@version)
+ */
+export function getPackReloadHref(currentHref: string, pack: { id: string; version?: string; url?: string }): string {
+  const url = new URL(currentHref);
+  url.searchParams.delete('pack');
+  url.searchParams.delete('packUrl');
+
+  if (pack.url) {
+    url.searchParams.set('packUrl', pack.url);
+  } else if (pack.id !== getDefaultPack().id) {
+    url.searchParams.set('pack', formatPackSpecifier(pack));
+  }
+
+  return url.toString();
+}
+
 // Global pack manager instance
 let globalPackManager: PackManager | null = null;
 
@@ -0,0 +1,111 @@
+import type { ChoiceId, ContentPack } from './content-pack';
+import {
+  initializeRunState,
+  type MeterConfig,
+  type RunState,
+  resolveMeterConfig,
+  stepUpdate,
+} from './scaling-meter';
+import { resolveNextStep } from './step-graph';
+
+/**
+ * Pack Paths
+ *
+ * Plays every choice path through a pack with the scaling meter engine.
+ * Branching packs are followed the same way a run would follow them.
+ */
+
+// Upper bound on explored paths; 4 options over 10 steps would otherwise be ~1M runs
+export const MAX_EXPLORED_PATHS = 4096;
+
+export interface PathOutcome {
+  steps: number[]; // Step ids visited in order
+  choices: ChoiceId[]; // Option id picked on each visited step
+  runState: RunState; // Final engine state; runState.lastMeter is the final meter
+}
+
+export interface PathExploration {
+  outcomes: PathOutcome[];
+  truncated: boolean; // True when MAX_EXPLORED_PATHS (or the given limit) was hit
+}
+
+export interface ExploreOptions {
+  seed?: number; // Run seed (default 0)
+  config?: MeterConfig; // Defaults to the pack's meterConfig over DEFAULT_CONFIG
+  limit?: number;
+}
+
+/**
+ * Play every path through the pack from step 1 to the end
+ */
+export function explorePackPaths(
+  pack: ContentPack,
+  options: ExploreOptions = {},
+): PathExploration {
+  const {
+    seed = 0,
+    config = resolveMeterConfig(pack.meterConfig),
+    limit = MAX_EXPLORED_PATHS,
+  } = options;
+  const totalSteps = pack.steps.length;
+  const outcomes: PathOutcome[] = [];
+  let truncated = false;
+
+  const visit = (
+    stepId: number,
+    runState: RunState,
+    steps: number[],
+    choices: ChoiceId[],
+  ) => {
+    const step = pack.steps.find((candidate) => candidate.id === stepId);
+    if (!step) return;
+
+    for (const option of step.options) {
+      if (outcomes.length >= limit) {
+        truncated = true;
+        return;
+      }
+
+      const { newRunState, result } = stepUpdate(
+        runState,
+        option.delta,
+        option.id,
+        config,
+        stepId,
+      );
+      const visitedSteps = [...steps, stepId];
+      const madeChoices = [...choices, option.id];
+      const next = resolveNextStep(
+        option,
+        { state: newRunState.state, meter: result.meter },
+        stepId,
+        totalSteps,
+        madeChoices.length,
+      );
+
+      if (next === 'end') {
+        outcomes.push({
+          steps: visitedSteps,
+          choices: madeChoices,
+          runState: newRunState,
+        });
+      } else {
+        visit(next, newRunState, visitedSteps, madeChoices);
+      }
+    }
+  };
+
+  visit(1, initializeRunState(seed), [], []);
+  return { outcomes, truncated };
+}
+
+/**
+ * Short label for a path, e.g. "1A → 2A → 3B"
+ */
+export function formatPath(
+  outcome: Pick<PathOutcome, 'steps' | 'choices'>,
+): string {
+  return outcome.steps
+    .map((stepId, index) => `${stepId}${outcome.choices[index]}`)
+    .join(' → ');
+}
@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import {
+  type ContentPack,
+  ContentPackSchema,
+  computePackHash,
+} from './content-pack';
+
+/**
+ * Pack Registry
+ *
+ * Schema and lookup helpers for the `packs/index.json` manifest that lists the
+ * content packs operators have published (see docs/content-packs.md).
+ */
+
+// Default location of the manifest, served from public/packs/index.json
+export const DEFAULT_REGISTRY_URL = '/packs/index.json';
+
+// One published version of a pack
+export const RegistryEntrySchema = z.object({
+  id: ContentPackSchema.shape.id, // Pack id, must match the id inside the pack file
+  version: ContentPackSchema.shape.version, // Pack version, must match the version inside the pack file
+  title: z.string().min(1).max(100).optional(), // Display title before the pack is loaded
+  location: z.string().min(1).max(500), // Pack file URL, relative to the manifest or absolute
+  checksum: z
+    .string()
+    .regex(/^[0-9a-f]{8}$/)
+    .optional(), // computePackHash() of the pack
+  tags: z.array(z.string().min(1).max(30)).max(20).optional(), // Optional tags for filtering
+});
+
+// The manifest itself
+export const PackRegistrySchema = z
+  .object({
+    packs: z.array(RegistryEntrySchema).max(200),
+  })
+  .superRefine((registry, ctx) => {
+    const seen = new Set<string>();
+    registry.packs.forEach((entry, index) => {
+      const key = `${entry.id}@${entry.version}`;
+      if (seen.has(key)) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `Duplicate registry entry ${key}`,
+          path: ['packs', index],
+        });
+      }
+      seen.add(key);
+    });
+  });
+
+export type RegistryEntry = z.infer<typeof RegistryEntrySchema>;
+export type PackRegistry = z.infer<typeof PackRegistrySchema>;
+
+// A pack reference as written in ?pack=, e.g. "my-pack" or "my-pack@1.2.0"
+export interface PackSpecifier {
+  id: string;
+  version?: string;
+}
+
+export function validatePackRegistry(data: unknown): PackRegistry {
+  return PackRegistrySchema.parse(data);
+}
+
+// Split "id@version" into its parts; a bare id means "latest"
+export function parsePackSpecifier(specifier: string): PackSpecifier {
+  const at = specifier.lastIndexOf('@');
+  if (at <= 0) {
+    return { id: specifier };
+  }
+  return {
+    id: specifier.slice(0, at),
+    version: specifier.slice(at + 1) || undefined,
+  };
+}
+
+export function formatPackSpecifier({ id, version }: PackSpecifier): string {
+  return version ? `${id}@${version}` : id;
+}
+
+// Compare two x.y.z versions numerically
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// Find the entry for an exact version, or the highest version of the pack when none is given
+export function resolveRegistryEntry(
+  registry: PackRegistry,
+  specifier: PackSpecifier,
+): RegistryEntry | undefined {
+  const candidates = registry.packs.filter(
+    (entry) => entry.id === specifier.id,
+  );
+  if (specifier.version) {
+    return candidates.find((entry) => entry.version === specifier.version);
+  }
+  return candidates.reduce<RegistryEntry | undefined>(
+    (latest, entry) =>
+      !latest || compareVersions(entry.version, latest.version) > 0
+        ? entry
+        : latest,
+    undefined,
+  );
+}
+
+// Resolve an entry location against the manifest URL so relative paths work from any page
+export function resolveEntryLocation(
+  entry: RegistryEntry,
+  registryUrl: string,
+): string {
+  return new URL(entry.location, registryUrl).toString();
+}
+
+// Check that a loaded pack is the one the entry describes
+export function verifyRegistryEntry(
+  entry: RegistryEntry,
+  pack: ContentPack,
+): string[] {
+  const errors: string[] = [];
+  if (pack.id !== entry.id || pack.version !== entry.version) {
+    errors.push(
+      `Registry entry ${entry.id}@${entry.version} points to ${pack.id}@${pack.version}`,
+    );
+  }
+  if (entry.checksum) {
+    const checksum = computePackHash(pack);
+    if (checksum !== entry.checksum) {
+      errors.push(
+        `Checksum mismatch for ${entry.id}@${entry.version} (expected ${entry.checksum}, got ${checksum})`,
+      );
+    }
+  }
+  return errors;
+}
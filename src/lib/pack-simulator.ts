@@ -0,0 +1,444 @@
+import type { ChoiceId, ContentPack } from './content-pack';
+import { getMeterFormula, getMeterFormulas } from './meter-formulas';
+import { explorePackPaths, formatPath } from './pack-paths';
+import {
+  getMeterTier,
+  getMeterTiers,
+  initializeRunState,
+  type MeterConfig,
+  mulberry32,
+  type RunState,
+  resolveMeterConfig,
+  stepUpdate,
+} from './scaling-meter';
+import { resolveNextStep } from './step-graph';
+
+/**
+ * Pack Simulator
+ *
+ * Plays seeded runs through a pack with the scaling meter engine and summarizes the final
+ * meter distribution: random choices (`simulateRuns`) or every choice path × a range of seeds
+ * (`simulateBalance`, the Monte Carlo check used to tune `MeterConfig`), optionally once per
+ * meter formula (`compareMeterFormulas`).
+ */
+
+export interface SimulationOptions {
+  runs: number;
+  seed: number; // Run i uses seed + i
+  config?: MeterConfig; // Defaults to the pack's meterConfig over DEFAULT_CONFIG
+}
+
+export interface SimulatedRun {
+  seed: number;
+  steps: number[];
+  choices: ChoiceId[];
+  runState: RunState;
+}
+
+export interface SimulationSummary {
+  runs: number;
+  seed: number;
+  meter: { mean: number; median: number; min: number; max: number };
+  tiers: Array<{
+    tier: string;
+    emoji: string;
+    range: string;
+    runs: number;
+    percent: number;
+  }>;
+  unluckRate: number; // Share of all steps where unluck fired
+  specialUnluckRate: number; // Share of all steps where special unluck fired
+  luckyBreakRate: number; // Share of all steps where a lucky break fired
+}
+
+// Keeps option picks independent from the engine's per-step rng for the same seed
+const CHOICE_SEED_SALT = 0x9e3779b9;
+
+/**
+ * Play one run, picking a random option on every step
+ */
+export function simulateRun(
+  pack: ContentPack,
+  seed: number,
+  config: MeterConfig = resolveMeterConfig(pack.meterConfig),
+): SimulatedRun {
+  const pick = mulberry32(seed ^ CHOICE_SEED_SALT);
+  const totalSteps = pack.steps.length;
+  let runState = initializeRunState(seed);
+  const steps: number[] = [];
+  const choices: ChoiceId[] = [];
+  let stepId: number | 'end' = 1;
+
+  while (stepId !== 'end') {
+    const currentId: number = stepId;
+    const step = pack.steps.find((candidate) => candidate.id === currentId);
+    if (!step) break;
+
+    const option = step.options[Math.floor(pick() * step.options.length)];
+    const { newRunState, result } = stepUpdate(
+      runState,
+      option.delta,
+      option.id,
+      config,
+      step.id,
+    );
+    runState = newRunState;
+    steps.push(step.id);
+    choices.push(option.id);
+    stepId = resolveNextStep(
+      option,
+      { state: runState.state, meter: result.meter },
+      step.id,
+      totalSteps,
+      choices.length,
+    );
+  }
+
+  return { seed, steps, choices, runState };
+}
+
+/**
+ * Play `runs` seeded runs and summarize them
+ */
+export function simulateRuns(
+  pack: ContentPack,
+  options: SimulationOptions,
+): SimulationSummary {
+  const { runs, seed, config = resolveMeterConfig(pack.meterConfig) } = options;
+  const results = Array.from({ length: runs }, (_, index) =>
+    simulateRun(pack, seed + index, config),
+  );
+  const meters = results
+    .map((run) => run.runState.lastMeter)
+    .sort((a, b) => a - b);
+  const history = results.flatMap((run) => run.runState.history);
+  const share = (count: number, total: number) =>
+    total > 0 ? count / total : 0;
+
+  const middle = Math.floor(meters.length / 2);
+  const median =
+    meters.length === 0
+      ? 0
+      : meters.length % 2 === 1
+        ? meters[middle]
+        : (meters[middle - 1] + meters[middle]) / 2;
+
+  return {
+    runs,
+    seed,
+    meter: {
+      mean: share(
+        meters.reduce((sum, meter) => sum + meter, 0),
+        meters.length,
+      ),
+      median,
+      min: meters[0] ?? 0,
+      max: meters[meters.length - 1] ?? 0,
+    },
+    tiers: getMeterTiers().map(({ tier, emoji, range }) => {
+      const count = meters.filter(
+        (meter) => getMeterTier(meter).tier === tier,
+      ).length;
+      return {
+        tier,
+        emoji,
+        range,
+        runs: count,
+        percent: share(count, runs) * 100,
+      };
+    }),
+    unluckRate: share(
+      history.filter((result) => result.unluckApplied).length,
+      history.length,
+    ),
+    specialUnluckRate: share(
+      history.filter((result) => result.specialUnluckApplied).length,
+      history.length,
+    ),
+    luckyBreakRate: share(
+      history.filter((result) => result.luckyBreakApplied).length,
+      history.length,
+    ),
+  };
+}
+
+export interface BalanceOptions {
+  seeds?: number; // Seeds per path (default DEFAULT_BALANCE_SEEDS)
+  seedStart?: number; // First seed (default 0)
+  config?: MeterConfig; // Defaults to the pack's meterConfig over DEFAULT_CONFIG
+  limit?: number; // Path limit per seed, see explorePackPaths
+}
+
+export interface PathBalance {
+  path: string; // e.g. "1A → 2A → 3B"
+  runs: number;
+  mean: number;
+  min: number;
+  max: number;
+  breakoutPercent: number; // Share of runs ending in the top tier
+}
+
+export interface BalanceReport {
+  pack: { id: string; version: string };
+  seeds: number;
+  seedStart: number;
+  pathCount: number; // Distinct choice paths seen over all seeds
+  runs: number; // Paths × seeds actually played
+  truncated: boolean;
+  meter: {
+    mean: number;
+    median: number;
+    p10: number;
+    p90: number;
+    min: number;
+    max: number;
+  };
+  distribution: Array<{
+    from: number;
+    to: number;
+    runs: number;
+    percent: number;
+  }>; // 10-point buckets
+  tiers: Array<{
+    tier: string;
+    emoji: string;
+    range: string;
+    runs: number;
+    percent: number;
+  }>;
+  unluckRate: number; // Share of all steps where unluck fired
+  specialUnluckRate: number; // Share of all steps where special unluck fired
+  luckyBreakRate: number; // Share of all steps where a lucky break fired
+  best: PathBalance[]; // Highest mean final meter first
+  worst: PathBalance[]; // Lowest mean final meter first
+}
+
+export const DEFAULT_BALANCE_SEEDS = 200;
+const REPORTED_PATHS = 5;
+
+/**
+ * Play every choice path with each seed in [seedStart, seedStart + seeds) and report balance
+ */
+export function simulateBalance(
+  pack: ContentPack,
+  options: BalanceOptions = {},
+): BalanceReport {
+  const {
+    seeds = DEFAULT_BALANCE_SEEDS,
+    seedStart = 0,
+    config = resolveMeterConfig(pack.meterConfig),
+    limit,
+  } = options;
+  const meters: number[] = [];
+  const byPath = new Map<string, number[]>();
+  let steps = 0;
+  let unlucky = 0;
+  let special = 0;
+  let lucky = 0;
+  let truncated = false;
+
+  // Routes can depend on the meter, so each seed explores its own set of paths
+  for (let seed = seedStart; seed < seedStart + seeds; seed++) {
+    const exploration = explorePackPaths(pack, { seed, config, limit });
+    truncated = truncated || exploration.truncated;
+    for (const outcome of exploration.outcomes) {
+      const { lastMeter, history } = outcome.runState;
+      meters.push(lastMeter);
+      const path = formatPath(outcome);
+      const pathMeters = byPath.get(path) ?? [];
+      pathMeters.push(lastMeter);
+      byPath.set(path, pathMeters);
+      steps += history.length;
+      unlucky += history.filter((result) => result.unluckApplied).length;
+      special += history.filter((result) => result.specialUnluckApplied).length;
+      lucky += history.filter((result) => result.luckyBreakApplied).length;
+    }
+  }
+
+  const sorted = [...meters].sort((a, b) => a - b);
+  const share = (count: number, total: number) =>
+    total > 0 ? count / total : 0;
+  const percentile = (p: number) =>
+    sorted.length > 0
+      ? sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]
+      : 0;
+  const topTier = getMeterTiers()[0].tier;
+
+  const paths: PathBalance[] = [...byPath].map(([path, values]) => ({
+    path,
+    runs: values.length,
+    mean: share(
+      values.reduce((sum, meter) => sum + meter, 0),
+      values.length,
+    ),
+    min: Math.min(...values),
+    max: Math.max(...values),
+    breakoutPercent:
+      share(
+        values.filter((meter) => getMeterTier(meter).tier === topTier).length,
+        values.length,
+      ) * 100,
+  }));
+  const byMean = [...paths].sort((a, b) => b.mean - a.mean);
+
+  return {
+    pack: { id: pack.id, version: pack.version },
+    seeds,
+    seedStart,
+    pathCount: paths.length,
+    runs: meters.length,
+    truncated,
+    meter: {
+      mean: share(
+        sorted.reduce((sum, meter) => sum + meter, 0),
+        sorted.length,
+      ),
+      median: percentile(0.5),
+      p10: percentile(0.1),
+      p90: percentile(0.9),
+      min: sorted[0] ?? 0,
+      max: sorted[sorted.length - 1] ?? 0,
+    },
+    distribution: Array.from({ length: 10 }, (_, bucket) => {
+      const from = bucket * 10;
+      const to = bucket === 9 ? 100 : from + 9;
+      const count = sorted.filter(
+        (meter) => meter >= from && meter <= to,
+      ).length;
+      return {
+        from,
+        to,
+        runs: count,
+        percent: share(count, sorted.length) * 100,
+      };
+    }),
+    tiers: getMeterTiers().map(({ tier, emoji, range }) => {
+      const count = sorted.filter(
+        (meter) => getMeterTier(meter).tier === tier,
+      ).length;
+      return {
+        tier,
+        emoji,
+        range,
+        runs: count,
+        percent: share(count, sorted.length) * 100,
+      };
+    }),
+    unluckRate: share(unlucky, steps),
+    specialUnluckRate: share(special, steps),
+    luckyBreakRate: share(lucky, steps),
+    best: byMean.slice(0, REPORTED_PATHS),
+    worst: byMean.slice(-REPORTED_PATHS).reverse(),
+  };
+}
+
+export interface FormulaComparison {
+  formula: { id: string; name: string };
+  report: BalanceReport;
+}
+
+/**
+ * Run the same balance simulation once per meter formula (default: every registered formula)
+ */
+export function compareMeterFormulas(
+  pack: ContentPack,
+  options: BalanceOptions & { formulas?: string[] } = {},
+): FormulaComparison[] {
+  const {
+    formulas = getMeterFormulas().map((formula) => formula.id),
+    config = resolveMeterConfig(pack.meterConfig),
+    ...rest
+  } = options;
+  return formulas.map((id) => {
+    const { name } = getMeterFormula(id);
+    return {
+      formula: { id, name },
+      report: simulateBalance(pack, {
+        ...rest,
+        config: { ...config, formula: id },
+      }),
+    };
+  });
+}
+
+/**
+ * Plain-text tables for a balance report
+ */
+export function formatBalanceReport(report: BalanceReport): string {
+  const fixed = (value: number) => value.toFixed(1);
+  const percent = (share: number) => `${(share * 100).toFixed(1)}%`;
+  const bar = (value: number) => '█'.repeat(Math.round(value / 2));
+  const pathWidth = Math.max(
+    4,
+    ...[...report.best, ...report.worst].map((path) => path.path.length),
+  );
+  const pathRows = (paths: PathBalance[]) =>
+    paths.map(
+      (path) =>
+        `  ${path.path.padEnd(pathWidth)}  ${fixed(path.mean).padStart(5)}  ${String(path.min).padStart(3)}–${String(path.max).padEnd(3)}  ${fixed(path.breakoutPercent).padStart(5)}%`,
+    );
+  const pathHeader = `  ${'Path'.padEnd(pathWidth)}  ${'Mean'.padStart(5)}  ${'Range'.padEnd(7)}  Breakout`;
+
+  return [
+    `${report.pack.id}@${report.pack.version}: ${report.pathCount} paths × ${report.seeds} seeds (from ${report.seedStart}) = ${report.runs} runs` +
+      (report.truncated ? ' (paths truncated)' : ''),
+    '',
+    `Final meter: mean ${fixed(report.meter.mean)}, median ${report.meter.median}, p10 ${report.meter.p10}, p90 ${report.meter.p90}, ` +
+      `min ${report.meter.min}, max ${report.meter.max}`,
+    '',
+    'Distribution:',
+    ...report.distribution.map(
+      (bucket) =>
+        `  ${`${bucket.from}-${bucket.to}`.padStart(6)}  ${fixed(bucket.percent).padStart(5)}%  ${bar(bucket.percent)}`,
+    ),
+    '',
+    'Tiers:',
+    ...report.tiers.map(
+      (tier) =>
+        `  ${tier.emoji} ${tier.tier.padEnd(20)} ${tier.range.padStart(7)}  ${String(tier.runs).padStart(7)}  ${fixed(tier.percent).padStart(5)}%`,
+    ),
+    '',
+    `Unluck: ${percent(report.unluckRate)} of steps · special unluck: ${percent(report.specialUnluckRate)} of steps · ` +
+      `lucky break: ${percent(report.luckyBreakRate)} of steps`,
+    '',
+    'Best paths:',
+    pathHeader,
+    ...pathRows(report.best),
+    '',
+    'Worst paths:',
+    pathHeader,
+    ...pathRows(report.worst),
+  ].join('\n');
+}
+
+/**
+ * Plain-text side-by-side table for a formula comparison
+ */
+export function formatFormulaComparison(
+  comparisons: FormulaComparison[],
+): string {
+  const fixed = (value: number) => value.toFixed(1);
+  const idWidth = Math.max(
+    7,
+    ...comparisons.map(({ formula }) => formula.id.length),
+  );
+  const first = comparisons[0]?.report;
+  const topTier = getMeterTiers()[0].tier;
+
+  return [
+    first
+      ? `${first.pack.id}@${first.pack.version}: ${first.pathCount} paths × ${first.seeds} seeds (from ${first.seedStart}) per formula`
+      : 'No formulas to compare',
+    '',
+    `  ${'Formula'.padEnd(idWidth)}  ${'Mean'.padStart(5)}  ${'Median'.padStart(6)}  ${'p10'.padStart(3)}  ${'p90'.padStart(3)}  ${'Range'.padEnd(7)}  Breakout`,
+    ...comparisons.map(({ formula, report }) => {
+      const breakout =
+        report.tiers.find((tier) => tier.tier === topTier)?.percent ?? 0;
+      return (
+        `  ${formula.id.padEnd(idWidth)}  ${fixed(report.meter.mean).padStart(5)}  ${String(report.meter.median).padStart(6)}  ` +
+        `${String(report.meter.p10).padStart(3)}  ${String(report.meter.p90).padStart(3)}  ` +
+        `${String(report.meter.min).padStart(3)}–${String(report.meter.max).padEnd(3)}  ${fixed(breakout).padStart(5)}%`
+      );
+    }),
+  ].join('\n');
+}
@@ -0,0 +1,78 @@
+import { type ChoiceId, ChoiceIdSchema } from './content-pack';
+import { getPackReloadHref } from './pack-manager';
+import { formatPackSpecifier, parsePackSpecifier } from './pack-registry';
+
+/**
+ * Run Codes
+ *
+ * Compact, URL-safe text that reproduces a run: the pack id and version, the seed and the option id
+ * picked on each step, e.g. "ai-cofounder-default@1.0.0~1x2g8k~A.B.B.A.A". Replaying the choices with the
+ * same seed on the same pack gives the same meter at every step (`replayChoices` in RunStateContext).
+ */
+
+export interface RunCode {
+  pack: { id: string; version: string };
+  seed: number;
+  choices: ChoiceId[]; // Option ids in the order they were picked
+}
+
+// Query parameter that opens a run code in the replay viewer
+export const REPLAY_PARAM = 'replay';
+
+const SEPARATOR = '~';
+const CHOICE_SEPARATOR = '.';
+const SEED_PATTERN = /^[0-9a-z]+$/;
+
+/**
+ * Encode a run as "<pack id>@<version>~<seed in base 36>~<choice>.<choice>..."
+ */
+export function encodeRunCode({ pack, seed, choices }: RunCode): string {
+  return [
+    formatPackSpecifier(pack),
+    seed.toString(36),
+    choices.join(CHOICE_SEPARATOR),
+  ].join(SEPARATOR);
+}
+
+/**
+ * Decode a run code; returns null when it is malformed
+ */
+export function decodeRunCode(code: string): RunCode | null {
+  // Seed and choices cannot contain the separator, so split from the right; pack ids may
+  const choicesAt = code.lastIndexOf(SEPARATOR);
+  const seedAt = code.lastIndexOf(SEPARATOR, choicesAt - 1);
+  if (seedAt <= 0) {
+    return null;
+  }
+
+  const { id, version } = parsePackSpecifier(code.slice(0, seedAt));
+  const seedText = code.slice(seedAt + 1, choicesAt);
+  const choicesText = code.slice(choicesAt + 1);
+  const seed = Number.parseInt(seedText, 36);
+  const choices = choicesText ? choicesText.split(CHOICE_SEPARATOR) : [];
+
+  if (
+    !version ||
+    !SEED_PATTERN.test(seedText) ||
+    !Number.isSafeInteger(seed) ||
+    !choices.every((choice) => ChoiceIdSchema.safeParse(choice).success)
+  ) {
+    return null;
+  }
+
+  return { pack: { id, version }, seed, choices };
+}
+
+/**
+ * Link that opens a run code in the replay viewer with its pack loaded
+ * (`pack.url` is the source of packs loaded with ?packUrl=)
+ */
+export function getReplayHref(
+  currentHref: string,
+  code: string,
+  pack: { id: string; version: string; url?: string },
+): string {
+  const url = new URL(getPackReloadHref(currentHref, pack));
+  url.searchParams.set(REPLAY_PARAM, code);
+  return url.toString();
+}
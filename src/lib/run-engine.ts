@@ -0,0 +1,269 @@
+import {
+  type ChoiceId,
+  type ContentPack,
+  type Delta,
+  getStepCount,
+  getStepOption,
+  type NextStep,
+} from './content-pack';
+import {
+  type EffectiveState,
+  initializeRunState,
+  type MeterConfig,
+  type RunState,
+  resolveMeterConfig,
+  stepUpdate,
+} from './scaling-meter';
+import { resolveNextStep } from './step-graph';
+
+/**
+ * Run Engine
+ *
+ * A run is an append-only log of events. Everything shown for it (meter, path, history) is derived
+ * by folding the log over `stepUpdate`, so persistence, replays, undo and analytics all read the
+ * same source: dropping events from the end of the log is an undo, folding it on another pack is a
+ * migration.
+ */
+
+// First event of every run: the seed and the pack it is played on
+export interface RunStarted {
+  type: 'RunStarted';
+  seed: number;
+  pack: { id: string; version: string };
+}
+
+// Option picked on a step
+export interface ChoiceMade {
+  type: 'ChoiceMade';
+  step: number; // Step id the option was picked on
+  option: ChoiceId;
+  forceUnluck?: boolean; // Operator override: this choice rolled unluck
+}
+
+// Move on to the step the last choice leads to, or (operator jump) to `step`
+export interface StepAdvanced {
+  type: 'StepAdvanced';
+  step?: number;
+}
+
+export type RunEvent = RunStarted | ChoiceMade | StepAdvanced;
+
+// Run as derived from its event log
+export interface RunView extends RunState {
+  currentStep: number;
+  totalSteps: number; // Step count of the pack the log was folded on
+  path: number[]; // Step ids visited in order; choices[i] was made on path[i]
+  nextStep: NextStep | null; // Where the current step's choice leads (null until chosen)
+  choices: Array<{ choice: ChoiceId; delta: Delta }>; // choice is the option id
+  effective: EffectiveState;
+  events: RunEvent[]; // The log this view was folded from
+}
+
+/**
+ * Fresh run on a pack, waiting on the choice for step 1
+ */
+export function startRun(pack: ContentPack, seed?: number): RunView {
+  const runState = initializeRunState(seed);
+  return {
+    ...runState,
+    currentStep: 1,
+    totalSteps: getStepCount(pack),
+    path: [1],
+    nextStep: null,
+    choices: [],
+    effective: { R: 0, U: 0, S: 0, C: 0, I: 0 },
+    events: [
+      {
+        type: 'RunStarted',
+        seed: runState.seed,
+        pack: { id: pack.id, version: pack.version },
+      },
+    ],
+  };
+}
+
+// Pick an option on the current step; ignored when the step already has a choice or lacks the option
+function makeChoice(
+  run: RunView,
+  event: ChoiceMade,
+  pack: ContentPack,
+  config: MeterConfig,
+): RunView {
+  const step = pack.steps.find((candidate) => candidate.id === event.step);
+  const option = step ? getStepOption(step, event.option) : undefined;
+  if (
+    !option ||
+    event.step !== run.currentStep ||
+    run.choices.length >= run.path.length
+  ) {
+    return run;
+  }
+
+  const choiceConfig = event.forceUnluck
+    ? { ...config, unluck: { ...config.unluck, probability: 1 } }
+    : config;
+  const { newRunState, result } = stepUpdate(
+    run,
+    option.delta,
+    option.id,
+    choiceConfig,
+    run.currentStep,
+  );
+  const choices = [...run.choices, { choice: option.id, delta: option.delta }];
+
+  // Resolve the branch against the state and meter after this choice
+  const nextStep = resolveNextStep(
+    { next: option.next, routes: option.routes },
+    { state: newRunState.state, meter: result.meter },
+    run.currentStep,
+    run.totalSteps,
+    choices.length,
+  );
+
+  return {
+    ...newRunState,
+    currentStep: run.currentStep,
+    totalSteps: run.totalSteps,
+    path: run.path,
+    nextStep,
+    choices,
+    effective: result.effective,
+    events: [...run.events, event],
+  };
+}
+
+/**
+ * Follow the resolved branch (ignored before a choice is made or once the run has ended), or jump to
+ * `event.step`: a jump replaces the current step if it has no choice yet, otherwise visits it next
+ */
+export function advanceStep<T extends RunView>(run: T, event: StepAdvanced): T {
+  const events = [...run.events, event];
+
+  if (event.step === undefined) {
+    if (typeof run.nextStep !== 'number') {
+      return run;
+    }
+    return {
+      ...run,
+      currentStep: run.nextStep,
+      path: [...run.path, run.nextStep],
+      nextStep: null,
+      events,
+    };
+  }
+
+  if (event.step < 1 || event.step > run.totalSteps) {
+    return run;
+  }
+  const awaitingChoice = run.choices.length < run.path.length;
+  const path = awaitingChoice ? run.path.slice(0, -1) : run.path;
+  return {
+    ...run,
+    currentStep: event.step,
+    path: [...path, event.step],
+    nextStep: null,
+    events,
+  };
+}
+
+/**
+ * Apply one event to a run; returns the run itself when the event does not apply to it.
+ * `config` defaults to the pack's meterConfig.
+ */
+export function applyRunEvent(
+  run: RunView,
+  event: RunEvent,
+  pack: ContentPack,
+  config: MeterConfig = resolveMeterConfig(pack.meterConfig),
+): RunView {
+  switch (event.type) {
+    case 'ChoiceMade':
+      return makeChoice(run, event, pack, config);
+    case 'StepAdvanced':
+      return advanceStep(run, event);
+    default:
+      // A run is started once, by the first event of its log
+      return run;
+  }
+}
+
+/**
+ * Derive a run from its event log on a pack. Stops at the first event the pack cannot apply,
+ * e.g. an option id a newer pack version no longer has.
+ */
+export function foldRunEvents(
+  events: RunEvent[],
+  pack: ContentPack,
+  config: MeterConfig = resolveMeterConfig(pack.meterConfig),
+): RunView {
+  const [first, ...rest] = events;
+  if (first?.type !== 'RunStarted') {
+    throw new Error('Run event log must start with RunStarted');
+  }
+
+  let run: RunView = { ...startRun(pack, first.seed), events: [first] };
+  for (const event of rest) {
+    const next = applyRunEvent(run, event, pack, config);
+    if (next === run) break;
+    run = next;
+  }
+  return run;
+}
+
+/**
+ * The log up to (not including) its choice at `index`, i.e. the run waiting on that choice again
+ */
+export function eventsBeforeChoice(
+  events: RunEvent[],
+  index: number,
+): RunEvent[] {
+  const choicePositions = events.flatMap((event, position) =>
+    event.type === 'ChoiceMade' ? [position] : [],
+  );
+  const end = choicePositions[index];
+  return end === undefined ? events : events.slice(0, end);
+}
+
+/**
+ * Event log for a run known only by its seed, visited steps and choices (saves from before the log)
+ */
+export function eventsFromSnapshot(
+  snapshot: {
+    seed: number;
+    path: number[];
+    choices: Array<{ choice: ChoiceId }>;
+  },
+  pack: RunStarted['pack'],
+): RunEvent[] {
+  const events: RunEvent[] = [
+    {
+      type: 'RunStarted',
+      seed: snapshot.seed,
+      pack: { id: pack.id, version: pack.version },
+    },
+  ];
+  const [firstStep = 1] = snapshot.path;
+  if (firstStep !== 1) {
+    events.push({ type: 'StepAdvanced', step: firstStep });
+  }
+
+  for (const [index, record] of snapshot.choices.entries()) {
+    if (index > 0) {
+      events.push({ type: 'StepAdvanced' });
+    }
+    events.push({
+      type: 'ChoiceMade',
+      step: snapshot.path[index],
+      option: record.choice,
+    });
+  }
+
+  // The run had moved on to the next step without choosing there yet
+  if (
+    snapshot.path.length > snapshot.choices.length &&
+    snapshot.choices.length > 0
+  ) {
+    events.push({ type: 'StepAdvanced' });
+  }
+  return events;
+}
@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import { ChoiceIdSchema, ContentPackSchema } from './content-pack';
+import {
+  eventsFromSnapshot,
+  type RunEvent,
+  type RunStarted,
+  type RunView,
+} from './run-engine';
+
+/**
+ * Saved Runs
+ *
+ * Schema of the run kept in localStorage and the migrations that upgrade saves written by older
+ * versions of the app. Each migration turns a save of one version into the next, so an old save is
+ * walked up the chain to SAVED_RUN_VERSION instead of being discarded.
+ */
+
+// Version written by saveToStorage; add a migration from the previous version when bumping it
+export const SAVED_RUN_VERSION = '1.1';
+
+// Version of saves that carry none (written before saves were versioned)
+const UNVERSIONED = '1.0';
+
+const StepIdSchema = z.number().int().min(1);
+
+// Pack a run was played on
+export const PackRefSchema = z.object({
+  id: ContentPackSchema.shape.id,
+  version: ContentPackSchema.shape.version,
+  hash: z.string(), // computePackHash of the pack content
+  url: z.string().optional(), // Source URL when the pack came from ?packUrl=
+});
+
+export const RunEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('RunStarted'),
+    seed: z.number().int(),
+    pack: z.object({ id: z.string(), version: z.string() }),
+  }),
+  z.object({
+    type: z.literal('ChoiceMade'),
+    step: StepIdSchema,
+    option: ChoiceIdSchema,
+    forceUnluck: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('StepAdvanced'),
+    step: StepIdSchema.optional(),
+  }),
+]);
+
+// A run's log: started exactly once, by its first event
+export const RunEventLogSchema = z
+  .array(RunEventSchema)
+  .min(1)
+  .superRefine((events, ctx) => {
+    events.forEach((event, index) => {
+      if ((event.type === 'RunStarted') !== (index === 0)) {
+        ctx.addIssue({
+          code: 'custom',
+          message: 'RunStarted must be the first event and only appear once',
+          path: [index],
+        });
+      }
+    });
+  });
+
+// 1.1: the event log the run is folded from
+export const SavedRunSchema = z.object({
+  version: z.literal(SAVED_RUN_VERSION),
+  events: RunEventLogSchema,
+  pack: PackRefSchema.optional(), // Absent on runs saved before runs were pinned to their pack
+  timestamp: z.number(),
+});
+
+// 1.0: a snapshot of the run state derived from the choices. Only the fields needed to rebuild the
+// run are checked; builds just before 1.1 also saved the event log alongside.
+const SavedRunV1_0Schema = z.object({
+  version: z.literal('1.0').optional(),
+  seed: z.number().int(),
+  currentStep: StepIdSchema,
+  path: z.array(StepIdSchema).min(1).optional(), // Missing before branching packs: steps 1..currentStep
+  choices: z.array(z.object({ choice: ChoiceIdSchema })),
+  events: RunEventLogSchema.optional(),
+  pack: PackRefSchema.optional(),
+  timestamp: z.number().optional(),
+});
+
+export type PackRef = z.infer<typeof PackRefSchema>;
+export type SavedRun = z.infer<typeof SavedRunSchema>;
+
+// Upgrades a save of one version to the next, or returns null when it does not match its version's schema.
+// `pack` is the active pack, for saves that do not name theirs.
+type SavedRunMigration = (
+  data: unknown,
+  pack: RunStarted['pack'],
+) => { version: string } | null;
+
+const MIGRATIONS: Record<string, SavedRunMigration> = {
+  '1.0': (data, pack) => {
+    const result = SavedRunV1_0Schema.safeParse(data);
+    if (!result.success) {
+      return null;
+    }
+    const saved = result.data;
+    const path =
+      saved.path ?? Array.from({ length: saved.currentStep }, (_, i) => i + 1);
+    const events: RunEvent[] =
+      saved.events ??
+      eventsFromSnapshot(
+        { seed: saved.seed, path, choices: saved.choices },
+        saved.pack ?? pack,
+      );
+    return {
+      version: '1.1',
+      events,
+      ...(saved.pack ? { pack: saved.pack } : {}),
+      timestamp: saved.timestamp ?? 0, // Unknown age: treated as stale
+    };
+  },
+};
+
+function getSavedVersion(data: unknown): string {
+  const version = (data as { version?: unknown } | null)?.version;
+  return typeof version === 'string' ? version : UNVERSIONED;
+}
+
+/**
+ * Parse a saved run, upgrading saves of older versions; returns null when it is invalid or was
+ * written by an unknown (e.g. newer) version
+ */
+export function parseSavedRun(
+  data: unknown,
+  pack: RunStarted['pack'],
+): SavedRun | null {
+  let current: unknown = data;
+
+  for (
+    let version = getSavedVersion(current);
+    version !== SAVED_RUN_VERSION;
+    version = getSavedVersion(current)
+  ) {
+    const upgraded = MIGRATIONS[version]?.(current, pack);
+    if (!upgraded) {
+      return null;
+    }
+    current = upgraded;
+  }
+
+  const result = SavedRunSchema.safeParse(current);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Save of a run in the current version
+ */
+export function toSavedRun(
+  run: Pick<RunView, 'events'>,
+  pack: PackRef,
+): SavedRun {
+  return {
+    version: SAVED_RUN_VERSION,
+    events: run.events,
+    pack,
+    timestamp: Date.now(),
+  };
+}
@@ -1,4 +1,12 @@
-import { Delta } from './content-pack';
+import {
+  ChoiceId,
+  Delta,
+  type InteractionCondition,
+  type InteractionRule,
+  type MeterConfigOverride,
+  type SpecialEvent,
+} from './content-pack';
+import { DEFAULT_METER_FORMULA, getMeterFormula } from './meter-formulas';
 
 /**
  * Scaling Meter Engine
@@ -38,6 +46,45 @@ export interface MeterResult {
   luckFactor?: number | null; // factor in [0.4,0.7] when applied
   // Special unluck info (if applied on this step)
   specialUnluckApplied?: boolean; // default false when omitted
+  specialEventId?: string; // id of the special event that fired
+  // Lucky break info (if applied on this step)
+  luckyBreakApplied?: boolean; // default false when omitted
+  luckyBreakFactor?: number | null; // factor in luckyBreak.factorRange when applied
+  luckyBreakBonus?: { dimension: keyof State; amount: number }; // extra points granted, if any
+  // Interaction rules that fired this step (ids, in declaration order)
+  interactions?: string[];
+  // Decay and drift applied at the start of this step (signed change per dimension, non-zero only)
+  decay?: Partial<State>;
+  // How the meter was reached (see MeterBreakdown)
+  breakdown?: MeterBreakdown;
+}
+
+// What changed the state or the meter during a step, in the order applied
+export type MeterAdjustmentSource =
+  | 'decay'
+  | 'rubber-band'
+  | 'unluck'
+  | 'special-event'
+  | 'lucky-break'
+  | 'interaction'
+  | 'momentum'
+  | 'randomness'
+  | 'clamp';
+
+export interface MeterAdjustment {
+  source: MeterAdjustmentSource;
+  label: string;
+  state?: Partial<State>; // Signed change per dimension (state adjustments)
+  meter?: number; // Meter points (momentum, randomness, clamp)
+}
+
+// Explainable breakdown of one meter computation
+export interface MeterBreakdown {
+  requestedDelta?: Delta; // The option's delta (set by stepUpdate)
+  appliedDelta?: Delta; // Delta after unluck, special events and lucky breaks (set by stepUpdate)
+  contributions: EffectiveState; // Each dimension's part of raw under the meter formula
+  sigmoid: number; // Meter after normalization, before momentum and randomness
+  adjustments: MeterAdjustment[];
 }
 
 // Run state including seed and history
@@ -51,6 +98,9 @@ export interface RunState {
 
 // Meter configuration
 export interface MeterConfig {
+  // Scoring strategy id from the meter formula registry (default: 'weighted-sum')
+  formula: string;
+
   // Weights for final score calculation
   weights: {
     R: number; // Default: 0.30
@@ -87,21 +137,30 @@ export interface MeterConfig {
     factorRange: [number, number]; // e.g., [0.4, 0.7]
   };
 
-  // Special unluck configuration for step 4 option B - "Perfect Storm"
-  specialUnluck: {
-    enabled: boolean;
-    step: number; // Step number (4 for step 4)
-    choice: 'A' | 'B'; // Choice that triggers special unluck
-    probability: number; // Probability of special unluck after regular unluck
-    scalingGainsReduction: number; // e.g., 0.5 for 50% reduction
-    usersReduction: number; // e.g., 0.5 for 50% reduction of U parameter
-    customersReduction: number; // e.g., 0.7 for 70% reduction of C parameter
-    investorsReduction: number; // e.g., 0.4 for 40% reduction of I parameter
+  // Special unluck events ("Perfect Storm"), declared by packs in meterConfig.specialEvents
+  specialEvents: SpecialEvent[];
+
+  // Share of each positive dimension lost between steps, e.g. { I: 0.1 } (default: none)
+  decay: Partial<State>;
+
+  // Fixed points added to each dimension between steps, e.g. { C: -1 } (default: none)
+  drift: Partial<State>;
+
+  // Dimension synergy and penalty rules, declared by packs in meterConfig.interactions
+  interactions: InteractionRule[];
+
+  // Lucky break configuration, rolled on steps without unluck (see docs/unluck.md)
+  luckyBreak: {
+    probability: number; // e.g., 0.15 means 15% chance per step
+    factorRange: [number, number]; // multiplier on positive delta, e.g., [1.2, 1.5]
+    bonus: number; // points added to one seeded-random dimension (0 = none)
+    messages: string[]; // pack-supplied popup copy
   };
 }
 
 // Default configuration based on docs/scaling-meter.md
 export const DEFAULT_CONFIG: MeterConfig = {
+  formula: DEFAULT_METER_FORMULA,
   weights: {
     R: 0.30,
     U: 0.25,
@@ -110,7 +169,7 @@ export const DEFAULT_CONFIG: MeterConfig = {
     I: 0.10,
   },
   sigmoid: {
-    // Tuning: adjust mu/sigma via seeded simulations to target ~60–75 median, 85+ reachable (2025-09-24)
+    // Tuning: adjust mu/sigma via seeded simulations (simulateBalance in pack-simulator.ts) to target ~60–75 median, 85+ reachable (2025-09-24)
     mu: -4,
     sigma: 11,
   },
@@ -126,18 +185,45 @@ export const DEFAULT_CONFIG: MeterConfig = {
     probability: 0.4,
     factorRange: [0.4, 0.7],
   },
-  specialUnluck: {
-    enabled: true,
-    step: 4,
-    choice: 'B',
-    probability: 1.0, // 100% chance if regular unluck occurs on step 4 option B
-    scalingGainsReduction: 0.5, // 50% reduction of scaling gains
-    usersReduction: 0.5, // 50% reduction of U parameter
-    customersReduction: 0.7, // 70% reduction of C parameter - "Perfect Storm"
-    investorsReduction: 0.4, // 40% reduction of I parameter - "Perfect Storm"
+  // No special events unless the pack declares them (the default pack's "Perfect Storm" lives in default-pack.ts)
+  specialEvents: [],
+  decay: {},
+  drift: {},
+  // No interaction rules unless the pack declares them (examples in docs/scaling-meter.md)
+  interactions: [],
+  // Off unless the pack enables it
+  luckyBreak: {
+    probability: 0,
+    factorRange: [1.2, 1.5],
+    bonus: 2,
+    messages: [],
   },
 };
 
+/**
+ * Deep-merge a pack's meterConfig override over the defaults
+ */
+export function resolveMeterConfig(override?: MeterConfigOverride, base: MeterConfig = DEFAULT_CONFIG): MeterConfig {
+  if (!override) {
+    return base;
+  }
+  return {
+    formula: override.formula ?? base.formula,
+    weights: { ...base.weights, ...override.weights },
+    sigmoid: { ...base.sigmoid, ...override.sigmoid },
+    diminishingReturns: override.diminishingReturns ?? base.diminishingReturns,
+    momentumBonus: override.momentumBonus ?? base.momentumBonus,
+    randomnessRange: override.randomnessRange ?? base.randomnessRange,
+    rubberBand: { ...base.rubberBand, ...override.rubberBand },
+    unluck: { ...base.unluck, ...override.unluck },
+    specialEvents: override.specialEvents ?? base.specialEvents,
+    decay: { ...base.decay, ...override.decay },
+    drift: { ...base.drift, ...override.drift },
+    interactions: override.interactions ?? base.interactions,
+    luckyBreak: { ...base.luckyBreak, ...override.luckyBreak },
+  };
+}
+
 /**
  * Apply a choice delta to the current state
  */
@@ -166,13 +252,6 @@ export function computeEffective(state: State, config: MeterConfig = DEFAULT_CON
   };
 }
 
-/**
- * Sigmoid function for normalization
- */
-function sigmoid(x: number): number {
-  return 1 / (1 + Math.exp(-x));
-}
-
 /**
  * Mulberry32 PRNG - deterministic random number generator
  */
@@ -187,6 +266,16 @@ export function mulberry32(seed: number): () => number {
   };
 }
 
+// Salt for the RNG that picks lucky break copy, so the pick does not repeat the step's unluck roll
+const LUCKY_BREAK_MESSAGE_SALT = 0x4c75636b;
+
+/**
+ * Seeded RNG for picking the lucky break message of the step at `stepIndex` (0-based)
+ */
+export function getLuckyBreakMessageRng(seed: number, stepIndex: number): () => number {
+  return mulberry32((seed + stepIndex) ^ LUCKY_BREAK_MESSAGE_SALT);
+}
+
 /**
  * Generate a random seed
  */
@@ -195,7 +284,7 @@ export function generateSeed(): number {
 }
 
 /**
- * Compute meter value from effective state
+ * Compute meter value from effective state with the configured formula (see meter-formulas.ts)
  */
 export function computeMeter(
   effective: EffectiveState,
@@ -203,47 +292,7 @@ export function computeMeter(
   rng: () => number,
   config: MeterConfig = DEFAULT_CONFIG
 ): MeterResult {
-  const { weights, sigmoid: sigmoidConfig, momentumBonus, randomnessRange, rubberBand } = config;
-  
-  // Calculate raw weighted score
-  const raw = (
-    weights.R * effective.R +
-    weights.U * effective.U +
-    weights.S * effective.S +
-    weights.C * effective.C +
-    weights.I * effective.I
-  );
-  
-  // Apply sigmoid normalization
-  const normalizedScore = (raw - sigmoidConfig.mu) / sigmoidConfig.sigma;
-  let meter = Math.round(100 * sigmoid(normalizedScore));
-  
-  // Apply momentum bonus
-  let momentum = 0;
-  if (meter > lastMeter) {
-    momentum = momentumBonus;
-    meter += momentum;
-  }
-  
-  // Apply randomness
-  const [minRand, maxRand] = randomnessRange;
-  const randomness = Math.round(rng() * (maxRand - minRand) + minRand);
-  meter += randomness;
-  
-  // Clamp to valid range
-  meter = Math.max(0, Math.min(100, meter));
-  
-  // Check for rubber-band application (applied to next step, not current)
-  const rubberBandApplied = meter < rubberBand.threshold;
-  
-  return {
-    meter,
-    raw,
-    effective,
-    momentum,
-    randomness,
-    rubberBand: rubberBandApplied,
-  };
+  return getMeterFormula(config.formula).compute(effective, lastMeter, rng, config);
 }
 
 /**
@@ -261,30 +310,100 @@ export function applyRubberBand(state: State, config: MeterConfig = DEFAULT_CONF
   }
 }
 
+// Dimensions in state order
+const DIMENSIONS: Array<keyof State> = ['R', 'U', 'S', 'C', 'I'];
+const EMPTY_STATE: State = { R: 0, U: 0, S: 0, C: 0, I: 0 };
+
+/**
+ * Whether an interaction rule condition holds for a state
+ */
+export function matchesInteraction(condition: InteractionCondition, state: State): boolean {
+  const inRange = (value: number, range?: { min?: number; max?: number }) =>
+    !range || ((range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max));
+  const { gap } = condition;
+  return DIMENSIONS.every(key => inRange(state[key], condition[key])) &&
+    (!gap || inRange(state[gap.of[0]] - state[gap.of[1]], gap));
+}
+
+/**
+ * Apply decay and drift to a state; returns the new state and the signed change per dimension
+ */
+export function applyDecay(state: State, config: MeterConfig = DEFAULT_CONFIG): { state: State; change: Partial<State> } {
+  const next = { ...state };
+  const change: Partial<State> = {};
+  for (const key of DIMENSIONS) {
+    // Decay only erodes built-up strength; drift moves the value either way
+    const decayed = state[key] > 0 ? Math.round(state[key] * (config.decay[key] ?? 0)) : 0;
+    const delta = (config.drift[key] ?? 0) - decayed;
+    if (delta !== 0) {
+      next[key] = state[key] + delta;
+      change[key] = delta;
+    }
+  }
+  return { state: next, change };
+}
+
+// Signed per-dimension difference, non-zero dimensions only
+function stateChange(before: State | Delta, after: State | Delta): Partial<State> {
+  const change: Partial<State> = {};
+  for (const key of DIMENSIONS) {
+    if (after[key] !== before[key]) change[key] = after[key] - before[key];
+  }
+  return change;
+}
+
+// Scale only positive components; round to nearest int to satisfy Delta type
+function scalePositiveDelta(delta: Delta, factor: number): Delta {
+  return {
+    R: delta.R > 0 ? Math.round(delta.R * factor) : delta.R,
+    U: delta.U > 0 ? Math.round(delta.U * factor) : delta.U,
+    S: delta.S > 0 ? Math.round(delta.S * factor) : delta.S,
+    C: delta.C > 0 ? Math.round(delta.C * factor) : delta.C,
+    I: delta.I > 0 ? Math.round(delta.I * factor) : delta.I,
+  };
+}
+
 /**
- * Complete step update: apply choice, compute meter, handle rubber-band
+ * Complete step update: apply choice, compute meter, handle rubber-band.
+ * `stepId` is the pack step the choice was made on (defaults to the step count for linear packs).
  */
 export function stepUpdate(
   runState: RunState,
   delta: Delta,
-  choice: 'A' | 'B',
-  config: MeterConfig = DEFAULT_CONFIG
+  choice: ChoiceId,
+  config: MeterConfig = DEFAULT_CONFIG,
+  stepId: number = runState.stepCount + 1
 ): { newRunState: RunState; result: MeterResult } {
   const rng = mulberry32(runState.seed + runState.stepCount);
 
-  // Apply rubber-band from previous step if needed
+  // State adjustments for the breakdown, in the order applied
+  const adjustments: MeterAdjustment[] = [];
+  const adjust = (source: MeterAdjustmentSource, label: string, change: Partial<State>) => {
+    if (Object.keys(change).length > 0) adjustments.push({ source, label, state: change });
+  };
+
+  // Decay and drift between steps (nothing has built up before the first choice)
   let currentState = runState.state;
+  let decay: Partial<State> = {};
+  if (runState.stepCount > 0) {
+    ({ state: currentState, change: decay } = applyDecay(currentState, config));
+    adjust('decay', 'Decay and drift since the last step', decay);
+  }
+
+  // Apply rubber-band from previous step if needed
   const lastResult = runState.history[runState.history.length - 1];
   if (lastResult?.rubberBand) {
-    currentState = applyRubberBand(currentState, config);
+    const boosted = applyRubberBand(currentState, config);
+    adjust('rubber-band', 'Rubber-band catch-up bonus', stateChange(currentState, boosted));
+    currentState = boosted;
   }
 
   // Unluck roll (consumes RNG before meter randomness)
   let unluckApplied = false;
   let luckFactor: number | null = null;
-  let specialUnluckApplied = false;
+  let specialEvent: SpecialEvent | undefined;
   let appliedDelta: Delta = delta;
-  const { unluck, specialUnluck } = config;
+  const { unluck, specialEvents } = config;
   if (unluck && unluck.probability > 0) {
     const roll = rng();
     if (roll < unluck.probability) {
@@ -292,57 +411,86 @@ export function stepUpdate(
       const factor = rng() * (maxF - minF) + minF;
       luckFactor = factor;
       unluckApplied = true;
-      // Scale only positive components; round to nearest int to satisfy Delta type
-      appliedDelta = {
-        R: delta.R > 0 ? Math.round(delta.R * factor) : delta.R,
-        U: delta.U > 0 ? Math.round(delta.U * factor) : delta.U,
-        S: delta.S > 0 ? Math.round(delta.S * factor) : delta.S,
-        C: delta.C > 0 ? Math.round(delta.C * factor) : delta.C,
-        I: delta.I > 0 ? Math.round(delta.I * factor) : delta.I,
-      };
-
-      // Special unluck check: if regular unluck occurred on step 4 option B
-      if (specialUnluck.enabled && 
-          runState.stepCount + 1 === specialUnluck.step && 
-          choice === specialUnluck.choice) {
-        const specialRoll = rng();
-        if (specialRoll < specialUnluck.probability) {
-          specialUnluckApplied = true;
-          
-          // Apply additional 50% reduction to scaling gains (further reduce positive deltas)
-          const scalingReduction = specialUnluck.scalingGainsReduction;
-          appliedDelta = {
-            R: appliedDelta.R > 0 ? Math.round(appliedDelta.R * scalingReduction) : appliedDelta.R,
-            U: appliedDelta.U > 0 ? Math.round(appliedDelta.U * scalingReduction) : appliedDelta.U,
-            S: appliedDelta.S > 0 ? Math.round(appliedDelta.S * scalingReduction) : appliedDelta.S,
-            C: appliedDelta.C > 0 ? Math.round(appliedDelta.C * scalingReduction) : appliedDelta.C,
-            I: appliedDelta.I > 0 ? Math.round(appliedDelta.I * scalingReduction) : appliedDelta.I,
-          };
-        }
+      appliedDelta = scalePositiveDelta(delta, factor);
+      adjust('unluck', `Unluck cut gains to ${Math.round(factor * 100)}%`, stateChange(delta, appliedDelta));
+
+      // Special events for this step and option roll in declaration order; the first that fires applies
+      specialEvent = specialEvents.find(
+        event => event.step === stepId && event.choice === choice && rng() < event.probability
+      );
+      if (specialEvent) {
+        const reduced = scalePositiveDelta(appliedDelta, specialEvent.scalingGainsReduction);
+        adjust('special-event', `${specialEvent.title}: gains reduced`, stateChange(appliedDelta, reduced));
+        appliedDelta = reduced;
       }
     }
   }
 
+  // Lucky break roll on steps unluck spared (consumes RNG only when enabled)
+  let luckyBreakApplied = false;
+  let luckyBreakFactor: number | null = null;
+  let luckyBreakBonus: MeterResult['luckyBreakBonus'];
+  const { luckyBreak } = config;
+  if (!unluckApplied && luckyBreak && luckyBreak.probability > 0 && rng() < luckyBreak.probability) {
+    const [minF, maxF] = luckyBreak.factorRange;
+    luckyBreakFactor = rng() * (maxF - minF) + minF;
+    luckyBreakApplied = true;
+    appliedDelta = scalePositiveDelta(delta, luckyBreakFactor);
+    if (luckyBreak.bonus > 0) {
+      const dimension = DIMENSIONS[Math.floor(rng() * DIMENSIONS.length)];
+      luckyBreakBonus = { dimension, amount: luckyBreak.bonus };
+      appliedDelta = { ...appliedDelta, [dimension]: appliedDelta[dimension] + luckyBreak.bonus };
+    }
+    adjust('lucky-break', `Lucky break boosted gains to ${Math.round(luckyBreakFactor * 100)}%`, stateChange(delta, appliedDelta));
+  }
+
   // Apply choice delta (possibly scaled)
   let newState = applyChoice(currentState, appliedDelta);
 
-  // Apply special unluck penalties to U, C, I parameters if special unluck occurred - "Perfect Storm"
-  if (specialUnluckApplied) {
-    const usersReduction = specialUnluck.usersReduction;
-    const customersReduction = specialUnluck.customersReduction;
-    const investorsReduction = specialUnluck.investorsReduction;
+  // Special events also take a share of the resulting dimensions - "Perfect Storm"
+  if (specialEvent) {
+    const { reductions } = specialEvent;
+    const beforeReductions = newState;
     newState = {
-      ...newState,
-      U: Math.round(newState.U * (1 - usersReduction)), // 50% reduction
-      C: Math.round(newState.C * (1 - customersReduction)), // 70% reduction
-      I: Math.round(newState.I * (1 - investorsReduction)), // 40% reduction
+      R: Math.round(newState.R * (1 - (reductions.R ?? 0))),
+      U: Math.round(newState.U * (1 - (reductions.U ?? 0))),
+      S: Math.round(newState.S * (1 - (reductions.S ?? 0))),
+      C: Math.round(newState.C * (1 - (reductions.C ?? 0))),
+      I: Math.round(newState.I * (1 - (reductions.I ?? 0))),
     };
+    adjust('special-event', `${specialEvent.title}: dimensions reduced`, stateChange(beforeReductions, newState));
+  }
+
+  // Interaction rules all see the state after the choice, so declaration order does not matter
+  const firedRules = config.interactions.filter(rule => matchesInteraction(rule.when, newState));
+  for (const rule of firedRules) {
+    newState = applyChoice(newState, rule.effect);
+    adjust('interaction', rule.insight, stateChange(EMPTY_STATE, rule.effect));
   }
 
   // Compute effective state and meter using the same rng (after unluck rolls)
   const effective = computeEffective(newState, config);
   const baseResult = computeMeter(effective, runState.lastMeter, rng, config);
-  const result: MeterResult = { ...baseResult, unluckApplied, luckFactor, specialUnluckApplied };
+  // Formulas that skip finishMeter report no contributions
+  const meterBreakdown = baseResult.breakdown ?? { contributions: EMPTY_STATE, sigmoid: baseResult.meter, adjustments: [] };
+  const result: MeterResult = {
+    ...baseResult,
+    unluckApplied,
+    luckFactor,
+    specialUnluckApplied: Boolean(specialEvent),
+    ...(specialEvent ? { specialEventId: specialEvent.id } : {}),
+    ...(luckyBreakApplied ? { luckyBreakApplied, luckyBreakFactor } : {}),
+    ...(luckyBreakBonus ? { luckyBreakBonus } : {}),
+    ...(firedRules.length > 0 ? { interactions: firedRules.map(rule => rule.id) } : {}),
+    ...(Object.keys(decay).length > 0 ? { decay } : {}),
+    breakdown: {
+      ...meterBreakdown,
+      requestedDelta: delta,
+      appliedDelta,
+      // State adjustments first, then the meter's own (momentum, randomness, clamp)
+      adjustments: [...adjustments, ...meterBreakdown.adjustments],
+    },
+  };
 
   // Update run state
   const newRunState: RunState = {
@@ -391,12 +539,49 @@ export function getMeterTier(meter: number): {
 }
 
 /**
- * Get insights based on effective state and deltas
+ * All meter tiers, highest first
+ */
+export function getMeterTiers(): Array<ReturnType<typeof getMeterTier>> {
+  return [85, 70, 50, 30, 0].map(getMeterTier);
+}
+
+// Dimension names for feedback text
+const DIMENSION_NAMES: Record<keyof State, string> = {
+  R: 'Revenue',
+  U: 'User Growth',
+  S: 'System Reliability',
+  C: 'Customer Love',
+  I: 'Investor Confidence',
+};
+
+/**
+ * Feedback lines for a step's decay and drift, e.g. "Investor Confidence cooled off by 2"
+ */
+export function getDecayMessages(result: MeterResult): string[] {
+  return DIMENSIONS.filter(key => result.decay?.[key]).map(key => {
+    const change = result.decay?.[key] ?? 0;
+    return change < 0
+      ? `${DIMENSION_NAMES[key]} cooled off by ${-change}`
+      : `${DIMENSION_NAMES[key]} picked up by ${change}`;
+  });
+}
+
+/**
+ * Interaction rules recorded in the given results, each once, in declaration order
+ */
+export function getFiredInteractionRules(results: MeterResult[], config: MeterConfig = DEFAULT_CONFIG): InteractionRule[] {
+  const fired = new Set(results.flatMap(result => result.interactions ?? []));
+  return config.interactions.filter(rule => fired.has(rule.id));
+}
+
+/**
+ * Get insights based on effective state and deltas, plus the insight text of fired interaction rules
  */
 export function getInsights(
   effective: EffectiveState,
-  delta: Delta
-): { drivers: string[]; bottleneck: string | null } {
+  delta: Delta,
+  firedRules: InteractionRule[] = []
+): { drivers: string[]; bottleneck: string | null; interactions: string[] } {
   // Find top 2 dimensions by effective value
   const dimensions = [
     { name: 'Revenue', key: 'R' as keyof EffectiveState, value: effective.R },
@@ -421,5 +606,5 @@ export function getInsights(
     bottleneck = lowestDimension.name;
   }
   
-  return { drivers, bottleneck };
+  return { drivers, bottleneck, interactions: firedRules.map(rule => rule.insight) };
 }
\ No newline at end of file
@@ -0,0 +1,215 @@
+import type {
+  Choice,
+  ContentPack,
+  NextStep,
+  RouteCondition,
+  Step,
+} from './content-pack';
+import type { State } from './scaling-meter';
+
+/**
+ * Step Graph
+ *
+ * Resolves which step follows a choice (explicit `next`, conditional `routes`,
+ * or the following step id) and checks that a pack's step graph is playable.
+ */
+
+// Values a route condition is evaluated against (after the choice is applied)
+export interface RouteContext {
+  state: State;
+  meter: number;
+}
+
+// Routing fields of a choice
+export type ChoiceRouting = Pick<Choice, 'next' | 'routes'>;
+
+// Graph problem found during pack validation
+export interface StepGraphIssue {
+  message: string;
+  path: (string | number)[];
+}
+
+// Safety net for packs with loops: a run never takes more choices than this
+export const MAX_RUN_LENGTH = 30;
+
+/**
+ * Step that follows `stepId` when a choice declares no routing
+ */
+export function getDefaultNextStep(
+  stepId: number,
+  totalSteps: number,
+): NextStep {
+  return stepId < totalSteps ? stepId + 1 : 'end';
+}
+
+/**
+ * Check whether all ranges in a route condition hold
+ */
+export function matchesCondition(
+  condition: RouteCondition,
+  context: RouteContext,
+): boolean {
+  const inRange = (value: number, range?: { min?: number; max?: number }) =>
+    !range ||
+    ((range.min === undefined || value >= range.min) &&
+      (range.max === undefined || value <= range.max));
+
+  return (
+    inRange(context.meter, condition.meter) &&
+    inRange(context.state.R, condition.R) &&
+    inRange(context.state.U, condition.U) &&
+    inRange(context.state.S, condition.S) &&
+    inRange(context.state.C, condition.C) &&
+    inRange(context.state.I, condition.I)
+  );
+}
+
+/**
+ * Resolve the next step: first matching route, then `next`, then the following step id.
+ * Runs that reach MAX_RUN_LENGTH choices always end.
+ */
+export function resolveNextStep(
+  routing: ChoiceRouting,
+  context: RouteContext,
+  currentStepId: number,
+  totalSteps: number,
+  runLength: number = 0,
+): NextStep {
+  if (runLength >= MAX_RUN_LENGTH) {
+    return 'end';
+  }
+
+  const route = routing.routes?.find((r) => matchesCondition(r.when, context));
+  if (route) {
+    return route.next;
+  }
+
+  return routing.next ?? getDefaultNextStep(currentStepId, totalSteps);
+}
+
+/**
+ * All steps a choice can lead to (route targets plus the fallback)
+ */
+export function getChoiceTargets(
+  choice: ChoiceRouting,
+  stepId: number,
+  totalSteps: number,
+): NextStep[] {
+  const targets: NextStep[] = (choice.routes ?? []).map((route) => route.next);
+  targets.push(choice.next ?? getDefaultNextStep(stepId, totalSteps));
+  return targets;
+}
+
+/**
+ * Find dangling references, unreachable steps and loops that can never reach the end
+ */
+export function findStepGraphIssues(steps: Step[]): StepGraphIssue[] {
+  const issues: StepGraphIssue[] = [];
+  if (steps.length === 0) return issues;
+
+  const ids = new Set(steps.map((step) => step.id));
+  const edges = new Map<number, NextStep[]>();
+
+  steps.forEach((step, index) => {
+    const targets: NextStep[] = [];
+    step.options.forEach((choice, optionIndex) => {
+      choice.routes?.forEach((route, routeIndex) => {
+        if (route.next !== 'end' && !ids.has(route.next)) {
+          issues.push({
+            message: `Route points to missing step ${route.next}`,
+            path: [
+              'steps',
+              index,
+              'options',
+              optionIndex,
+              'routes',
+              routeIndex,
+              'next',
+            ],
+          });
+        }
+      });
+      if (
+        choice.next !== undefined &&
+        choice.next !== 'end' &&
+        !ids.has(choice.next)
+      ) {
+        issues.push({
+          message: `Next points to missing step ${choice.next}`,
+          path: ['steps', index, 'options', optionIndex, 'next'],
+        });
+      }
+      targets.push(...getChoiceTargets(choice, step.id, steps.length));
+    });
+    edges.set(
+      step.id,
+      targets.filter((target) => target === 'end' || ids.has(target)),
+    );
+  });
+
+  // Forward reachability from the first step
+  const reachable = new Set<number>([steps[0].id]);
+  const queue = [steps[0].id];
+  while (queue.length > 0) {
+    const id = queue.shift() as number;
+    for (const target of edges.get(id) ?? []) {
+      if (target !== 'end' && !reachable.has(target)) {
+        reachable.add(target);
+        queue.push(target);
+      }
+    }
+  }
+
+  // Steps that can eventually reach the end of the run
+  const canFinish = new Set<number>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const [id, targets] of edges) {
+      if (canFinish.has(id)) continue;
+      if (targets.some((target) => target === 'end' || canFinish.has(target))) {
+        canFinish.add(id);
+        changed = true;
+      }
+    }
+  }
+
+  steps.forEach((step, index) => {
+    if (!reachable.has(step.id)) {
+      issues.push({
+        message: `Step ${step.id} is unreachable from step ${steps[0].id}`,
+        path: ['steps', index],
+      });
+    } else if (!canFinish.has(step.id)) {
+      issues.push({
+        message: `Step ${step.id} is in a cycle without an exit`,
+        path: ['steps', index],
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Whether any choice in the pack declares its own routing
+ */
+export function hasBranching(pack: ContentPack): boolean {
+  return pack.steps.some((step) =>
+    step.options.some(
+      (choice) => choice.next !== undefined || (choice.routes?.length ?? 0) > 0,
+    ),
+  );
+}
+
+/**
+ * Step played at a given position of the run path (path holds visited step ids)
+ */
+export function getStepForIndex(
+  pack: ContentPack,
+  path: number[],
+  index: number,
+): Step | undefined {
+  const stepId = path[index];
+  return pack.steps.find((step) => step.id === stepId);
+}
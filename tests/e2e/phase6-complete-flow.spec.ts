@@ -97,7 +97,7 @@ test.describe('Phase 6: Complete Journey Flow', () => {
     await expect(page.getByText('Step 1')).toBeVisible();
     
     // Try to manipulate the URL or state to skip to step 3
-    // This should be prevented by the GameFlowManager validation
+    // The saved event log is the run, so a patched currentStep is ignored on load
     await page.evaluate(() => {
       const runState = JSON.parse(localStorage.getItem('tcgame_run_state') || '{}');
       runState.currentStep = 3;
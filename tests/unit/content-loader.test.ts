@@ -191,7 +191,7 @@ steps:
         id: 'invalid-pack',
         version: '1.0.0',
         title: 'Invalid Pack',
-        steps: [], // Invalid: must have exactly 5 steps
+        steps: [], // Invalid: must have at least 3 steps
       });
       const fallbackPack = getDefaultPack();
       
@@ -277,6 +277,8 @@ steps:
       
       expect(result.valid).toBe(false);
       expect(result.errors.length).toBeGreaterThan(0);
+      expect(result.diagnostics.map(diagnostic => diagnostic.path)).toEqual(['version', 'title', 'steps']);
+      expect(result.errors[0]).toBe('version: Does not match the required format (expected match for /^\\d+\\.\\d+\\.\\d+$/, received "not-semver")');
     });
 
     it('should handle null/undefined input', () => {
@@ -384,17 +386,12 @@ steps:
       
       // Check that all deltas are within valid ranges
       defaultPack.steps.forEach((step, index) => {
-        const { optionA, optionB } = step;
-        
         // Check delta ranges
-        Object.values(optionA.delta).forEach(value => {
-          expect(value).toBeGreaterThanOrEqual(-10);
-          expect(value).toBeLessThanOrEqual(15);
-        });
-        
-        Object.values(optionB.delta).forEach(value => {
-          expect(value).toBeGreaterThanOrEqual(-10);
-          expect(value).toBeLessThanOrEqual(15);
+        step.options.forEach(option => {
+          Object.values(option.delta).forEach(value => {
+            expect(value).toBeGreaterThanOrEqual(-10);
+            expect(value).toBeLessThanOrEqual(15);
+          });
         });
         
         // Check that step IDs are sequential
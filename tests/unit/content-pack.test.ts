@@ -3,12 +3,22 @@ import {
   ContentPackSchema,
   DeltaSchema,
   ChoiceSchema,
+  ConsoleScriptSchema,
   StepSchema,
   validateContentPack,
   isValidContentPack,
   createDelta,
+  computePackHash,
+  getStepCount,
+  getStepOption,
+  getOptionLetterById,
+  getUnluckMessage,
+  getLuckyBreakMessage,
+  getSpecialEventEffects,
+  getSpecialEventMessage,
   EMPTY_DELTA,
-  type ContentPack,
+  MIN_PACK_STEPS,
+  MAX_STEP_OPTIONS,
   type Delta,
 } from '../../src/lib/content-pack';
 
@@ -77,6 +87,46 @@ describe('ContentPack Schema Validation', () => {
     });
   });
 
+  describe('ConsoleScriptSchema', () => {
+    it('should validate every console event type and default delays', () => {
+      const script = ConsoleScriptSchema.parse([
+        { type: 'log', text: '> Installing Stripe SDK...', level: 'info', delay: 200 },
+        { type: 'diff', file: 'src/billing.ts', lines: ['+import Stripe from "stripe";', '-// TODO billing'] },
+        { type: 'file', path: 'src/billing/plans.ts', delay: 0 },
+        { type: 'preview', kind: 'image', src: 'https://example.com/plans.png', caption: 'Pricing page' },
+        { type: 'preview', kind: 'html', html: '<h1>Plans</h1>' },
+        { type: 'pause', delay: 1000 },
+      ]);
+
+      expect(script).toHaveLength(6);
+      expect(script[1].delay).toBe(300);
+    });
+
+    it('should reject invalid console events', () => {
+      const invalidScripts = [
+        [], // empty script
+        [{ type: 'beep', delay: 100 }], // unknown event type
+        [{ type: 'log', text: '', delay: 100 }], // empty log line
+        [{ type: 'log', text: 'ok', delay: -1 }], // negative delay
+        [{ type: 'log', text: 'ok', delay: 6000 }], // delay too long
+        [{ type: 'diff', file: 'a.ts', lines: [] }], // empty hunk
+        [{ type: 'preview', kind: 'image' }], // image without src
+        [{ type: 'preview', kind: 'html', src: 'https://example.com/a.png' }], // html without markup
+      ];
+
+      invalidScripts.forEach((script, index) => {
+        expect(() => ConsoleScriptSchema.parse(script), `Script ${index} should throw`).toThrow();
+      });
+    });
+
+    it('should accept choices with and without a console script', () => {
+      const base = { label: 'A', body: 'Body', delta: EMPTY_DELTA };
+      expect(() => ChoiceSchema.parse(base)).not.toThrow();
+      expect(() => ChoiceSchema.parse({ ...base, console: [{ type: 'log', text: 'hi' }] })).not.toThrow();
+      expect(() => ChoiceSchema.parse({ ...base, console: [{ type: 'log' }] })).toThrow();
+    });
+  });
+
   describe('StepSchema', () => {
     it('should validate valid step objects', () => {
       const validStep = {
@@ -119,7 +169,7 @@ describe('ContentPack Schema Validation', () => {
 
       const invalidSteps = [
         { ...baseStep, id: 0 }, // id too low
-        { ...baseStep, id: 6 }, // id too high
+        { ...baseStep, id: 11 }, // id too high
         { ...baseStep, title: '' }, // empty title
         { ...baseStep, scenario: '' }, // empty scenario
         { ...baseStep, optionA: undefined }, // missing optionA
@@ -130,16 +180,67 @@ describe('ContentPack Schema Validation', () => {
         expect(() => StepSchema.parse(step)).toThrow();
       });
     });
+
+    it('should convert legacy optionA/optionB to options with ids A and B', () => {
+      const step = StepSchema.parse({
+        id: 1,
+        title: 'Legacy',
+        scenario: 'Two options',
+        optionA: { label: 'A', body: 'A body', delta: EMPTY_DELTA },
+        optionB: { label: 'B', body: 'B body', delta: EMPTY_DELTA },
+      });
+
+      expect(step.options.map(option => option.id)).toEqual(['A', 'B']);
+      expect(step.options[1].label).toBe('B');
+      expect(step).not.toHaveProperty('optionA');
+    });
+
+    it('should validate steps with 2-4 options and stable ids', () => {
+      const option = (id: string) => ({ id, label: `Option ${id}`, body: `Body ${id}`, delta: EMPTY_DELTA });
+      const baseStep = { id: 1, title: 'Workshop', scenario: 'Pick one' };
+
+      const step = StepSchema.parse({ ...baseStep, options: ['ship', 'scale', 'hire', 'pivot'].map(option) });
+      expect(step.options).toHaveLength(MAX_STEP_OPTIONS);
+      expect(getStepOption(step, 'hire')?.label).toBe('Option hire');
+      expect(getOptionLetterById(step, 'hire')).toBe('C');
+
+      const invalidSteps = [
+        { ...baseStep, options: [option('A')] }, // too few options
+        { ...baseStep, options: ['A', 'B', 'C', 'D', 'E'].map(option) }, // too many options
+        { ...baseStep, options: [option('A'), option('A')] }, // duplicate ids
+        { ...baseStep, options: [option('A'), option('bad id')] }, // invalid id
+        { ...baseStep, options: [{ ...option('A'), id: undefined }, option('B')] }, // missing id
+      ];
+
+      invalidSteps.forEach((invalid, index) => {
+        expect(() => StepSchema.parse(invalid), `Step ${index} should throw`).toThrow();
+      });
+    });
+
+    it('should pick unluck messages by option id', () => {
+      const step = StepSchema.parse({
+        id: 1,
+        title: 'Unluck',
+        scenario: 'Three options',
+        options: [
+          { id: 'A', label: 'A', body: 'A', delta: EMPTY_DELTA },
+          { id: 'B', label: 'B', body: 'B', delta: EMPTY_DELTA },
+          { id: 'C', label: 'C', body: 'C', delta: EMPTY_DELTA, unluckMessages: ['Only C'] },
+        ],
+      });
+
+      expect(getUnluckMessage(step, 'C', () => 0.5)).toBe('Only C');
+      expect(getUnluckMessage(step, 'A', () => 0.5)).toBeNull();
+      expect(getUnluckMessage(step, 'missing', () => 0.5)).toBeNull();
+      expect(getLuckyBreakMessage(['Lucky', 'Luckier'], () => 0.5)).toBe('Luckier');
+      expect(getLuckyBreakMessage([], () => 0.5)).toBeNull();
+    });
   });
 
   describe('ContentPackSchema', () => {
-    const createValidPack = (): ContentPack => ({
-      id: 'test-pack',
-      version: '1.0.0',
-      title: 'Test Pack',
-      description: 'A test content pack',
-      author: 'Test Author',
-      steps: Array.from({ length: 5 }, (_, i) => ({
+    // Steps in the legacy optionA/optionB format
+    const createSteps = (count: number) =>
+      Array.from({ length: count }, (_, i) => ({
         id: i + 1,
         title: `Step ${i + 1}`,
         scenario: `Scenario for step ${i + 1}`,
@@ -153,7 +254,15 @@ describe('ContentPack Schema Validation', () => {
           body: `Body B${i + 1}`,
           delta: createDelta({ U: i + 1 }),
         },
-      })),
+      }));
+
+    const createValidPack = () => ({
+      id: 'test-pack',
+      version: '1.0.0',
+      title: 'Test Pack',
+      description: 'A test content pack',
+      author: 'Test Author',
+      steps: createSteps(5),
       metadata: {
         created: new Date().toISOString(),
         updated: new Date().toISOString(),
@@ -175,8 +284,10 @@ describe('ContentPack Schema Validation', () => {
         { ...basePack, version: '1.0' }, // invalid version format
         { ...basePack, title: '' }, // empty title
         { ...basePack, steps: [] }, // no steps
-        { ...basePack, steps: basePack.steps.slice(0, 3) }, // too few steps
-        { ...basePack, steps: [...basePack.steps, basePack.steps[0]] }, // too many steps
+        { ...basePack, steps: basePack.steps.slice(0, 2) }, // too few steps
+        { ...basePack, steps: [...basePack.steps, basePack.steps[0]] }, // non-sequential step ids
+        { ...basePack, steps: [basePack.steps[1], basePack.steps[0], ...basePack.steps.slice(2)] }, // out of order
+        { ...basePack, steps: createSteps(11) }, // too many steps
       ];
 
       invalidPacks.forEach(pack => {
@@ -185,6 +296,16 @@ describe('ContentPack Schema Validation', () => {
       });
     });
 
+    it('should accept variable-length packs', () => {
+      const speedRun = { ...createValidPack(), steps: createSteps(MIN_PACK_STEPS) };
+      const workshop = { ...createValidPack(), steps: createSteps(8) };
+
+      expect(isValidContentPack(speedRun)).toBe(true);
+      expect(isValidContentPack(workshop)).toBe(true);
+      expect(getStepCount(validateContentPack(speedRun))).toBe(3);
+      expect(getStepCount(validateContentPack(workshop))).toBe(8);
+    });
+
     it('should handle optional fields correctly', () => {
       const minimalPack = {
         id: 'minimal-pack',
@@ -209,6 +330,141 @@ describe('ContentPack Schema Validation', () => {
 
       expect(() => validateContentPack(minimalPack)).not.toThrow();
     });
+
+    it('should validate meterConfig overrides', () => {
+      const enterprise = {
+        ...createValidPack(),
+        meterConfig: {
+          weights: { R: 0.35, I: 0.25 },
+          unluck: { probability: 0.2 },
+        },
+      };
+      expect(validateContentPack(enterprise).meterConfig).toEqual(enterprise.meterConfig);
+
+      const invalidConfigs = [
+        { weights: { R: 2 } }, // weight above 1
+        { sigmoid: { sigma: 0 } }, // sigma must be positive
+        { randomnessRange: [3, -3] }, // [min <= 0, max >= 0]
+        { unluck: { probability: 1.5 } },
+        { unluck: { factorRange: [0.8, 0.4] } }, // min above max
+      ];
+      invalidConfigs.forEach(meterConfig => {
+        expect(isValidContentPack({ ...createValidPack(), meterConfig })).toBe(false);
+      });
+    });
+
+    it('should validate lucky break overrides', () => {
+      const luckyBreak = { probability: 0.2, factorRange: [1.1, 1.4], bonus: 3, messages: ['Viral tweet!'] };
+      expect(validateContentPack({ ...createValidPack(), meterConfig: { luckyBreak } }).meterConfig?.luckyBreak).toEqual(luckyBreak);
+
+      const invalid = [
+        { factorRange: [0.8, 1.2] }, // would shrink gains like unluck
+        { factorRange: [1.5, 1.2] },
+        { bonus: 11 },
+        { probability: 1.5 },
+        { messages: [''] },
+      ];
+      invalid.forEach(override => {
+        expect(isValidContentPack({ ...createValidPack(), meterConfig: { luckyBreak: override } })).toBe(false);
+      });
+    });
+
+    it('should validate decay and drift', () => {
+      const withConfig = (meterConfig: object) => ({ ...createValidPack(), meterConfig });
+
+      expect(isValidContentPack(withConfig({ decay: { I: 0.1, C: 0.05 }, drift: { S: -1 } }))).toBe(true);
+      expect(isValidContentPack(withConfig({ decay: { I: 0.6 } }))).toBe(false);
+      expect(isValidContentPack(withConfig({ decay: { I: -0.1 } }))).toBe(false);
+      expect(isValidContentPack(withConfig({ drift: { S: 1.5 } }))).toBe(false);
+      expect(isValidContentPack(withConfig({ drift: { S: 6 } }))).toBe(false);
+    });
+
+    it('should validate interaction rules', () => {
+      const rule = { id: 'overload', insight: 'Growth outpaces reliability', when: { gap: { of: ['U', 'S'], min: 11 } }, effect: { C: -2 } };
+      const withRules = (...interactions: object[]) => ({ ...createValidPack(), meterConfig: { interactions } });
+
+      expect(validateContentPack(withRules(rule)).meterConfig?.interactions?.[0].effect).toEqual({ R: 0, U: 0, S: 0, C: -2, I: 0 });
+      expect(isValidContentPack(withRules({ ...rule, when: {} }))).toBe(false); // no condition
+      expect(isValidContentPack(withRules({ ...rule, when: { gap: { of: ['U', 'S'] } } }))).toBe(false);
+      expect(isValidContentPack(withRules({ ...rule, when: { gap: { of: ['U', 'X'], min: 1 } } }))).toBe(false);
+      expect(isValidContentPack(withRules({ ...rule, effect: {} }))).toBe(false); // no effect
+      expect(isValidContentPack(withRules(rule, rule))).toBe(false); // duplicate id
+    });
+
+    it('should validate special events against the pack', () => {
+      const event = { id: 'outage', title: 'Outage', step: 2, choice: 'A', probability: 0.5, messages: ['Down again'] };
+      const withEvents = (...specialEvents: object[]) => ({ ...createValidPack(), meterConfig: { specialEvents } });
+
+      const pack = validateContentPack(withEvents(event, { ...event, id: 'churn', choice: 'B', reductions: { C: 0.3 } }));
+      expect(pack.meterConfig?.specialEvents?.[0]).toMatchObject({ scalingGainsReduction: 1, reductions: {} });
+
+      expect(isValidContentPack(withEvents({ ...event, step: 9 }))).toBe(false); // step not in the pack
+      expect(isValidContentPack(withEvents({ ...event, choice: 'C' }))).toBe(false); // option not on the step
+      expect(isValidContentPack(withEvents(event, event))).toBe(false); // duplicate id
+      expect(isValidContentPack(withEvents({ ...event, messages: [] }))).toBe(false);
+      expect(isValidContentPack(withEvents({ ...event, reductions: { U: 1.5 } }))).toBe(false);
+    });
+
+    it('should describe special event effects and pick messages deterministically', () => {
+      const pack = validateContentPack({
+        ...createValidPack(),
+        meterConfig: {
+          specialEvents: [{
+            id: 'storm', title: 'Storm', step: 1, choice: 'A', probability: 1,
+            scalingGainsReduction: 0.5, reductions: { I: 0.4, U: 0.5 }, messages: ['One', 'Two'],
+          }],
+        },
+      });
+      const [event] = pack.meterConfig?.specialEvents ?? [];
+
+      expect(getSpecialEventEffects(event)).toEqual([
+        { key: 'gains', label: 'Scaling gains', percent: 50 },
+        { key: 'U', label: 'Users', percent: 50 },
+        { key: 'I', label: 'Investors', percent: 40 },
+      ]);
+      expect(getSpecialEventMessage(event, () => 0.99)).toBe('Two');
+      expect(getSpecialEventMessage(event, () => 0)).toBe('One');
+    });
+  });
+
+  describe('computePackHash', () => {
+    const pack = validateContentPack({
+      id: 'hash-pack',
+      version: '1.0.0',
+      title: 'Hash Pack',
+      steps: Array.from({ length: 3 }, (_, i) => ({
+        id: i + 1,
+        title: `Step ${i + 1}`,
+        scenario: `Scenario ${i + 1}`,
+        optionA: { label: 'A', body: 'A', delta: createDelta({ R: i }) },
+        optionB: { label: 'B', body: 'B', delta: createDelta({ U: i }) },
+      })),
+    });
+
+    it('should be stable for equal content regardless of key order or metadata', () => {
+      const reordered = JSON.parse(JSON.stringify(pack, Object.keys(pack).reverse()));
+      expect(computePackHash(pack)).toMatch(/^[0-9a-f]{8}$/);
+      expect(computePackHash({ ...pack, steps: pack.steps.map(step => ({ ...step })) })).toBe(computePackHash(pack));
+      expect(computePackHash({ ...reordered, steps: pack.steps })).toBe(computePackHash(pack));
+      expect(computePackHash({ ...pack, metadata: { updated: new Date().toISOString() } })).toBe(computePackHash(pack));
+    });
+
+    it('should change when step content changes', () => {
+      const edited = {
+        ...pack,
+        steps: pack.steps.map((step, index) =>
+          index === 1 ? { ...step, options: [{ ...step.options[0], delta: createDelta({ R: 5 }) }, step.options[1]] } : step
+        ),
+      };
+      expect(computePackHash(edited)).not.toBe(computePackHash(pack));
+    });
+
+    it('should change when the meterConfig is retuned', () => {
+      const tuned = { ...pack, meterConfig: { decay: { I: 0.1 } } };
+      expect(computePackHash(tuned)).not.toBe(computePackHash(pack));
+      expect(computePackHash({ ...tuned, meterConfig: { decay: { I: 0.2 } } })).not.toBe(computePackHash(tuned));
+      expect(computePackHash({ ...tuned, meterConfig: { decay: { I: 0.1 } } })).toBe(computePackHash(tuned));
+    });
   });
 
   describe('Helper Functions', () => {
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChoiceSchema, type ConsoleEvent } from '../../src/lib/content-pack';
+import { getDefaultPack } from '../../src/lib/default-pack';
+import {
+  buildConsoleScript,
+  createConsoleRng,
+  getScriptDuration,
+  playConsoleScript,
+  resolveConsoleScript,
+  slugify,
+} from '../../src/lib/junie-console';
+
+describe('Junie Console Engine', () => {
+  const choice = getDefaultPack().steps[0].options[0];
+
+  describe('slugify', () => {
+    it('should create a short file-system friendly slug', () => {
+      expect(slugify('Add subscription payments feature')).toBe(
+        'add-subscription-payments-feature',
+      );
+      expect(slugify('Launch MVP dashboard for investors')).toBe(
+        'launch-mvp-dashboard-for',
+      );
+      expect(slugify('!!!')).toBe('feature');
+    });
+  });
+
+  describe('buildConsoleScript', () => {
+    it('should produce logs, a diff, created files and a preview for the choice', () => {
+      const script = buildConsoleScript(choice, createConsoleRng(12345, 0));
+      const types = script.map((event) => event.type);
+
+      expect(types).toContain('log');
+      expect(types).toContain('diff');
+      expect(types).toContain('file');
+      expect(types).toContain('preview');
+      expect(script[0]).toMatchObject({
+        type: 'log',
+        text: expect.stringContaining(choice.label),
+      });
+    });
+
+    it('should repeat timing for the same seed and step', () => {
+      const first = buildConsoleScript(choice, createConsoleRng(12345, 2));
+      const second = buildConsoleScript(choice, createConsoleRng(12345, 2));
+      expect(first.map((e) => e.delay)).toEqual(second.map((e) => e.delay));
+    });
+
+    it('should vary timing across seeds', () => {
+      const first = buildConsoleScript(choice, createConsoleRng(1, 0));
+      const second = buildConsoleScript(choice, createConsoleRng(2, 0));
+      expect(first.map((e) => e.delay)).not.toEqual(second.map((e) => e.delay));
+    });
+  });
+
+  describe('resolveConsoleScript', () => {
+    it('should play back a pack-authored script as-is', () => {
+      const scripted = ChoiceSchema.parse({
+        label: 'Scripted',
+        body: 'Scripted body',
+        delta: {},
+        console: [
+          { type: 'log', text: '> custom line', delay: 50 },
+          { type: 'pause' },
+        ],
+      });
+
+      const script = resolveConsoleScript(scripted, createConsoleRng(1, 0));
+      expect(script).toEqual([
+        { type: 'log', text: '> custom line', delay: 50 },
+        { type: 'pause', delay: 300 },
+      ]);
+    });
+
+    it('should fall back to the generated script when the choice has none', () => {
+      const rngA = createConsoleRng(7, 1);
+      const rngB = createConsoleRng(7, 1);
+      const unscripted = { ...choice, console: undefined };
+      expect(resolveConsoleScript(unscripted, rngA)).toEqual(
+        buildConsoleScript(unscripted, rngB),
+      );
+    });
+  });
+
+  describe('playConsoleScript', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const script: ConsoleEvent[] = [
+      { type: 'log', text: 'one', delay: 100 },
+      { type: 'pause', delay: 200 },
+      { type: 'log', text: 'two', delay: 100 },
+    ];
+
+    it('should emit events in order and complete', () => {
+      const onEvent = vi.fn();
+      const onComplete = vi.fn();
+      playConsoleScript(script, { onEvent, onComplete });
+
+      vi.advanceTimersByTime(100);
+      expect(onEvent).toHaveBeenCalledTimes(1);
+      expect(onEvent).toHaveBeenLastCalledWith(script[0], 0);
+
+      vi.advanceTimersByTime(getScriptDuration(script));
+      expect(onEvent).toHaveBeenCalledTimes(3);
+      expect(onComplete).toHaveBeenCalledWith({ timedOut: false });
+    });
+
+    it('should complete with timedOut when the timeout elapses first', () => {
+      const onEvent = vi.fn();
+      const onComplete = vi.fn();
+      playConsoleScript(script, { onEvent, onComplete }, { timeoutMs: 150 });
+
+      vi.advanceTimersByTime(1000);
+      expect(onEvent).toHaveBeenCalledTimes(1);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+      expect(onComplete).toHaveBeenCalledWith({ timedOut: true });
+    });
+
+    it('should stop emitting after cancel', () => {
+      const onEvent = vi.fn();
+      const onComplete = vi.fn();
+      const stream = playConsoleScript(script, { onEvent, onComplete });
+
+      stream.cancel();
+      vi.advanceTimersByTime(10000);
+      expect(onEvent).not.toHaveBeenCalled();
+      expect(onComplete).not.toHaveBeenCalled();
+    });
+
+    it('should honour the speed multiplier', () => {
+      const onComplete = vi.fn();
+      playConsoleScript(script, { onEvent: vi.fn(), onComplete }, { speed: 2 });
+
+      vi.advanceTimersByTime(getScriptDuration(script, 2));
+      expect(onComplete).toHaveBeenCalledWith({ timedOut: false });
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { createDelta, isValidContentPack } from '../../src/lib/content-pack';
+import {
+  DEFAULT_METER_FORMULA,
+  finishMeter,
+  getMeterFormula,
+  getMeterFormulas,
+  hasMeterFormula,
+  registerMeterFormula,
+} from '../../src/lib/meter-formulas';
+import {
+  computeMeter,
+  DEFAULT_CONFIG,
+  type EffectiveState,
+  type MeterConfig,
+  resolveMeterConfig,
+} from '../../src/lib/scaling-meter';
+
+// No momentum or noise, so the meters only reflect each formula's raw score
+const quietConfig: MeterConfig = {
+  ...DEFAULT_CONFIG,
+  momentumBonus: 0,
+  randomnessRange: [0, 0],
+};
+const balanced: EffectiveState = { R: 10, U: 10, S: 10, C: 10, I: 10 };
+const lopsided: EffectiveState = { R: 25, U: 25, S: 0, C: 0, I: 0 };
+const meterWith = (formula: string, effective: EffectiveState) =>
+  computeMeter(effective, 100, () => 0.5, { ...quietConfig, formula }).meter;
+
+describe('Meter Formulas', () => {
+  it('should register the built-in formulas with weighted sum as the default', () => {
+    expect(getMeterFormulas().map((formula) => formula.id)).toEqual(
+      expect.arrayContaining([
+        'weighted-sum',
+        'geometric-mean',
+        'softmax-bottleneck',
+      ]),
+    );
+    expect(DEFAULT_CONFIG.formula).toBe(DEFAULT_METER_FORMULA);
+    expect(getMeterFormula('does-not-exist').id).toBe('weighted-sum');
+  });
+
+  it('should keep the weighted sum formula identical to the documented pipeline', () => {
+    const result = computeMeter(lopsided, 0, () => 0.5);
+    const contributions = { R: 0.3 * 25, U: 0.25 * 25, S: 0, C: 0, I: 0 };
+    const raw = contributions.R + contributions.U;
+
+    expect(result.raw).toBeCloseTo(raw);
+    expect(result).toEqual(
+      finishMeter(raw, contributions, lopsided, 0, () => 0.5, DEFAULT_CONFIG),
+    );
+  });
+
+  it('should punish neglected dimensions with geometric mean and bottleneck formulas', () => {
+    // The lopsided state has the higher weighted sum...
+    expect(meterWith('weighted-sum', lopsided)).toBeGreaterThan(
+      meterWith('weighted-sum', balanced),
+    );
+    // ...but both alternatives prefer the balanced one
+    expect(meterWith('geometric-mean', lopsided)).toBeLessThan(
+      meterWith('geometric-mean', balanced),
+    );
+    expect(meterWith('softmax-bottleneck', lopsided)).toBeLessThan(
+      meterWith('softmax-bottleneck', balanced),
+    );
+  });
+
+  it('should split raw into per-dimension contributions for every formula', () => {
+    for (const { id } of getMeterFormulas()) {
+      const { raw, breakdown } = computeMeter(lopsided, 100, () => 0.5, {
+        ...quietConfig,
+        formula: id,
+      });
+      const total = Object.values(breakdown?.contributions ?? {}).reduce(
+        (sum, value) => sum + value,
+        0,
+      );
+
+      expect(total).toBeCloseTo(raw);
+      expect(breakdown?.contributions.S).toBe(0);
+    }
+  });
+
+  it('should agree on a perfectly balanced state', () => {
+    const weighted = computeMeter(balanced, 100, () => 0.5, quietConfig).raw;
+
+    expect(
+      computeMeter(balanced, 100, () => 0.5, {
+        ...quietConfig,
+        formula: 'geometric-mean',
+      }).raw,
+    ).toBeCloseTo(weighted);
+    expect(
+      computeMeter(balanced, 100, () => 0.5, {
+        ...quietConfig,
+        formula: 'softmax-bottleneck',
+      }).raw,
+    ).toBeCloseTo(weighted);
+  });
+
+  it('should let packs select registered formulas only', () => {
+    const pack = {
+      id: 'formula-pack',
+      version: '1.0.0',
+      title: 'Formula Pack',
+      steps: Array.from({ length: 3 }, (_, i) => ({
+        id: i + 1,
+        title: `Step ${i + 1}`,
+        scenario: 'Scenario',
+        options: [
+          { id: 'A', label: 'A', body: 'A', delta: createDelta({ R: 5 }) },
+          { id: 'B', label: 'B', body: 'B', delta: createDelta({ C: 5 }) },
+        ],
+      })),
+    };
+
+    expect(
+      isValidContentPack({
+        ...pack,
+        meterConfig: { formula: 'geometric-mean' },
+      }),
+    ).toBe(true);
+    expect(
+      isValidContentPack({ ...pack, meterConfig: { formula: 'coin-flip' } }),
+    ).toBe(false);
+    expect(resolveMeterConfig({ formula: 'softmax-bottleneck' }).formula).toBe(
+      'softmax-bottleneck',
+    );
+
+    registerMeterFormula({
+      id: 'coin-flip',
+      name: 'Coin flip',
+      description: 'Test formula',
+      compute: (effective, lastMeter, rng, config) =>
+        finishMeter(
+          rng() < 0.5 ? 0 : 50,
+          { R: 0, U: 0, S: 0, C: 0, I: 0 },
+          effective,
+          lastMeter,
+          rng,
+          config,
+        ),
+    });
+    expect(hasMeterFormula('coin-flip')).toBe(true);
+    expect(
+      isValidContentPack({ ...pack, meterConfig: { formula: 'coin-flip' } }),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,259 @@
+// @vitest-environment node
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { type ContentPack, createDelta } from '../../src/lib/content-pack';
+import {
+  EXIT_FAILURE,
+  EXIT_OK,
+  EXIT_USAGE,
+  runPackCli,
+} from '../../src/lib/pack-cli';
+import { diffContentPacks } from '../../src/lib/pack-diff';
+
+const createPack = (): ContentPack => ({
+  id: 'cli-pack',
+  version: '1.0.0',
+  title: 'CLI Pack',
+  steps: Array.from({ length: 3 }, (_, i) => ({
+    id: i + 1,
+    title: `Step ${i + 1}`,
+    scenario: `Scenario ${i + 1}`,
+    options: [
+      {
+        id: 'A',
+        label: 'Ship',
+        body: 'Ship it',
+        delta: createDelta({ R: 8, U: 6, S: 4 }),
+      },
+      {
+        id: 'B',
+        label: 'Polish',
+        body: 'Polish it',
+        delta: createDelta({ C: 5, I: 5, R: -2 }),
+      },
+    ],
+  })),
+});
+
+const INVALID_YAML = `id: broken-pack
+version: "1.0.0"
+title: Broken
+steps:
+  - id: 1
+    title: Only step
+    scenario: Scenario
+    optionA:
+      label: A
+      body: A
+      delta: { R: 20 }
+    optionB:
+      label: B
+      body: B
+      delta: { R: 1 }
+`;
+
+let dir: string;
+const file = (name: string) => join(dir, name);
+
+const run = async (...args: string[]) => {
+  const out: string[] = [];
+  const err: string[] = [];
+  const code = await runPackCli(args, {
+    out: (line) => out.push(line),
+    err: (line) => err.push(line),
+  });
+  return { code, out: out.join('\n'), err: err.join('\n') };
+};
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'pack-cli-'));
+  const changed = createPack();
+  changed.version = '1.1.0';
+  changed.steps[1].options[0].delta.R = 10;
+  changed.steps[2].options.push({
+    id: 'C',
+    label: 'Pivot',
+    body: 'Pivot',
+    delta: createDelta({ U: 4 }),
+  });
+
+  const flat = createPack();
+  flat.steps[0].options[1].delta = { ...flat.steps[0].options[0].delta };
+
+  await writeFile(file('pack.json'), JSON.stringify(createPack()));
+  await writeFile(file('flat.json'), JSON.stringify(flat));
+  await writeFile(file('changed.json'), JSON.stringify(changed));
+  await writeFile(file('broken.yaml'), INVALID_YAML);
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('Pack CLI', () => {
+  it('should validate a pack file', async () => {
+    const result = await run('validate', file('pack.json'));
+
+    expect(result.code).toBe(EXIT_OK);
+    expect(result.out).toContain(
+      'cli-pack@1.0.0 "CLI Pack" is valid (3 steps)',
+    );
+  });
+
+  it('should report diagnostics with YAML positions for invalid packs', async () => {
+    const result = await run('validate', file('broken.yaml'));
+
+    expect(result.code).toBe(EXIT_FAILURE);
+    expect(result.err).toContain('invalid content pack');
+    expect(result.err).toContain(
+      'steps[0].optionA.delta.R (line 11, column 16): Must be at most 15',
+    );
+    expect(result.err).toContain(
+      'steps (line 4, column 1): Must have at least 3 items',
+    );
+  });
+
+  it('should fail for missing files', async () => {
+    const result = await run('validate', file('missing.json'));
+
+    expect(result.code).toBe(EXIT_FAILURE);
+    expect(result.err).toContain('File system access failed');
+  });
+
+  it('should fail lint on warnings but not on info', async () => {
+    const lintFailing = await run('lint', file('flat.json'));
+    expect(lintFailing.code).toBe(EXIT_FAILURE);
+    expect(lintFailing.out).toContain(
+      '[warning] identical-deltas steps[0].options[1].delta',
+    );
+    expect(lintFailing.out).toContain('flat.json: 1 problem');
+
+    const lintPassing = await run('lint', file('pack.json'));
+    expect(lintPassing.code).toBe(EXIT_OK);
+    expect(lintPassing.out).toContain('[info] meter-range');
+    expect(lintPassing.out).toContain('no problems');
+  });
+
+  it('should print a simulation report', async () => {
+    const result = await run(
+      'simulate',
+      file('pack.json'),
+      '--runs',
+      '50',
+      '--seed=7',
+    );
+
+    expect(result.code).toBe(EXIT_OK);
+    expect(result.out).toContain('cli-pack@1.0.0: 50 runs from seed 7');
+    expect(result.out).toMatch(
+      /Final meter: mean [\d.]+, median [\d.]+, min \d+, max \d+/,
+    );
+    expect(result.out).toContain('Scaling Up');
+    expect(result.out).toMatch(/Unluck: [\d.]+% of steps/);
+  });
+
+  it('should print a balance report as text or JSON', async () => {
+    const text = await run('balance', file('pack.json'), '--seeds', '5');
+    expect(text.code).toBe(EXIT_OK);
+    expect(text.out).toContain(
+      'cli-pack@1.0.0: 8 paths × 5 seeds (from 0) = 40 runs',
+    );
+    expect(text.out).toContain('Best paths:');
+
+    const json = await run(
+      'balance',
+      '--json',
+      file('pack.json'),
+      '--seeds=5',
+      '--seed',
+      '3',
+    );
+    expect(json.code).toBe(EXIT_OK);
+    expect(JSON.parse(json.out)).toMatchObject({
+      pack: { id: 'cli-pack' },
+      seeds: 5,
+      seedStart: 3,
+      runs: 40,
+    });
+  });
+
+  it('should compare meter formulas and accept a formula override', async () => {
+    const result = await run('formulas', file('pack.json'), '--seeds', '3');
+    expect(result.code).toBe(EXIT_OK);
+    expect(result.out).toContain(
+      'cli-pack@1.0.0: 8 paths × 3 seeds (from 0) per formula',
+    );
+    expect(result.out).toContain('softmax-bottleneck');
+
+    const balance = await run(
+      'balance',
+      file('pack.json'),
+      '--seeds',
+      '3',
+      '--formula',
+      'geometric-mean',
+      '--json',
+    );
+    expect(balance.code).toBe(EXIT_OK);
+    expect(balance.out).not.toEqual(
+      (await run('balance', file('pack.json'), '--seeds', '3', '--json')).out,
+    );
+
+    const unknown = await run(
+      'simulate',
+      file('pack.json'),
+      '--formula',
+      'coin-flip',
+    );
+    expect(unknown.code).toBe(EXIT_USAGE);
+    expect(unknown.err).toContain('Unknown meter formula "coin-flip"');
+  });
+
+  it('should diff two packs and exit 1 when they differ', async () => {
+    const same = await run('diff', file('pack.json'), file('pack.json'));
+    expect(same.code).toBe(EXIT_OK);
+    expect(same.out).toContain('identical');
+
+    const changed = await run('diff', file('pack.json'), file('changed.json'));
+    expect(changed.code).toBe(EXIT_FAILURE);
+    expect(changed.out.split('\n')).toEqual([
+      '~ version: "1.0.0" → "1.1.0"',
+      '~ steps[1].options.A.delta.R: 8 → 10',
+      '+ steps[2].options.C: "Pivot"',
+      '3 changes',
+    ]);
+  });
+
+  it('should reject bad usage', async () => {
+    expect((await run()).code).toBe(EXIT_USAGE);
+    expect((await run('explode', file('pack.json'))).err).toContain(
+      'Unknown command "explode"',
+    );
+    expect((await run('diff', file('pack.json'))).code).toBe(EXIT_USAGE);
+    expect(
+      (await run('simulate', file('pack.json'), '--runs', 'many')).err,
+    ).toContain('--runs must be an integer');
+  });
+});
+
+describe('Pack Diff', () => {
+  it('should report removed steps and changed text', () => {
+    const a = createPack();
+    const b = createPack();
+    b.steps[0].scenario = 'A new scenario';
+    b.steps.pop();
+
+    expect(diffContentPacks(a, b)).toEqual([
+      {
+        path: 'steps[0].scenario',
+        kind: 'changed',
+        before: '"Scenario 1"',
+        after: '"A new scenario"',
+      },
+      { path: 'steps[2]', kind: 'removed', before: '"Step 3" (A/B)' },
+    ]);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, expect, it } from 'vitest';
+import { loadContentPackFromString } from '../../src/lib/content-loader';
+import { ContentPackSchema } from '../../src/lib/content-pack';
+import { getDefaultPack } from '../../src/lib/default-pack';
+import {
+  formatDiagnostic,
+  formatDiagnosticPath,
+  getValidationDiagnostics,
+  parseYamlWithLocations,
+} from '../../src/lib/pack-diagnostics';
+
+const diagnose = (data: unknown) => {
+  const result = ContentPackSchema.safeParse(data);
+  if (result.success) throw new Error('Expected validation to fail');
+  return getValidationDiagnostics(result.error, data);
+};
+
+// Default pack with its first three steps written in the legacy optionA/optionB form
+const createLegacyPack = () => {
+  const pack = JSON.parse(JSON.stringify(getDefaultPack()));
+  pack.steps = pack.steps
+    .slice(0, 3)
+    .map(({ options, ...step }: { options: Array<{ id: string }> }) => ({
+      ...step,
+      optionA: { ...options[0], id: undefined },
+      optionB: { ...options[1], id: undefined },
+    }));
+  return pack;
+};
+
+const yamlPack = `id: yaml-pack
+version: "1.0"
+title: YAML Pack
+steps:
+  - id: 1
+    title: One
+    scenario: First
+    optionA:
+      label: A
+      body: Body
+      delta: { R: 20 }
+    optionB:
+      label: B
+      body: Body
+      delta:
+        S: lots
+  - id: 2
+    title: Two
+    scenario: Second
+    optionA: { label: A, body: Body, delta: {} }
+    optionB: { label: B, body: Body, delta: {} }
+  - id: 3
+    title: Three
+    options:
+      - { id: A, label: A, body: Body, delta: {} }
+      - { id: B, body: Body, delta: {} }
+`;
+
+describe('Pack Diagnostics', () => {
+  it('should format paths with indexes and dotted keys', () => {
+    expect(formatDiagnosticPath(['steps', 2, 'optionB', 'delta', 'S'])).toBe(
+      'steps[2].optionB.delta.S',
+    );
+    expect(formatDiagnosticPath(['metadata', 'my-key'])).toBe(
+      'metadata["my-key"]',
+    );
+    expect(formatDiagnosticPath([])).toBe('(root)');
+  });
+
+  it('should describe range, type and format issues with expected and received values', () => {
+    const pack = JSON.parse(JSON.stringify(getDefaultPack()));
+    pack.version = 'v1';
+    pack.steps[0].options[0].delta.R = 20;
+    pack.steps[1].options[1].label = 5;
+    delete pack.steps[2].scenario;
+    pack.steps[3].options[0].console = [{ type: 'bogus' }];
+
+    expect(diagnose(pack)).toEqual([
+      expect.objectContaining({
+        path: 'version',
+        message: 'Does not match the required format',
+        received: '"v1"',
+      }),
+      {
+        path: 'steps[0].options[0].delta.R',
+        message: 'Must be at most 15',
+        expected: '<= 15',
+        received: '20',
+        severity: 'error',
+      },
+      {
+        path: 'steps[1].options[1].label',
+        message: 'Must be a string',
+        expected: 'string',
+        received: '5',
+        severity: 'error',
+      },
+      {
+        path: 'steps[2].scenario',
+        message: 'Missing required field',
+        expected: 'string',
+        severity: 'error',
+      },
+      {
+        path: 'steps[3].options[0].console[0].type',
+        message: 'Unknown type',
+        received: '"bogus"',
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('should report legacy optionA/optionB paths as written', () => {
+    const pack = createLegacyPack();
+    pack.steps[2].optionB.delta.S = -11;
+
+    const [diagnostic] = diagnose(pack);
+    expect(diagnostic.path).toBe('steps[2].optionB.delta.S');
+    expect(formatDiagnostic(diagnostic)).toBe(
+      'steps[2].optionB.delta.S: Must be at least -10 (expected >= -10, received -11)',
+    );
+  });
+
+  it('should report array and custom issues', () => {
+    const pack = JSON.parse(JSON.stringify(getDefaultPack()));
+    pack.steps = pack.steps.slice(0, 2);
+    expect(diagnose(pack)[0]).toMatchObject({
+      path: 'steps',
+      message: 'Must have at least 3 items',
+      received: '2 items',
+    });
+
+    const reordered = JSON.parse(JSON.stringify(getDefaultPack()));
+    reordered.steps[1].id = 7;
+    expect(diagnose(reordered)[0]).toMatchObject({
+      path: 'steps[1].id',
+      message: 'Step ids must be sequential starting at 1 (expected 2, got 7)',
+    });
+  });
+
+  it('should locate YAML nodes by path, falling back to the nearest ancestor', () => {
+    const { locate } = parseYamlWithLocations(yamlPack);
+
+    expect(locate(['version'])).toEqual({ line: 2, column: 1 });
+    expect(locate(['steps', 0, 'optionA', 'delta', 'R'])).toEqual({
+      line: 11,
+      column: 16,
+    });
+    expect(locate(['steps', 2, 'options', 1, 'label'])).toEqual({
+      line: 26,
+      column: 9,
+    });
+    expect(locate(['steps', 2, 'scenario'])).toEqual({ line: 22, column: 5 });
+  });
+
+  it('should attach YAML line and column to load results', () => {
+    const result = loadContentPackFromString(
+      yamlPack,
+      'yaml',
+      getDefaultPack(),
+    );
+
+    expect(result.source).toBe('fallback');
+    expect(
+      result.diagnostics?.map(({ path, line, column }) => ({
+        path,
+        line,
+        column,
+      })),
+    ).toEqual([
+      { path: 'version', line: 2, column: 1 },
+      { path: 'steps[0].optionA.delta.R', line: 11, column: 16 },
+      { path: 'steps[0].optionB.delta.S', line: 16, column: 9 },
+      { path: 'steps[2].scenario', line: 22, column: 5 },
+      { path: 'steps[2].options[1].label', line: 26, column: 9 },
+    ]);
+    expect(result.errors[1]).toBe(
+      'Failed to parse content: steps[0].optionA.delta.R (line 11, column 16): Must be at most 15 (expected <= 15, received 20)',
+    );
+  });
+
+  it('should report YAML syntax errors with their position', () => {
+    const result = loadContentPackFromString(
+      'id: broken\nsteps: [1, 2\n',
+      'yaml',
+      getDefaultPack(),
+    );
+
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics?.[0]).toMatchObject({
+      path: '(root)',
+      severity: 'error',
+      line: expect.any(Number),
+    });
+    expect(result.diagnostics?.[0].message).toMatch(/^YAML syntax error/);
+  });
+});
@@ -0,0 +1,184 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  type ContentPack,
+  createDelta,
+  type Step,
+  validateContentPack,
+} from '../../src/lib/content-pack';
+import { getDefaultPack } from '../../src/lib/default-pack';
+import {
+  BREAKOUT_THRESHOLD,
+  getReachableMeterRanges,
+  lintContentPack,
+} from '../../src/lib/pack-lint';
+import { explorePackPaths, formatPath } from '../../src/lib/pack-paths';
+
+const createSteps = (count: number): Step[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: i + 1,
+    title: `Step ${i + 1}`,
+    scenario: `Scenario ${i + 1}`,
+    options: [
+      {
+        id: 'A',
+        label: 'A',
+        body: 'A',
+        delta: createDelta({ R: 8, U: 6, S: 4 }),
+      },
+      {
+        id: 'B',
+        label: 'B',
+        body: 'B',
+        delta: createDelta({ C: 5, I: 5, R: -2 }),
+      },
+    ],
+  }));
+
+const createPack = (steps: Step[]): ContentPack => ({
+  id: 'lint-pack',
+  version: '1.0.0',
+  title: 'Lint Pack',
+  steps,
+});
+
+const rulesOf = (pack: ContentPack) =>
+  lintContentPack(pack).map((warning) => warning.rule);
+
+describe('Pack Paths', () => {
+  it('should play every linear path once', () => {
+    const { outcomes, truncated } = explorePackPaths(
+      createPack(createSteps(3)),
+    );
+
+    expect(truncated).toBe(false);
+    expect(outcomes.map(formatPath)).toEqual([
+      '1A → 2A → 3A',
+      '1A → 2A → 3B',
+      '1A → 2B → 3A',
+      '1A → 2B → 3B',
+      '1B → 2A → 3A',
+      '1B → 2A → 3B',
+      '1B → 2B → 3A',
+      '1B → 2B → 3B',
+    ]);
+    expect(outcomes.every((outcome) => outcome.runState.stepCount === 3)).toBe(
+      true,
+    );
+  });
+
+  it('should follow branches and respect the limit', () => {
+    const steps = createSteps(4);
+    steps[0].options[0].next = 4;
+
+    const { outcomes } = explorePackPaths(createPack(steps));
+    expect(outcomes.map(formatPath)).toContain('1A → 4B');
+    expect(outcomes).toHaveLength(2 + 8);
+
+    expect(
+      explorePackPaths(createPack(createSteps(4)), { limit: 5 }),
+    ).toMatchObject({ truncated: true });
+  });
+});
+
+describe('lintContentPack', () => {
+  it('should report reachable ranges for the default pack without design warnings', () => {
+    const warnings = lintContentPack(getDefaultPack());
+
+    expect(warnings.filter((warning) => warning.severity !== 'info')).toEqual(
+      [],
+    );
+    expect(
+      warnings.find((warning) => warning.rule === 'meter-range')?.message,
+    ).toContain('1A → 2A → 3A → 4A → 5B');
+  });
+
+  it('should pass for every published pack', () => {
+    const packsDir = path.resolve(__dirname, '../../public/packs');
+    const files = readdirSync(packsDir).filter(
+      (file) => file.endsWith('.json') && file !== 'index.json',
+    );
+
+    expect(files.length).toBeGreaterThan(0);
+    for (const file of files) {
+      const pack = validateContentPack(
+        JSON.parse(readFileSync(path.join(packsDir, file), 'utf-8')),
+      );
+      // Same bar as `npm run packs -- lint`: info lines are reports, not problems
+      expect(
+        lintContentPack(pack).filter((warning) => warning.severity !== 'info'),
+        file,
+      ).toEqual([]);
+    }
+  });
+
+  it('should flag identical deltas and one-sided unluck messages with option paths', () => {
+    const steps = createSteps(3);
+    steps[1].options[1].delta = createDelta({ R: 8, U: 6, S: 4 });
+    steps[2].options[0].unluckMessages = ['The launch slipped a week.'];
+
+    const warnings = lintContentPack(createPack(steps));
+    expect(warnings).toContainEqual(
+      expect.objectContaining({
+        rule: 'identical-deltas',
+        severity: 'warning',
+        path: 'steps[1].options[1].delta',
+      }),
+    );
+    expect(warnings).toContainEqual(
+      expect.objectContaining({
+        rule: 'one-sided-unluck-messages',
+        path: 'steps[2].options[1].unluckMessages',
+      }),
+    );
+  });
+
+  it('should flag dimensions that no option raises', () => {
+    const steps = createSteps(3).map((step) => ({
+      ...step,
+      options: step.options.map((option) => ({
+        ...option,
+        delta: { ...option.delta, I: Math.min(option.delta.I, 0) },
+      })),
+    }));
+
+    const warning = lintContentPack(createPack(steps)).find(
+      (entry) => entry.rule === 'dimension-never-raised',
+    );
+    expect(warning?.message).toContain(
+      'No option raises I (Investor Confidence)',
+    );
+  });
+
+  it('should report duplicate step ids from unvalidated packs and skip path checks', () => {
+    const steps = createSteps(3);
+    steps[2].id = 2;
+
+    expect(lintContentPack(createPack(steps))).toEqual([
+      expect.objectContaining({
+        rule: 'duplicate-step-id',
+        severity: 'error',
+        path: 'steps[2].id',
+      }),
+    ]);
+  });
+
+  it('should warn when the best path cannot reach Breakout Trajectory', () => {
+    const weak = createSteps(3).map((step) => ({
+      ...step,
+      options: step.options.map((option) => ({
+        ...option,
+        delta: createDelta({ R: 1, U: 1, S: 1, C: 1, I: 1 }),
+      })),
+    }));
+    weak.forEach((step, index) => {
+      step.options[1].delta = createDelta({ R: index + 2 });
+    });
+
+    const ranges = getReachableMeterRanges(createPack(weak));
+    expect(ranges.lucky.max).toBeLessThan(BREAKOUT_THRESHOLD);
+    expect(ranges.unlucky.min).toBeLessThanOrEqual(ranges.neutral.min);
+    expect(rulesOf(createPack(weak))).toContain('breakout-unreachable');
+  });
+});
@@ -0,0 +1,278 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { computePackHash } from '../../src/lib/content-pack';
+import { getDefaultPack } from '../../src/lib/default-pack';
+import { getPackReloadHref, PackManager } from '../../src/lib/pack-manager';
+
+// Mock fetch for URL loading tests
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const customPack = {
+  ...getDefaultPack(),
+  id: 'custom-pack',
+  version: '2.0.0',
+  title: 'Custom Pack',
+  steps: getDefaultPack().steps.slice(0, 3),
+  meterConfig: undefined, // The default special event targets step 4
+};
+
+const registry = {
+  packs: [
+    { id: 'custom-pack', version: '1.0.0', location: 'custom-1.0.0.json' },
+    {
+      id: 'custom-pack',
+      version: '2.0.0',
+      location: 'custom-2.0.0.json',
+      checksum: computePackHash(customPack),
+      tags: ['short'],
+    },
+  ],
+};
+
+// Serve the manifest and pack files from /packs/
+const serveRegistry = (files: Record<string, unknown>) => {
+  mockFetch.mockImplementation(async (url: string) => {
+    const file = files[new URL(url).pathname];
+    return file
+      ? {
+          ok: true,
+          json: async () => file,
+          text: async () => JSON.stringify(file),
+        }
+      : { ok: false, status: 404, statusText: 'Not Found' };
+  });
+};
+
+describe('PackManager', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    window.history.replaceState({}, '', '/');
+    vi.restoreAllMocks();
+  });
+
+  it('should start with the default pack and no load result when no URL override is given', async () => {
+    const manager = new PackManager();
+
+    expect(await manager.initializeFromUrl()).toBeNull();
+    expect(manager.getCurrentPack().id).toBe(getDefaultPack().id);
+  });
+
+  it('should switch to a pack loaded from ?packUrl=', async () => {
+    window.history.replaceState(
+      {},
+      '',
+      '/?packUrl=https://packs.test/custom.json',
+    );
+    mockFetch.mockResolvedValue({
+      ok: true,
+      text: async () => JSON.stringify(customPack),
+    });
+
+    const manager = new PackManager();
+    const result = await manager.initializeFromUrl();
+
+    expect(result?.source).toBe('url');
+    expect(manager.getCurrentPack().id).toBe('custom-pack');
+    expect(manager.getCurrentPackInfo()).toMatchObject({
+      id: 'custom-pack',
+      version: '2.0.0',
+      source: 'url',
+    });
+    expect(manager.getPackUrl('custom-pack')).toBe(
+      'https://packs.test/custom.json',
+    );
+  });
+
+  it('should report a fallback result when ?packUrl= fails to load', async () => {
+    window.history.replaceState(
+      {},
+      '',
+      '/?packUrl=https://packs.test/missing.json',
+    );
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 404,
+      statusText: 'Not Found',
+    });
+
+    const manager = new PackManager();
+    const result = await manager.initializeFromUrl();
+
+    expect(result?.source).toBe('fallback');
+    expect(result?.errors[0]).toContain('404');
+    expect(manager.getCurrentPack().id).toBe(getDefaultPack().id);
+  });
+
+  it('should report a fallback result when ?pack= names an unknown pack', async () => {
+    window.history.replaceState({}, '', '/?pack=missing-pack');
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 404,
+      statusText: 'Not Found',
+    });
+
+    const manager = new PackManager();
+    const result = await manager.initializeFromUrl();
+
+    expect(result?.source).toBe('fallback');
+    expect(result?.errors[0]).toContain('missing-pack');
+    expect(manager.getCurrentPack().id).toBe(getDefaultPack().id);
+    expect(manager.getLoadHistory()).toHaveLength(1);
+  });
+
+  it('should list registry packs before they are loaded', async () => {
+    serveRegistry({ '/packs/index.json': registry });
+
+    const manager = new PackManager();
+    await manager.initializeFromUrl();
+
+    expect(manager.getAvailablePacks()).toEqual([
+      expect.objectContaining({
+        id: getDefaultPack().id,
+        isActive: true,
+        isLoaded: true,
+      }),
+      expect.objectContaining({
+        id: 'custom-pack',
+        version: '1.0.0',
+        source: 'registry',
+        isLoaded: false,
+      }),
+      expect.objectContaining({
+        id: 'custom-pack',
+        version: '2.0.0',
+        source: 'registry',
+        isLoaded: false,
+        tags: ['short'],
+      }),
+    ]);
+  });
+
+  it('should resolve ?pack= against the registry, including pinned versions', async () => {
+    const olderPack = { ...customPack, version: '1.0.0' };
+    serveRegistry({
+      '/packs/index.json': registry,
+      '/packs/custom-1.0.0.json': olderPack,
+      '/packs/custom-2.0.0.json': customPack,
+    });
+
+    window.history.replaceState({}, '', '/?pack=custom-pack');
+    const latest = new PackManager();
+    await latest.initializeFromUrl();
+    expect(latest.getCurrentPackInfo()).toMatchObject({
+      id: 'custom-pack',
+      version: '2.0.0',
+      source: 'registry',
+      tags: ['short'],
+    });
+
+    window.history.replaceState({}, '', '/?pack=custom-pack@1.0.0');
+    const pinned = new PackManager();
+    await pinned.initializeFromUrl();
+    expect(pinned.getCurrentPackInfo()).toMatchObject({
+      id: 'custom-pack',
+      version: '1.0.0',
+    });
+    expect(window.location.search).toBe('?pack=custom-pack%401.0.0');
+  });
+
+  it('should fall back when a registry pack fails its checksum', async () => {
+    serveRegistry({
+      '/packs/index.json': registry,
+      '/packs/custom-2.0.0.json': {
+        ...customPack,
+        title: 'Edited',
+        steps: getDefaultPack()
+          .steps.slice(1, 4)
+          .map((step, i) => ({ ...step, id: i + 1 })),
+      },
+    });
+    window.history.replaceState({}, '', '/?pack=custom-pack@2.0.0');
+
+    const manager = new PackManager();
+    const result = await manager.initializeFromUrl();
+
+    expect(result?.source).toBe('fallback');
+    expect(result?.errors[0]).toContain('Checksum mismatch');
+    expect(manager.getCurrentPack().id).toBe(getDefaultPack().id);
+  });
+
+  it('should report an unavailable registry without blocking startup', async () => {
+    serveRegistry({});
+
+    const manager = new PackManager();
+    expect(await manager.initializeFromUrl()).toBeNull();
+    expect(manager.getRegistryErrors()[0]).toContain('404');
+    expect(manager.getAvailablePacks()).toHaveLength(1);
+  });
+
+  it('should build reload URLs for the pack a run was played on', () => {
+    const href = 'https://game.test/?dev&pack=other';
+
+    expect(
+      getPackReloadHref(href, {
+        id: 'custom-pack',
+        url: 'https://packs.test/custom.json',
+      }),
+    ).toBe(
+      'https://game.test/?dev=&packUrl=https%3A%2F%2Fpacks.test%2Fcustom.json',
+    );
+    expect(getPackReloadHref(href, { id: 'custom-pack' })).toBe(
+      'https://game.test/?dev=&pack=custom-pack',
+    );
+    expect(
+      getPackReloadHref(href, { id: 'custom-pack', version: '1.0.0' }),
+    ).toBe('https://game.test/?dev=&pack=custom-pack%401.0.0');
+    expect(getPackReloadHref(href, { id: getDefaultPack().id })).toBe(
+      'https://game.test/?dev=',
+    );
+  });
+
+  it('should only offer to reload packs that load back exactly', async () => {
+    serveRegistry({ '/packs/index.json': registry });
+    const manager = new PackManager();
+    await manager.initializeFromUrl();
+    const defaultPack = getDefaultPack();
+    const hash = computePackHash(customPack);
+
+    expect(
+      manager.canReloadPack({
+        id: defaultPack.id,
+        version: defaultPack.version,
+        hash: computePackHash(defaultPack),
+      }),
+    ).toBe(true);
+    expect(
+      manager.canReloadPack({
+        id: defaultPack.id,
+        version: '0.9.0',
+        hash: 'aaaaaaaa',
+      }),
+    ).toBe(false);
+    expect(
+      manager.canReloadPack({ id: 'custom-pack', version: '2.0.0', hash }),
+    ).toBe(true);
+    expect(
+      manager.canReloadPack({
+        id: 'custom-pack',
+        version: '2.0.0',
+        hash: 'aaaaaaaa',
+      }),
+    ).toBe(false);
+    expect(
+      manager.canReloadPack({ id: 'custom-pack', version: '3.0.0', hash }),
+    ).toBe(false);
+    expect(
+      manager.canReloadPack({
+        id: 'other-pack',
+        version: '1.0.0',
+        hash,
+        url: 'https://packs.test/other.json',
+      }),
+    ).toBe(true);
+  });
+});
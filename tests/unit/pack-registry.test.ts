@@ -0,0 +1,116 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  computePackHash,
+  validateContentPack,
+} from '../../src/lib/content-pack';
+import { getDefaultPack } from '../../src/lib/default-pack';
+import {
+  compareVersions,
+  type PackRegistry,
+  parsePackSpecifier,
+  resolveEntryLocation,
+  resolveRegistryEntry,
+  validatePackRegistry,
+  verifyRegistryEntry,
+} from '../../src/lib/pack-registry';
+
+const registry: PackRegistry = {
+  packs: [
+    { id: 'saas', version: '1.2.0', location: 'saas-1.2.0.json' },
+    {
+      id: 'saas',
+      version: '1.10.0',
+      location: 'saas-1.10.0.json',
+      tags: ['latest'],
+    },
+    {
+      id: 'hardware',
+      version: '0.1.0',
+      location: 'https://cdn.test/hardware.yaml',
+    },
+  ],
+};
+
+describe('Pack Registry', () => {
+  it('should parse pack specifiers with and without a version', () => {
+    expect(parsePackSpecifier('saas')).toEqual({ id: 'saas' });
+    expect(parsePackSpecifier('saas@1.2.0')).toEqual({
+      id: 'saas',
+      version: '1.2.0',
+    });
+    expect(parsePackSpecifier('saas@')).toEqual({
+      id: 'saas',
+      version: undefined,
+    });
+  });
+
+  it('should resolve exact versions and pick the highest version otherwise', () => {
+    expect(compareVersions('1.10.0', '1.2.0')).toBeGreaterThan(0);
+    expect(
+      resolveRegistryEntry(registry, { id: 'saas', version: '1.2.0' })
+        ?.location,
+    ).toBe('saas-1.2.0.json');
+    expect(resolveRegistryEntry(registry, { id: 'saas' })?.version).toBe(
+      '1.10.0',
+    );
+    expect(
+      resolveRegistryEntry(registry, { id: 'saas', version: '2.0.0' }),
+    ).toBeUndefined();
+    expect(resolveRegistryEntry(registry, { id: 'missing' })).toBeUndefined();
+  });
+
+  it('should resolve locations relative to the manifest', () => {
+    const registryUrl = 'https://game.test/packs/index.json';
+    expect(resolveEntryLocation(registry.packs[0], registryUrl)).toBe(
+      'https://game.test/packs/saas-1.2.0.json',
+    );
+    expect(resolveEntryLocation(registry.packs[2], registryUrl)).toBe(
+      'https://cdn.test/hardware.yaml',
+    );
+  });
+
+  it('should reject duplicate entries and malformed versions', () => {
+    expect(() =>
+      validatePackRegistry({ packs: [registry.packs[0], registry.packs[0]] }),
+    ).toThrow(/Duplicate registry entry saas@1.2.0/);
+    expect(() =>
+      validatePackRegistry({
+        packs: [{ id: 'saas', version: 'latest', location: 'saas.json' }],
+      }),
+    ).toThrow();
+  });
+
+  it('should verify pack id, version and checksum against the entry', () => {
+    const pack = getDefaultPack();
+    const entry = {
+      id: pack.id,
+      version: pack.version,
+      location: 'default.json',
+      checksum: computePackHash(pack),
+    };
+
+    expect(verifyRegistryEntry(entry, pack)).toEqual([]);
+    expect(
+      verifyRegistryEntry({ ...entry, version: '9.9.9' }, pack)[0],
+    ).toContain(`points to ${pack.id}@${pack.version}`);
+    expect(
+      verifyRegistryEntry({ ...entry, checksum: '00000000' }, pack)[0],
+    ).toContain('Checksum mismatch');
+  });
+
+  it('should keep the published manifest in sync with its pack files', () => {
+    const packsDir = path.resolve(__dirname, '../../public/packs');
+    const manifest = validatePackRegistry(
+      JSON.parse(readFileSync(path.join(packsDir, 'index.json'), 'utf-8')),
+    );
+
+    for (const entry of manifest.packs) {
+      const pack = validateContentPack(
+        JSON.parse(readFileSync(path.join(packsDir, entry.location), 'utf-8')),
+      );
+      expect(verifyRegistryEntry(entry, pack)).toEqual([]);
+    }
+  });
+});
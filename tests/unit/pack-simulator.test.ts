@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { type ContentPack, createDelta } from '../../src/lib/content-pack';
+import { getDefaultPack } from '../../src/lib/default-pack';
+import {
+  compareMeterFormulas,
+  formatBalanceReport,
+  formatFormulaComparison,
+  simulateBalance,
+  simulateRuns,
+} from '../../src/lib/pack-simulator';
+import { DEFAULT_CONFIG } from '../../src/lib/scaling-meter';
+
+const createPack = (): ContentPack => ({
+  id: 'sim-pack',
+  version: '1.0.0',
+  title: 'Simulation Pack',
+  steps: Array.from({ length: 3 }, (_, i) => ({
+    id: i + 1,
+    title: `Step ${i + 1}`,
+    scenario: `Scenario ${i + 1}`,
+    options: [
+      {
+        id: 'A',
+        label: 'A',
+        body: 'A',
+        delta: createDelta({ R: 8, U: 6, S: 4 }),
+      },
+      { id: 'B', label: 'B', body: 'B', delta: createDelta({ C: 2, R: -4 }) },
+    ],
+  })),
+});
+
+describe('Pack Simulator', () => {
+  it('should be deterministic for a seed and count every run in a tier', () => {
+    const first = simulateRuns(createPack(), { runs: 40, seed: 11 });
+    const second = simulateRuns(createPack(), { runs: 40, seed: 11 });
+
+    expect(second).toEqual(first);
+    expect(first.tiers.reduce((sum, tier) => sum + tier.runs, 0)).toBe(40);
+    expect(first.meter.min).toBeLessThanOrEqual(first.meter.median);
+    expect(first.meter.median).toBeLessThanOrEqual(first.meter.max);
+  });
+});
+
+describe('Balance Simulation', () => {
+  it('should play every path with every seed', () => {
+    const report = simulateBalance(createPack(), { seeds: 10, seedStart: 5 });
+
+    expect(report.pathCount).toBe(8);
+    expect(report.runs).toBe(80);
+    expect(report.truncated).toBe(false);
+    expect(report.tiers.reduce((sum, tier) => sum + tier.runs, 0)).toBe(80);
+    expect(
+      report.distribution.reduce((sum, bucket) => sum + bucket.runs, 0),
+    ).toBe(80);
+    expect(report.best[0].path).toBe('1A → 2A → 3A');
+    expect(report.worst[0].path).toBe('1B → 2B → 3B');
+    expect(report.best.every((path) => path.runs === 10)).toBe(true);
+    expect(simulateBalance(createPack(), { seeds: 10, seedStart: 5 })).toEqual(
+      report,
+    );
+  });
+
+  it('should reflect the meter config', () => {
+    const noUnluck = simulateBalance(createPack(), {
+      seeds: 10,
+      config: {
+        ...DEFAULT_CONFIG,
+        unluck: { ...DEFAULT_CONFIG.unluck, probability: 0 },
+      },
+    });
+    const alwaysUnluck = simulateBalance(createPack(), {
+      seeds: 10,
+      config: {
+        ...DEFAULT_CONFIG,
+        unluck: { ...DEFAULT_CONFIG.unluck, probability: 1 },
+      },
+    });
+
+    expect(noUnluck.unluckRate).toBe(0);
+    expect(alwaysUnluck.unluckRate).toBe(1);
+    expect(alwaysUnluck.meter.mean).toBeLessThan(noUnluck.meter.mean);
+  });
+
+  it('should use the pack meterConfig by default', () => {
+    const report = simulateBalance(
+      { ...createPack(), meterConfig: { unluck: { probability: 0 } } },
+      { seeds: 10 },
+    );
+
+    expect(report.unluckRate).toBe(0);
+  });
+
+  it('should count special unluck and lucky breaks on the default pack', () => {
+    // The default pack leaves lucky breaks off; opt in the way a pack would
+    const pack = getDefaultPack();
+    const report = simulateBalance(
+      {
+        ...pack,
+        meterConfig: { ...pack.meterConfig, luckyBreak: { probability: 0.15 } },
+      },
+      { seeds: 20 },
+    );
+
+    expect(report.pathCount).toBe(32);
+    expect(report.specialUnluckRate).toBeGreaterThan(0);
+    expect(report.luckyBreakRate).toBeGreaterThan(0);
+    expect(report.luckyBreakRate + report.unluckRate).toBeLessThanOrEqual(1);
+  });
+
+  it('should format tables for the report', () => {
+    const text = formatBalanceReport(
+      simulateBalance(createPack(), { seeds: 4 }),
+    );
+
+    expect(text).toContain(
+      'sim-pack@1.0.0: 8 paths × 4 seeds (from 0) = 32 runs',
+    );
+    expect(text).toMatch(
+      /Final meter: mean [\d.]+, median \d+, p10 \d+, p90 \d+/,
+    );
+    expect(text).toContain('🦄 Breakout Trajectory');
+    expect(text).toMatch(
+      /Best paths:\n {2}Path +Mean {2}Range {4}Breakout\n {2}1A → 2A → 3A/,
+    );
+  });
+});
+
+describe('Meter Formula Comparison', () => {
+  it('should balance the same paths and seeds once per formula', () => {
+    const comparisons = compareMeterFormulas(createPack(), { seeds: 5 });
+
+    expect(comparisons.map(({ formula }) => formula.id)).toEqual(
+      expect.arrayContaining([
+        'weighted-sum',
+        'geometric-mean',
+        'softmax-bottleneck',
+      ]),
+    );
+    for (const { report } of comparisons) {
+      expect(report.runs).toBe(40);
+    }
+    const weighted = comparisons.find(
+      ({ formula }) => formula.id === 'weighted-sum',
+    );
+    expect(weighted?.report).toEqual(
+      simulateBalance(createPack(), { seeds: 5 }),
+    );
+  });
+
+  it('should format a side-by-side table', () => {
+    const text = formatFormulaComparison(
+      compareMeterFormulas(createPack(), {
+        seeds: 3,
+        formulas: ['weighted-sum', 'geometric-mean'],
+      }),
+    );
+
+    expect(text).toContain(
+      'sim-pack@1.0.0: 8 paths × 3 seeds (from 0) per formula',
+    );
+    expect(text).toMatch(/weighted-sum\s+[\d.]+/);
+    expect(text).toMatch(/geometric-mean\s+[\d.]+/);
+    expect(text).not.toContain('softmax-bottleneck');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { replayChoices } from '../../src/contexts/RunStateContext';
+import { getDefaultPack } from '../../src/lib/default-pack';
+import {
+  decodeRunCode,
+  encodeRunCode,
+  getReplayHref,
+  type RunCode,
+} from '../../src/lib/run-code';
+
+const run: RunCode = {
+  pack: { id: 'saas', version: '1.2.0' },
+  seed: 1234567,
+  choices: ['A', 'B', 'scale_up'],
+};
+
+describe('Run Codes', () => {
+  it('should encode seed, pack and choice path compactly and decode them back', () => {
+    const code = encodeRunCode(run);
+
+    expect(code).toBe('saas@1.2.0~qglj~A.B.scale_up');
+    expect(decodeRunCode(code)).toEqual(run);
+    expect(decodeRunCode(encodeRunCode({ ...run, choices: [] }))).toEqual({
+      ...run,
+      choices: [],
+    });
+  });
+
+  it('should keep pack ids that contain the separators', () => {
+    const odd: RunCode = {
+      ...run,
+      pack: { id: 'my~pack.v2', version: '0.1.0' },
+    };
+    expect(decodeRunCode(encodeRunCode(odd))).toEqual(odd);
+  });
+
+  it('should reject malformed codes', () => {
+    expect(decodeRunCode('')).toBeNull();
+    expect(decodeRunCode('saas@1.2.0~qglj')).toBeNull(); // No choices part
+    expect(decodeRunCode('saas~qglj~A')).toBeNull(); // No version
+    expect(decodeRunCode('saas@1.2.0~QG-LJ~A')).toBeNull(); // Seed is not base 36
+    expect(decodeRunCode('saas@1.2.0~qglj~A..B')).toBeNull(); // Empty option id
+    expect(decodeRunCode('saas@1.2.0~qglj~A.B!')).toBeNull();
+  });
+
+  it('should build replay links that load the pack', () => {
+    const href = new URL(
+      getReplayHref(
+        'https://game.test/?packUrl=https://old.test/p.json',
+        'CODE',
+        run.pack,
+      ),
+    );
+
+    expect(href.searchParams.get('replay')).toBe('CODE');
+    expect(href.searchParams.get('pack')).toBe('saas@1.2.0');
+    expect(href.searchParams.has('packUrl')).toBe(false);
+  });
+
+  it('should rebuild the same run from a decoded code', () => {
+    const pack = getDefaultPack();
+    const choices = pack.steps.map((step) => step.options[1].id);
+    const played = replayChoices(pack, 98765, choices);
+    const decoded = decodeRunCode(
+      encodeRunCode({ pack, seed: 98765, choices }),
+    );
+    const replayed = replayChoices(
+      pack,
+      decoded?.seed ?? 0,
+      decoded?.choices ?? [],
+    );
+
+    expect(replayed).toEqual(played);
+    expect(replayed).toHaveLength(choices.length + 1);
+    expect(
+      replayed[replayed.length - 1].history.map((result) => result.meter),
+    ).toEqual(played[played.length - 1].history.map((result) => result.meter));
+  });
+
+  it('should reproduce the meters recorded for codes of the default pack', () => {
+    // Meters these runs showed before lucky breaks existed; the pack is still 1.0.0, so they must not change
+    const recorded: Array<[string, number[]]> = [
+      ['ai-cofounder-default@1.0.0~16~A.B.A.B.B', [68, 65, 71, 68, 73]],
+      ['ai-cofounder-default@1.0.0~ya~B.B.A.A.B', [67, 62, 71, 65, 78]],
+    ];
+    const pack = getDefaultPack();
+
+    for (const [code, meters] of recorded) {
+      const decoded = decodeRunCode(code);
+      expect(decoded?.pack).toEqual({ id: pack.id, version: pack.version });
+
+      const frames = replayChoices(
+        pack,
+        decoded?.seed ?? 0,
+        decoded?.choices ?? [],
+      );
+      expect(
+        frames[frames.length - 1].history.map((result) => result.meter),
+        code,
+      ).toEqual(meters);
+    }
+  });
+});
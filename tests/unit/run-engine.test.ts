@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type ContentPack,
+  EMPTY_DELTA,
+  getStepOption,
+} from '../../src/lib/content-pack';
+import { getDefaultPack } from '../../src/lib/default-pack';
+import {
+  applyRunEvent,
+  eventsBeforeChoice,
+  eventsFromSnapshot,
+  foldRunEvents,
+  type RunEvent,
+  startRun,
+} from '../../src/lib/run-engine';
+import { resolveMeterConfig, stepUpdate } from '../../src/lib/scaling-meter';
+
+const pack = getDefaultPack();
+const packRef = { id: pack.id, version: pack.version };
+
+// A, B, A on steps 1-3, moved on to step 4
+const events: RunEvent[] = [
+  { type: 'RunStarted', seed: 42, pack: packRef },
+  { type: 'ChoiceMade', step: 1, option: 'A' },
+  { type: 'StepAdvanced' },
+  { type: 'ChoiceMade', step: 2, option: 'B' },
+  { type: 'StepAdvanced' },
+  { type: 'ChoiceMade', step: 3, option: 'A' },
+  { type: 'StepAdvanced' },
+];
+
+describe('Run Engine', () => {
+  it('should derive the run by folding its events over stepUpdate', () => {
+    const run = foldRunEvents(events, pack);
+
+    expect(run.path).toEqual([1, 2, 3, 4]);
+    expect(run.currentStep).toBe(4);
+    expect(run.nextStep).toBeNull();
+    expect(run.choices.map((record) => record.choice)).toEqual(['A', 'B', 'A']);
+    expect(run.events).toEqual(events);
+
+    // Same meter as calling stepUpdate by hand with the same seed
+    const delta = getStepOption(pack.steps[0], 'A')?.delta ?? EMPTY_DELTA;
+    const { result } = stepUpdate(
+      startRun(pack, 42),
+      delta,
+      'A',
+      resolveMeterConfig(pack.meterConfig),
+      1,
+    );
+    expect(run.history[0]).toEqual(result);
+    expect(foldRunEvents(events, pack)).toEqual(run);
+  });
+
+  it('should ignore events that do not apply to the run', () => {
+    const run = foldRunEvents(events.slice(0, 2), pack);
+
+    expect(
+      applyRunEvent(run, { type: 'ChoiceMade', step: 1, option: 'B' }, pack),
+    ).toBe(run);
+    expect(
+      applyRunEvent(run, { type: 'ChoiceMade', step: 2, option: 'B' }, pack),
+    ).toBe(run);
+    expect(applyRunEvent(run, { type: 'StepAdvanced', step: 99 }, pack)).toBe(
+      run,
+    );
+    expect(
+      applyRunEvent(startRun(pack, 42), { type: 'StepAdvanced' }, pack).path,
+    ).toEqual([1]);
+  });
+
+  it('should stop folding at the first event the pack cannot apply', () => {
+    const renamed: ContentPack = {
+      ...pack,
+      steps: pack.steps.map((step, index) =>
+        index === 1
+          ? {
+              ...step,
+              options: step.options.map((option) => ({
+                ...option,
+                id: `${option.id}-v2`,
+              })),
+            }
+          : step,
+      ),
+    };
+    const run = foldRunEvents(events, renamed);
+
+    expect(run.choices).toHaveLength(1);
+    expect(run.path).toEqual([1, 2]);
+    expect(run.events).toEqual(events.slice(0, 3));
+  });
+
+  it('should record forced unluck so the fold rolls it again', () => {
+    const forced: RunEvent[] = [
+      events[0],
+      { type: 'ChoiceMade', step: 1, option: 'A', forceUnluck: true },
+    ];
+
+    expect(
+      foldRunEvents(events.slice(0, 2), pack).history[0].unluckApplied,
+    ).toBe(false);
+    expect(foldRunEvents(forced, pack).history[0].unluckApplied).toBe(true);
+  });
+
+  it('should require the log to start with RunStarted', () => {
+    expect(() => foldRunEvents([], pack)).toThrow('RunStarted');
+    expect(() => foldRunEvents(events.slice(1), pack)).toThrow('RunStarted');
+  });
+
+  it('should cut the log before a choice', () => {
+    expect(eventsBeforeChoice(events, 2)).toEqual(events.slice(0, 5));
+    expect(eventsBeforeChoice(events, 0)).toEqual(events.slice(0, 1));
+    expect(eventsBeforeChoice(events, 3)).toBe(events);
+  });
+
+  it('should rebuild the log of a snapshot from before the event log', () => {
+    const choices = ['A', 'B', 'A'].map((choice) => ({ choice }));
+
+    expect(
+      eventsFromSnapshot({ seed: 42, path: [1, 2, 3, 4], choices }, pack),
+    ).toEqual(events);
+    expect(
+      eventsFromSnapshot({ seed: 42, path: [1, 2, 3], choices }, pack),
+    ).toEqual(events.slice(0, -1));
+    expect(
+      eventsFromSnapshot({ seed: 42, path: [3], choices: [] }, pack),
+    ).toEqual([events[0], { type: 'StepAdvanced', step: 3 }]);
+  });
+});
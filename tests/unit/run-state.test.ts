@@ -0,0 +1,360 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  gameStateReducer,
+  getComparablePreviousRun,
+  migrateRunToPack,
+  RunStateProvider,
+  replayChoices,
+  useRunState,
+} from '../../src/contexts/RunStateContext';
+import {
+  type ContentPack,
+  computePackHash,
+  createDelta,
+} from '../../src/lib/content-pack';
+import { getDefaultPack } from '../../src/lib/default-pack';
+import { encodeRunCode, REPLAY_PARAM } from '../../src/lib/run-code';
+import { eventsFromSnapshot, startRun } from '../../src/lib/run-engine';
+import { resolveMeterConfig } from '../../src/lib/scaling-meter';
+
+type SavedRun = Parameters<typeof migrateRunToPack>[0];
+
+const defaultPack = getDefaultPack();
+
+// Saved run with the given option ids picked on steps 1..n of the default pack
+const createSavedRun = (choiceIds: string[], advanced: boolean): SavedRun => {
+  const choices = choiceIds.map((choice) => ({ choice }));
+  const pathLength = Math.max(1, choices.length + (advanced ? 1 : 0));
+  return {
+    events: eventsFromSnapshot(
+      {
+        seed: 42,
+        choices,
+        path: Array.from({ length: pathLength }, (_, i) => i + 1),
+      },
+      defaultPack,
+    ),
+  };
+};
+
+describe('migrateRunToPack', () => {
+  it('should replay the same choices deterministically on an identical pack', () => {
+    const saved = createSavedRun(['A', 'B'], false);
+
+    const first = migrateRunToPack(saved, defaultPack);
+    const second = migrateRunToPack(saved, defaultPack);
+
+    expect(first).toEqual(second);
+    expect(first.choices.map((choice) => choice.choice)).toEqual(['A', 'B']);
+    expect(first.path).toEqual([1, 2]);
+    expect(first.currentStep).toBe(2);
+    expect(first.stepCount).toBe(2);
+    expect(first.nextStep).toBe(3);
+  });
+
+  it('should keep a run that had already advanced on its next step', () => {
+    const migrated = migrateRunToPack(
+      createSavedRun(['A', 'B'], true),
+      defaultPack,
+    );
+
+    expect(migrated.path).toEqual([1, 2, 3]);
+    expect(migrated.currentStep).toBe(3);
+    expect(migrated.nextStep).toBeNull();
+  });
+
+  it('should use the new pack deltas and stop where an option no longer exists', () => {
+    const updatedPack: ContentPack = {
+      ...defaultPack,
+      version: '1.1.0',
+      steps: defaultPack.steps.map((step, index) => ({
+        ...step,
+        options:
+          index === 0
+            ? step.options.map((option) => ({
+                ...option,
+                delta: createDelta({ R: 12 }),
+              }))
+            : step.options.map((option) => ({
+                ...option,
+                id: `${option.id}-v2`,
+              })),
+      })),
+    };
+
+    const migrated = migrateRunToPack(
+      createSavedRun(['A', 'B', 'A'], false),
+      updatedPack,
+    );
+
+    expect(migrated.choices).toEqual([
+      { choice: 'A', delta: createDelta({ R: 12 }) },
+    ]);
+    expect(migrated.currentStep).toBe(2);
+    expect(migrated.nextStep).toBeNull();
+  });
+});
+
+describe('replayChoices', () => {
+  it('should return the fresh run and the run after each choice', () => {
+    const frames = replayChoices(defaultPack, 42, ['A', 'B']);
+
+    expect(frames).toHaveLength(3);
+    expect(frames[0].choices).toEqual([]);
+    expect(frames[0].seed).toBe(42);
+    expect(frames[1].path).toEqual([1]);
+    expect(frames[2].path).toEqual([1, 2]);
+    expect(frames[2].choices.map((record) => record.choice)).toEqual([
+      'A',
+      'B',
+    ]);
+    expect(frames[2]).toEqual(
+      migrateRunToPack(createSavedRun(['A', 'B'], false), defaultPack),
+    );
+  });
+
+  it('should stop at the first option the pack does not have', () => {
+    expect(replayChoices(defaultPack, 42, ['A', 'Z', 'A'])).toHaveLength(2);
+  });
+});
+
+describe('gameStateReducer operator actions', () => {
+  const start = startRun(defaultPack, 42);
+  const option = defaultPack.steps[0].options[0];
+  const choose = {
+    type: 'APPLY_CHOICE',
+    choice: option.id,
+    pack: defaultPack,
+  } as const;
+
+  it('should force unluck on the next choice only', () => {
+    const forced = gameStateReducer(start, {
+      type: 'FORCE_UNLUCK',
+      enabled: true,
+    });
+    const afterChoice = gameStateReducer(forced, choose);
+
+    expect(afterChoice.history[0].unluckApplied).toBe(true);
+    expect(afterChoice.forceUnluck).toBeUndefined();
+    // The same seed rolls no unluck without the override
+    expect(gameStateReducer(start, choose).history[0].unluckApplied).toBe(
+      false,
+    );
+  });
+
+  it('should jump to a step, replacing the current step until a choice is made', () => {
+    const jumped = gameStateReducer(start, { type: 'JUMP_TO_STEP', step: 4 });
+    expect(jumped.path).toEqual([4]);
+    expect(jumped.currentStep).toBe(4);
+
+    const afterChoice = gameStateReducer(jumped, choose);
+    const jumpedAgain = gameStateReducer(afterChoice, {
+      type: 'JUMP_TO_STEP',
+      step: 2,
+    });
+    expect(jumpedAgain.path).toEqual([4, 2]);
+    expect(jumpedAgain.nextStep).toBeNull();
+    expect(jumpedAgain.choices).toHaveLength(1);
+
+    expect(gameStateReducer(start, { type: 'JUMP_TO_STEP', step: 99 })).toBe(
+      start,
+    );
+  });
+});
+
+describe('gameStateReducer presenter rewind', () => {
+  const config = resolveMeterConfig(defaultPack.meterConfig);
+  const pack = defaultPack;
+  const played = migrateRunToPack(
+    createSavedRun(['A', 'B', 'A'], true),
+    defaultPack,
+  );
+
+  it('should undo the last choice as if it had not been made', () => {
+    const undone = gameStateReducer(played, {
+      type: 'UNDO_CHOICE',
+      pack,
+      config,
+    });
+
+    expect(undone).toEqual(
+      migrateRunToPack(createSavedRun(['A', 'B'], true), defaultPack),
+    );
+    expect(undone.currentStep).toBe(3);
+    expect(undone.choices).toHaveLength(2);
+    expect(undone.history).toHaveLength(2);
+
+    const fresh = gameStateReducer(
+      gameStateReducer(undone, { type: 'UNDO_CHOICE', pack, config }),
+      { type: 'UNDO_CHOICE', pack, config },
+    );
+    expect(fresh.path).toEqual([1]);
+    expect(fresh.stepCount).toBe(0);
+    expect(gameStateReducer(fresh, { type: 'UNDO_CHOICE', pack, config })).toBe(
+      fresh,
+    );
+  });
+
+  it('should rewind to an earlier step and replay the same luck', () => {
+    const rewound = gameStateReducer(played, {
+      type: 'REWIND_TO_STEP',
+      step: 2,
+      pack,
+      config,
+    });
+
+    expect(rewound.path).toEqual([1, 2]);
+    expect(rewound.choices.map((record) => record.choice)).toEqual(['A']);
+    expect(rewound.history).toEqual(played.history.slice(0, 1));
+    expect(rewound.nextStep).toBeNull();
+
+    // Picking the other option at step 2 and then the original one again restores the run
+    const replayed = gameStateReducer(rewound, {
+      type: 'APPLY_CHOICE',
+      choice: 'B',
+      pack,
+      config,
+    });
+    expect(replayed.history).toEqual(played.history.slice(0, 2));
+  });
+
+  it('should keep the recorded path and ignore steps without a choice', () => {
+    const jumped = gameStateReducer(played, { type: 'JUMP_TO_STEP', step: 5 });
+    const afterJump = gameStateReducer(jumped, {
+      type: 'APPLY_CHOICE',
+      choice: 'A',
+      pack,
+      config,
+    });
+
+    expect(
+      gameStateReducer(afterJump, { type: 'UNDO_CHOICE', pack, config }).path,
+    ).toEqual([1, 2, 3, 5]);
+    expect(
+      gameStateReducer(played, {
+        type: 'REWIND_TO_STEP',
+        step: 4,
+        pack,
+        config,
+      }),
+    ).toBe(played);
+    expect(
+      gameStateReducer(played, {
+        type: 'REWIND_TO_STEP',
+        step: 0,
+        pack,
+        config,
+      }),
+    ).toBe(played);
+  });
+});
+
+describe('gameStateReducer meter config', () => {
+  const start = startRun(defaultPack, 42);
+  const option = defaultPack.steps[0].options[0];
+
+  it('should compute the meter with the config passed by the pack', () => {
+    const tunedPack: ContentPack = {
+      ...defaultPack,
+      meterConfig: {
+        randomnessRange: [0, 0],
+        unluck: { probability: 1, factorRange: [0.5, 0.5] },
+      },
+    };
+    const withPackConfig = gameStateReducer(start, {
+      type: 'APPLY_CHOICE',
+      choice: option.id,
+      pack: tunedPack,
+    });
+
+    expect(withPackConfig.history[0].unluckApplied).toBe(true);
+    expect(withPackConfig.history[0].luckFactor).toBe(0.5);
+    expect(withPackConfig.history[0].randomness).toBe(0);
+  });
+
+  it("should replay migrated runs with the new pack's meterConfig", () => {
+    const tunedPack: ContentPack = {
+      ...defaultPack,
+      meterConfig: { unluck: { probability: 0 }, momentumBonus: 0 },
+    };
+    const migrated = migrateRunToPack(
+      createSavedRun(['A', 'B', 'A'], false),
+      tunedPack,
+    );
+
+    expect(migrated.history.some((result) => result.unluckApplied)).toBe(false);
+    expect(migrated.history.every((result) => result.momentum === 0)).toBe(
+      true,
+    );
+  });
+});
+
+describe('getComparablePreviousRun', () => {
+  const packRef = {
+    id: defaultPack.id,
+    version: defaultPack.version,
+    hash: computePackHash(defaultPack),
+  };
+  const run = migrateRunToPack(createSavedRun(['A', 'B'], false), defaultPack);
+  const previousRun = {
+    seed: run.seed,
+    pack: packRef,
+    path: run.path,
+    choices: run.choices,
+    history: run.history,
+  };
+
+  it('should only keep a previous run played on the same pack', () => {
+    expect(getComparablePreviousRun(previousRun, packRef)).toBe(previousRun);
+    expect(
+      getComparablePreviousRun(previousRun, { ...packRef, id: 'other-pack' }),
+    ).toBeNull();
+    expect(
+      getComparablePreviousRun(previousRun, { ...packRef, version: '9.9.9' }),
+    ).toBeNull();
+    expect(
+      getComparablePreviousRun(previousRun, { ...packRef, hash: 'retuned' }),
+    ).toBeNull();
+    expect(getComparablePreviousRun(null, packRef)).toBeNull();
+  });
+});
+
+describe('RunStateProvider replay', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    localStorage.clear();
+    window.history.replaceState({}, '', '/');
+  });
+
+  it('should close the replay and autosave when a new run is started from it', async () => {
+    // No registry here: the provider falls back to the default pack
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline')));
+    const code = encodeRunCode({
+      pack: { id: defaultPack.id, version: defaultPack.version },
+      seed: 42,
+      choices: ['A', 'B'],
+    });
+    window.history.replaceState({}, '', `/?${REPLAY_PARAM}=${code}`);
+
+    const { result } = renderHook(() => useRunState(), {
+      wrapper: RunStateProvider,
+    });
+    await waitFor(() => expect(result.current.replay).not.toBeNull());
+
+    act(() => result.current.resetRun());
+    act(() =>
+      result.current.dispatch({
+        type: 'APPLY_CHOICE',
+        choice: 'A',
+        pack: defaultPack,
+      }),
+    );
+
+    expect(result.current.replay).toBeNull();
+    expect(window.location.search).not.toContain(REPLAY_PARAM);
+    await waitFor(() =>
+      expect(localStorage.getItem('tcgame_run_state')).toContain('ChoiceMade'),
+    );
+  });
+});
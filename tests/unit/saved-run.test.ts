@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { computePackHash } from '../../src/lib/content-pack';
+import { getDefaultPack } from '../../src/lib/default-pack';
+import {
+  eventsFromSnapshot,
+  foldRunEvents,
+  type RunEvent,
+} from '../../src/lib/run-engine';
+import {
+  parseSavedRun,
+  SAVED_RUN_VERSION,
+  toSavedRun,
+} from '../../src/lib/saved-run';
+
+const pack = getDefaultPack();
+const packRef = {
+  id: pack.id,
+  version: pack.version,
+  hash: computePackHash(pack),
+};
+const events: RunEvent[] = eventsFromSnapshot(
+  { seed: 42, path: [1, 2, 3], choices: [{ choice: 'A' }, { choice: 'B' }] },
+  pack,
+);
+const run = foldRunEvents(events, pack);
+
+// Save written by 1.0 builds: the derived run state
+const savedV1_0 = {
+  ...run,
+  events: undefined,
+  pack: packRef,
+  timestamp: 1760000000000,
+  version: '1.0',
+};
+
+describe('Saved Runs', () => {
+  it('should save and parse the event log in the current version', () => {
+    const saved = toSavedRun(run, packRef);
+
+    expect(saved.version).toBe(SAVED_RUN_VERSION);
+    expect(parseSavedRun(JSON.parse(JSON.stringify(saved)), pack)).toEqual(
+      saved,
+    );
+  });
+
+  it('should upgrade 1.0 snapshots to the event log of the same run', () => {
+    const saved = parseSavedRun(JSON.parse(JSON.stringify(savedV1_0)), pack);
+
+    expect(saved).toEqual({
+      version: '1.1',
+      events,
+      pack: packRef,
+      timestamp: savedV1_0.timestamp,
+    });
+    expect(saved && foldRunEvents(saved.events, pack)).toEqual(run);
+  });
+
+  it('should keep the event log of 1.0 saves that have one', () => {
+    const jumped: RunEvent[] = [...events, { type: 'StepAdvanced', step: 5 }];
+    const saved = parseSavedRun({ ...savedV1_0, events: jumped }, pack);
+
+    expect(saved?.events).toEqual(jumped);
+  });
+
+  it('should upgrade unversioned saves from before paths and pack pinning', () => {
+    const {
+      version: _version,
+      path: _path,
+      pack: _pack,
+      totalSteps: _totalSteps,
+      ...legacy
+    } = savedV1_0;
+    const saved = parseSavedRun(
+      { ...legacy, currentStep: 3 },
+      { id: 'legacy-pack', version: '1.0.0' },
+    );
+
+    expect(saved?.pack).toBeUndefined();
+    expect(saved?.events[0]).toEqual({
+      type: 'RunStarted',
+      seed: 42,
+      pack: { id: 'legacy-pack', version: '1.0.0' },
+    });
+    expect(saved && foldRunEvents(saved.events, pack).path).toEqual([1, 2, 3]);
+  });
+
+  it('should treat saves without a timestamp as stale', () => {
+    const { timestamp: _timestamp, ...undated } = savedV1_0;
+    expect(parseSavedRun(undated, pack)?.timestamp).toBe(0);
+  });
+
+  it('should reject invalid saves and unknown versions', () => {
+    expect(parseSavedRun(null, pack)).toBeNull();
+    expect(parseSavedRun('corrupted', pack)).toBeNull();
+    expect(parseSavedRun({ ...savedV1_0, seed: 'abc' }, pack)).toBeNull();
+    expect(
+      parseSavedRun(
+        { ...toSavedRun(run, packRef), events: events.slice(1) },
+        pack,
+      ),
+    ).toBeNull();
+    expect(
+      parseSavedRun({ ...toSavedRun(run, packRef), version: '9.0' }, pack),
+    ).toBeNull();
+  });
+});
@@ -10,12 +10,18 @@ import {
   getMeterTier,
   getInsights,
   applyRubberBand,
+  resolveMeterConfig,
+  matchesInteraction,
+  applyDecay,
+  getDecayMessages,
+  getFiredInteractionRules,
+  getLuckyBreakMessageRng,
   DEFAULT_CONFIG,
   type State,
   type RunState,
   type MeterConfig,
 } from '../../src/lib/scaling-meter';
-import { createDelta } from '../../src/lib/content-pack';
+import { createDelta, getLuckyBreakMessage, type InteractionRule, type SpecialEvent } from '../../src/lib/content-pack';
 
 describe('Scaling Meter Engine', () => {
   let initialState: State;
@@ -636,7 +642,105 @@ describe('Unluck feature', () => {
   });
 });
 
+describe('Lucky break feature', () => {
+  const luckyConfig: MeterConfig = {
+    ...DEFAULT_CONFIG,
+    momentumBonus: 0,
+    randomnessRange: [0, 0],
+    unluck: { probability: 0, factorRange: [0.4, 0.7] },
+    luckyBreak: { probability: 1, factorRange: [1.2, 1.5], bonus: 0, messages: [] },
+  };
+
+  it('amplifies only positive deltas and keeps factor within bounds', () => {
+    const delta = createDelta({ R: 10, U: 5, S: -3, C: 0, I: 4 });
+
+    const { newRunState, result } = stepUpdate(initializeRunState(424242), delta, 'A', luckyConfig);
+
+    expect(result.luckyBreakApplied).toBe(true);
+    const f = result.luckyBreakFactor as number;
+    expect(f).toBeGreaterThanOrEqual(1.2);
+    expect(f).toBeLessThanOrEqual(1.5);
+    expect(newRunState.state).toEqual({ R: Math.round(10 * f), U: Math.round(5 * f), S: -3, C: 0, I: Math.round(4 * f) });
+    expect(result.luckyBreakBonus).toBeUndefined();
+  });
+
+  it('grants the bonus to a seeded dimension, the same for the same seed', () => {
+    const config = { ...luckyConfig, luckyBreak: { ...luckyConfig.luckyBreak, factorRange: [1, 1] as [number, number], bonus: 3 } };
+    const delta = createDelta({ R: 2 });
+
+    const first = stepUpdate(initializeRunState(2024), delta, 'A', config);
+    const second = stepUpdate(initializeRunState(2024), delta, 'A', config);
+
+    const bonus = first.result.luckyBreakBonus;
+    expect(bonus?.amount).toBe(3);
+    expect(second.result).toEqual(first.result);
+    expect(first.newRunState.state[bonus?.dimension ?? 'R']).toBe(bonus?.dimension === 'R' ? 5 : 3);
+  });
+
+  it('never fires on a step hit by unluck', () => {
+    const config = { ...luckyConfig, unluck: { probability: 1, factorRange: [0.5, 0.5] as [number, number] } };
+
+    const { result } = stepUpdate(initializeRunState(7), createDelta({ R: 10 }), 'A', config);
+
+    expect(result.unluckApplied).toBe(true);
+    expect(result.luckyBreakApplied).toBeUndefined();
+  });
+
+  it('leaves runs unchanged when disabled', () => {
+    const delta = createDelta({ R: 6, U: 4, S: 2 });
+    const disabled = { ...DEFAULT_CONFIG, luckyBreak: { ...DEFAULT_CONFIG.luckyBreak, probability: 0 } };
+    let a = initializeRunState(31337);
+    let b = initializeRunState(31337);
+    for (let i = 0; i < 5; i++) {
+      a = stepUpdate(a, delta, 'A').newRunState;
+      b = stepUpdate(b, delta, 'A', disabled).newRunState;
+    }
+
+    expect(b).toEqual(a);
+  });
+
+  it('triggers at roughly configured probability (~20%) on steps without unluck', () => {
+    const config = { ...luckyConfig, luckyBreak: { ...luckyConfig.luckyBreak, probability: 0.2 } };
+    let rs = initializeRunState(97531);
+    let hits = 0;
+    for (let i = 0; i < 400; i++) {
+      const { newRunState, result } = stepUpdate(rs, createDelta({ R: 1 }), 'A', config);
+      if (result.luckyBreakApplied) hits++;
+      rs = newRunState;
+    }
+
+    expect(hits / 400).toBeGreaterThan(0.14);
+    expect(hits / 400).toBeLessThan(0.26);
+  });
+
+  it('can show every message of a pack', () => {
+    const messages = ['Influencer shout-out', 'Competitor outage', 'Hacker News front page', 'Angel at a meetup'];
+    const config = resolveMeterConfig({ luckyBreak: { probability: 0.15, messages } });
+    const shown = new Set<string | null>();
+    for (let seed = 0; seed < 3000; seed++) {
+      const { result } = stepUpdate(initializeRunState(seed), createDelta({ R: 3 }), 'A', config, 1);
+      if (result.luckyBreakApplied) {
+        shown.add(getLuckyBreakMessage(messages, getLuckyBreakMessageRng(seed, 0)));
+      }
+    }
+
+    expect(messages.length).toBeGreaterThan(1);
+    expect(shown).toEqual(new Set(messages));
+  });
+});
+
 // --- Special Unluck feature tests ---
+const PERFECT_STORM: SpecialEvent = {
+  id: 'perfect-storm',
+  title: 'Perfect Storm',
+  step: 4,
+  choice: 'B',
+  probability: 1.0,
+  scalingGainsReduction: 0.5,
+  reductions: { U: 0.5, C: 0.7, I: 0.4 }, // "Perfect Storm"
+  messages: ['Double trouble'],
+};
+
 describe('Special Unluck feature (Step 4 Option B)', () => {
   it('should trigger special unluck when regular unluck occurs on step 4 option B', () => {
     // Set up run state at step 4 (stepCount = 3, so next step will be 4)
@@ -650,16 +754,7 @@ describe('Special Unluck feature (Step 4 Option B)', () => {
       momentumBonus: 0,
       randomnessRange: [0, 0],
       unluck: { probability: 1, factorRange: [0.5, 0.5] }, // Force regular unluck
-      specialUnluck: {
-        enabled: true,
-        step: 4,
-        choice: 'B',
-        probability: 1.0, // Force special unluck
-        scalingGainsReduction: 0.5,
-        usersReduction: 0.5,
-        customersReduction: 0.7, // 70% reduction - "Perfect Storm"
-        investorsReduction: 0.4, // 40% reduction - "Perfect Storm"
-      },
+      specialEvents: [PERFECT_STORM],
     };
 
     const { newRunState, result } = stepUpdate(base, delta, 'B', config);
@@ -701,16 +796,7 @@ describe('Special Unluck feature (Step 4 Option B)', () => {
       momentumBonus: 0,
       randomnessRange: [0, 0],
       unluck: { probability: 1, factorRange: [0.5, 0.5] }, // Force regular unluck
-      specialUnluck: {
-        enabled: true,
-        step: 4,
-        choice: 'B', // Only triggers on B
-        probability: 1.0,
-        scalingGainsReduction: 0.5,
-        usersReduction: 0.5,
-        customersReduction: 0.7,
-        investorsReduction: 0.4,
-      },
+      specialEvents: [PERFECT_STORM],
     };
 
     const { newRunState, result } = stepUpdate(base, delta, 'A', config);
@@ -734,16 +820,7 @@ describe('Special Unluck feature (Step 4 Option B)', () => {
       momentumBonus: 0,
       randomnessRange: [0, 0],
       unluck: { probability: 1, factorRange: [0.5, 0.5] }, // Force regular unluck
-      specialUnluck: {
-        enabled: true,
-        step: 4, // Only triggers on step 4
-        choice: 'B',
-        probability: 1.0,
-        scalingGainsReduction: 0.5,
-        usersReduction: 0.5,
-        customersReduction: 0.7,
-        investorsReduction: 0.4,
-      },
+      specialEvents: [PERFECT_STORM],
     };
 
     const { newRunState, result } = stepUpdate(base, delta, 'B', config);
@@ -767,16 +844,7 @@ describe('Special Unluck feature (Step 4 Option B)', () => {
       momentumBonus: 0,
       randomnessRange: [0, 0],
       unluck: { probability: 0, factorRange: [0.5, 0.5] }, // No regular unluck
-      specialUnluck: {
-        enabled: true,
-        step: 4,
-        choice: 'B',
-        probability: 1.0,
-        scalingGainsReduction: 0.5,
-        usersReduction: 0.5,
-        customersReduction: 0.7,
-        investorsReduction: 0.4,
-      },
+      specialEvents: [PERFECT_STORM],
     };
 
     const { newRunState, result } = stepUpdate(base, delta, 'B', config);
@@ -802,16 +870,7 @@ describe('Special Unluck feature (Step 4 Option B)', () => {
       momentumBonus: 0,
       randomnessRange: [0, 0],
       unluck: { probability: 1, factorRange: [0.5, 0.5] }, // Force regular unluck
-      specialUnluck: {
-        enabled: true,
-        step: 4,
-        choice: 'B',
-        probability: 0.0, // Never trigger special unluck
-        scalingGainsReduction: 0.5,
-        usersReduction: 0.5,
-        customersReduction: 0.7,
-        investorsReduction: 0.4,
-      },
+      specialEvents: [{ ...PERFECT_STORM, probability: 0.0 }], // Never trigger special unluck
     };
 
     const { newRunState, result } = stepUpdate(base, delta, 'B', config);
@@ -826,3 +885,191 @@ describe('Special Unluck feature (Step 4 Option B)', () => {
     expect(newRunState.state.U).toBe(base.state.U); // 20, unchanged (no special unluck)
   });
 });
+
+describe('Special events', () => {
+  const forcedUnluck: MeterConfig = {
+    ...DEFAULT_CONFIG,
+    momentumBonus: 0,
+    randomnessRange: [0, 0],
+    unluck: { probability: 1, factorRange: [0.5, 0.5] },
+  };
+  const outage: SpecialEvent = {
+    id: 'outage',
+    title: 'Outage',
+    step: 2,
+    choice: 'A',
+    probability: 1,
+    scalingGainsReduction: 1,
+    reductions: { S: 0.5 },
+    messages: ['Down again'],
+  };
+
+  it('should record which of several events fired, first declared first', () => {
+    const base = { ...initializeRunState(7), stepCount: 1, state: { R: 4, U: 4, S: 10, C: 4, I: 4 } };
+    const skipped = { ...outage, id: 'never', probability: 0 };
+    const config = { ...forcedUnluck, specialEvents: [skipped, outage, { ...outage, id: 'later' }] };
+
+    const { newRunState, result } = stepUpdate(base, createDelta({ S: 2 }), 'A', config);
+
+    expect(result.specialUnluckApplied).toBe(true);
+    expect(result.specialEventId).toBe('outage');
+    expect(newRunState.state.S).toBe(Math.round((10 + 1) * 0.5)); // Unluck halves +2, then S -50%
+    expect(newRunState.state.U).toBe(4);
+  });
+
+  it('should match events by the step id the choice was made on', () => {
+    const base = { ...initializeRunState(7), stepCount: 0 };
+    const config = { ...forcedUnluck, specialEvents: [outage] };
+
+    // First choice of a run that branched straight to step 2
+    expect(stepUpdate(base, createDelta({ S: 2 }), 'A', config, 2).result.specialEventId).toBe('outage');
+    expect(stepUpdate(base, createDelta({ S: 2 }), 'A', config).result.specialEventId).toBeUndefined();
+  });
+});
+
+describe('Interaction rules', () => {
+  const overload: InteractionRule = {
+    id: 'overload',
+    insight: 'Growth is outpacing reliability',
+    when: { gap: { of: ['U', 'S'], min: 11 } },
+    effect: createDelta({ C: -3 }),
+  };
+  const synergy: InteractionRule = {
+    id: 'synergy',
+    insight: 'Customers and investors reinforce each other',
+    when: { C: { min: 5 }, I: { min: 5 } },
+    effect: createDelta({ I: 2 }),
+  };
+  const quiet: MeterConfig = { ...DEFAULT_CONFIG, unluck: { probability: 0, factorRange: [0.4, 0.7] }, interactions: [overload, synergy] };
+
+  it('should match ranges and gaps inclusively', () => {
+    const state = { R: 0, U: 15, S: 4, C: 6, I: 5 };
+
+    expect(matchesInteraction(overload.when, state)).toBe(true); // 15 - 4 = 11
+    expect(matchesInteraction(overload.when, { ...state, S: 5 })).toBe(false);
+    expect(matchesInteraction(synergy.when, state)).toBe(true);
+    expect(matchesInteraction({ gap: { of: ['S', 'U'], max: -11 } }, state)).toBe(true);
+  });
+
+  it('should apply fired rules before the meter and record them', () => {
+    const base = { ...initializeRunState(5), state: { R: 0, U: 10, S: 0, C: 6, I: 5 } };
+
+    const { newRunState, result } = stepUpdate(base, createDelta({ U: 2 }), 'A', quiet);
+    const withoutRules = stepUpdate(base, createDelta({ U: 2 }), 'A', { ...quiet, interactions: [] });
+
+    // Both rules see the state after the choice (C 6), even though overload lowers C below synergy's min
+    expect(result.interactions).toEqual(['overload', 'synergy']);
+    expect(newRunState.state).toEqual({ R: 0, U: 12, S: 0, C: 3, I: 7 });
+    expect(result.effective).toEqual(computeEffective(newRunState.state, quiet));
+    expect(withoutRules.result.interactions).toBeUndefined();
+  });
+
+  it('should surface fired rules as insights, each once', () => {
+    const history = [
+      { ...computeMeter(computeEffective({ R: 1, U: 1, S: 1, C: 1, I: 1 }), 0, () => 0.5), interactions: ['synergy'] },
+      { ...computeMeter(computeEffective({ R: 1, U: 1, S: 1, C: 1, I: 1 }), 0, () => 0.5), interactions: ['synergy', 'overload'] },
+    ];
+
+    const fired = getFiredInteractionRules(history, quiet);
+    expect(fired.map(rule => rule.id)).toEqual(['overload', 'synergy']);
+    expect(getInsights(history[1].effective, createDelta({}), fired).interactions).toEqual([
+      'Growth is outpacing reliability',
+      'Customers and investors reinforce each other',
+    ]);
+  });
+});
+
+describe('Decay and drift', () => {
+  const config: MeterConfig = {
+    ...DEFAULT_CONFIG,
+    unluck: { probability: 0, factorRange: [0.4, 0.7] },
+    decay: { I: 0.2, C: 0.1 },
+    drift: { S: -1 },
+  };
+
+  it('should erode positive values by share and drift by fixed points', () => {
+    const { state, change } = applyDecay({ R: 10, U: 0, S: 3, C: -4, I: 12 }, config);
+
+    expect(state).toEqual({ R: 10, U: 0, S: 2, C: -4, I: 10 });
+    expect(change).toEqual({ S: -1, I: -2 }); // Negative C does not decay
+  });
+
+  it('should apply at the start of every step but the first and record the change', () => {
+    const first = stepUpdate(initializeRunState(3), createDelta({ I: 10, C: 5 }), 'A', config);
+    expect(first.result.decay).toBeUndefined();
+    expect(first.newRunState.state).toEqual({ R: 0, U: 0, S: 0, C: 5, I: 10 });
+
+    const second = stepUpdate(first.newRunState, createDelta({ R: 2 }), 'A', config);
+    expect(second.result.decay).toEqual({ S: -1, C: -1, I: -2 });
+    expect(second.newRunState.state).toEqual({ R: 2, U: 0, S: -1, C: 4, I: 8 });
+    expect(getDecayMessages(second.result)).toEqual([
+      'System Reliability cooled off by 1',
+      'Customer Love cooled off by 1',
+      'Investor Confidence cooled off by 2',
+    ]);
+  });
+
+  it('should leave runs unchanged by default', () => {
+    const first = stepUpdate(initializeRunState(3), createDelta({ I: 10 }), 'A');
+    const second = stepUpdate(first.newRunState, createDelta({}), 'A');
+
+    expect(second.result.decay).toBeUndefined();
+    expect(second.newRunState.state.I).toBe(first.newRunState.state.I);
+  });
+});
+
+describe('resolveMeterConfig', () => {
+  it('should return the defaults without an override', () => {
+    expect(resolveMeterConfig()).toBe(DEFAULT_CONFIG);
+  });
+
+  it('should deep-merge overrides over the defaults', () => {
+    const config = resolveMeterConfig({
+      weights: { I: 0.3 },
+      randomnessRange: [-2, 2],
+      unluck: { probability: 0.1 },
+      specialEvents: [PERFECT_STORM],
+    });
+
+    expect(config.weights).toEqual({ ...DEFAULT_CONFIG.weights, I: 0.3 });
+    expect(config.sigmoid).toEqual(DEFAULT_CONFIG.sigmoid);
+    expect(config.randomnessRange).toEqual([-2, 2]);
+    expect(config.unluck).toEqual({ probability: 0.1, factorRange: DEFAULT_CONFIG.unluck.factorRange });
+    expect(config.specialEvents).toEqual([PERFECT_STORM]);
+    expect(DEFAULT_CONFIG.weights.I).toBe(0.10);
+  });
+});
+
+describe('Meter breakdown', () => {
+  const config: MeterConfig = {
+    ...DEFAULT_CONFIG,
+    momentumBonus: 0,
+    randomnessRange: [2, 2],
+    unluck: { probability: 1, factorRange: [0.5, 0.5] },
+    decay: { I: 0.5 },
+    interactions: [{ id: 'backed', insight: 'Investors back a loved product', when: { C: { min: 1 } }, effect: createDelta({ I: 1 }) }],
+  };
+
+  it('should record requested and applied deltas with adjustments in pipeline order', () => {
+    const first = stepUpdate(initializeRunState(7), createDelta({ I: 4 }), 'A', { ...config, unluck: { probability: 0, factorRange: [0.5, 0.5] } });
+    const { result, newRunState } = stepUpdate(first.newRunState, createDelta({ R: 6, C: 4, S: -2 }), 'B', config);
+    const breakdown = result.breakdown;
+
+    expect(breakdown?.requestedDelta).toEqual({ R: 6, U: 0, S: -2, C: 4, I: 0 });
+    expect(breakdown?.appliedDelta).toEqual({ R: 3, U: 0, S: -2, C: 2, I: 0 });
+    expect(breakdown?.adjustments.map(adjustment => adjustment.source)).toEqual(['decay', 'unluck', 'interaction', 'randomness']);
+    expect(breakdown?.adjustments[0].state).toEqual({ I: -2 });
+    expect(breakdown?.adjustments[1]).toMatchObject({ label: 'Unluck cut gains to 50%', state: { R: -3, C: -2 } });
+    expect(breakdown?.adjustments[2]).toMatchObject({ label: 'Investors back a loved product', state: { I: 1 } });
+    expect(newRunState.state).toEqual({ R: 3, U: 0, S: -2, C: 2, I: 3 });
+  });
+
+  it('should explain the final meter from the normalized score and meter adjustments', () => {
+    const { result } = stepUpdate(initializeRunState(7), createDelta({ R: 8, U: 4 }), 'A', config);
+    const breakdown = result.breakdown;
+    const meterChange = (breakdown?.adjustments ?? []).reduce((sum, adjustment) => sum + (adjustment.meter ?? 0), 0);
+
+    expect(breakdown?.adjustments.at(-1)).toEqual({ source: 'randomness', label: 'Market randomness', meter: 2 });
+    expect((breakdown?.sigmoid ?? 0) + meterChange).toBe(result.meter);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type ContentPack,
+  createDelta,
+  isValidContentPack,
+  type Step,
+  validateContentPack,
+} from '../../src/lib/content-pack';
+import { getDefaultPack } from '../../src/lib/default-pack';
+import {
+  findStepGraphIssues,
+  getDefaultNextStep,
+  getStepForIndex,
+  hasBranching,
+  MAX_RUN_LENGTH,
+  matchesCondition,
+  resolveNextStep,
+} from '../../src/lib/step-graph';
+
+const createSteps = (count: number): Step[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: i + 1,
+    title: `Step ${i + 1}`,
+    scenario: `Scenario ${i + 1}`,
+    options: [
+      {
+        id: 'A',
+        label: `A${i + 1}`,
+        body: `Body A${i + 1}`,
+        delta: createDelta({ R: 2 }),
+      },
+      {
+        id: 'B',
+        label: `B${i + 1}`,
+        body: `Body B${i + 1}`,
+        delta: createDelta({ U: 2 }),
+      },
+    ],
+  }));
+
+const createPack = (steps: Step[]): ContentPack => ({
+  id: 'branching-pack',
+  version: '1.0.0',
+  title: 'Branching Pack',
+  steps,
+});
+
+const context = { state: { R: 20, U: 5, S: 0, C: 0, I: 0 }, meter: 55 };
+
+describe('Step Graph', () => {
+  describe('resolveNextStep', () => {
+    it('should default to the following step and end after the last one', () => {
+      expect(getDefaultNextStep(2, 5)).toBe(3);
+      expect(getDefaultNextStep(5, 5)).toBe('end');
+      expect(resolveNextStep({}, context, 2, 5)).toBe(3);
+      expect(resolveNextStep({}, context, 5, 5)).toBe('end');
+    });
+
+    it('should follow an explicit next step', () => {
+      expect(resolveNextStep({ next: 4 }, context, 1, 5)).toBe(4);
+      expect(resolveNextStep({ next: 'end' }, context, 1, 5)).toBe('end');
+    });
+
+    it('should use the first matching route before falling back to next', () => {
+      const routing = {
+        next: 5,
+        routes: [
+          { when: { meter: { min: 80 } }, next: 2 },
+          { when: { R: { min: 15 }, U: { max: 10 } }, next: 3 },
+          { when: { R: { min: 0 } }, next: 4 },
+        ],
+      };
+
+      expect(resolveNextStep(routing, context, 1, 5)).toBe(3);
+      expect(resolveNextStep(routing, { ...context, meter: 90 }, 1, 5)).toBe(2);
+      expect(
+        resolveNextStep(
+          { ...routing, routes: routing.routes.slice(0, 1) },
+          context,
+          1,
+          5,
+        ),
+      ).toBe(5);
+    });
+
+    it('should end runs that hit the run length cap', () => {
+      expect(resolveNextStep({ next: 1 }, context, 2, 5, MAX_RUN_LENGTH)).toBe(
+        'end',
+      );
+    });
+
+    it('should treat range bounds as inclusive', () => {
+      expect(matchesCondition({ meter: { min: 55, max: 55 } }, context)).toBe(
+        true,
+      );
+      expect(matchesCondition({ S: { max: -1 } }, context)).toBe(false);
+    });
+  });
+
+  describe('findStepGraphIssues', () => {
+    it('should accept linear packs and the default pack', () => {
+      expect(findStepGraphIssues(createSteps(5))).toEqual([]);
+      expect(findStepGraphIssues(getDefaultPack().steps)).toEqual([]);
+    });
+
+    it('should report dangling references', () => {
+      const steps = createSteps(3);
+      steps[0].options[0].next = 7;
+      steps[1].options[1].routes = [{ when: { meter: { min: 50 } }, next: 9 }];
+
+      const issues = findStepGraphIssues(steps);
+      expect(issues.map((issue) => issue.path)).toEqual([
+        ['steps', 0, 'options', 0, 'next'],
+        ['steps', 1, 'options', 1, 'routes', 0, 'next'],
+      ]);
+    });
+
+    it('should report unreachable steps', () => {
+      const steps = createSteps(4);
+      steps[0].options[0].next = 3;
+      steps[0].options[1].next = 3;
+
+      const issues = findStepGraphIssues(steps);
+      expect(issues).toHaveLength(1);
+      expect(issues[0].message).toContain('Step 2 is unreachable');
+    });
+
+    it('should report cycles without an exit but allow cycles with one', () => {
+      const trapped = createSteps(3);
+      trapped[1].options[0].next = 3;
+      trapped[1].options[1].next = 3;
+      trapped[2].options[0].next = 2;
+      trapped[2].options[1].next = 2;
+
+      const messages = findStepGraphIssues(trapped).map(
+        (issue) => issue.message,
+      );
+      expect(messages).toContain('Step 2 is in a cycle without an exit');
+      expect(messages).toContain('Step 3 is in a cycle without an exit');
+
+      const escapable = createSteps(3);
+      escapable[2].options[0].next = 2; // option B still falls through to the end
+      expect(findStepGraphIssues(escapable)).toEqual([]);
+    });
+  });
+
+  describe('ContentPackSchema integration', () => {
+    it('should validate branching packs', () => {
+      const steps = createSteps(5);
+      steps[0].options[0].next = 3;
+      steps[0].options[1].routes = [{ when: { I: { min: 10 } }, next: 4 }];
+      steps[3].options[0].next = 'end';
+
+      const pack = createPack(steps);
+      expect(isValidContentPack(pack)).toBe(true);
+      expect(hasBranching(validateContentPack(pack))).toBe(true);
+      expect(hasBranching(createPack(createSteps(5)))).toBe(false);
+    });
+
+    it('should reject invalid routing', () => {
+      const dangling = createSteps(3);
+      dangling[0].options[0].next = 4;
+
+      const emptyCondition = createSteps(3);
+      emptyCondition[0].options[0].routes = [{ when: {}, next: 2 }];
+
+      expect(isValidContentPack(createPack(dangling))).toBe(false);
+      expect(isValidContentPack(createPack(emptyCondition))).toBe(false);
+    });
+  });
+
+  describe('getStepForIndex', () => {
+    it('should map run positions to visited step ids', () => {
+      const pack = createPack(createSteps(5));
+      expect(getStepForIndex(pack, [1, 3, 5], 1)?.id).toBe(3);
+      expect(getStepForIndex(pack, [1, 3, 5], 3)).toBeUndefined();
+    });
+  });
+});